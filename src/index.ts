@@ -1 +1,77 @@
-export { TypeOrmPostgresTranslator } from './type-orm.postgres.translator.js';
+export {
+  TypeOrmPostgresTranslator,
+  type Page,
+  type PaginateOptions,
+  type TypeOrmPostgresTranslatorOptions,
+} from './type-orm.postgres.translator.js';
+export {
+  TypeOrmTranslationContext,
+  type TranslationMode,
+} from './utils/type-orm-translation-context.js';
+export type { RawSqlQuery } from './utils/postgres-raw-sql-builder.js';
+export {
+  FilterOperatorHandlerRegistry,
+  type OperatorHandlerRegistration,
+  type OperatorHandlerScope,
+} from './utils/filter-operator-handler-registry.js';
+export type { IFilterOperatorHandler } from './utils/filter-handlers/filter-operator-handler.interface.js';
+export { escapeLikePattern } from './utils/filter-handlers/like-comparison.handler.js';
+export {
+  RegexComparisonHandler,
+  regexFilter,
+  type RegexOperator,
+} from './utils/filter-handlers/regex-comparison.handler.js';
+export {
+  InvalidFilterValueError,
+  TranslationError,
+} from './utils/translation-error.js';
+export type { TypeOrmConditionFragment } from './utils/type-orm-filter-fragment-builder.js';
+export type { TypeOrmParameterManager } from './utils/type-orm-parameter-manager.js';
+export {
+  TypeOrmCriteriaSchemaGenerator,
+  type CriteriaSchemaGeneratorOptions,
+} from './utils/type-orm-criteria-schema-generator.js';
+export {
+  TypeOrmSchemaValidator,
+  validateSchemas,
+  type SchemaMismatch,
+  type SchemaMismatchCode,
+} from './utils/type-orm-schema-validator.js';
+export type {
+  Aggregate,
+  AggregateCountType,
+  AggregateFunction,
+  AggregateRow,
+  Aggregation,
+} from './utils/type-orm-aggregation-applier.js';
+export {
+  setJoinStrategy,
+  setRelationCount,
+  type JoinStrategy,
+  type RelationCountOperator,
+} from './utils/join-strategy.js';
+export {
+  orderByRelationAggregate,
+  type RelationAggregate,
+  type RelationAggregateFunction,
+} from './utils/relation-aggregate-order.js';
+export {
+  setFullTextSearch,
+  type FullTextSearch,
+} from './utils/full-text-search.js';
+export { FullTextSearchHandler } from './utils/filter-handlers/full-text-search.handler.js';
+export {
+  orderBySimilarity,
+  type Similarity,
+} from './utils/similarity-order.js';
+export {
+  TrigramSimilarityHandler,
+  type TrigramFunction,
+} from './utils/filter-handlers/trigram-similarity.handler.js';
+export { CursorCodec, type CursorCodecOptions } from './utils/cursor-codec.js';
+export {
+  restorePageOrder,
+  setKeysetCursor,
+  type KeysetCursorField,
+  type KeysetCursorOptions,
+} from './utils/keyset-cursor.js';
@@ -0,0 +1,90 @@
+#!/usr/bin/env node
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+import type { DataSource } from 'typeorm';
+import { TypeOrmCriteriaSchemaGenerator } from '../utils/type-orm-criteria-schema-generator.js';
+
+/**
+ * Writes one `<entity-name>.criteria-schema.ts` file per entity of a DataSource.
+ *
+ * Usage:
+ *   generate-criteria-schemas --data-source <module> --out <directory>
+ *     [--export <name>] [--alias <Entity>=<alias> ...]
+ *
+ * The module must export the DataSource (by default as `default`). It is initialized
+ * to build the entity metadata, and destroyed once the files are written.
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      'data-source': { type: 'string' },
+      export: { type: 'string', default: 'default' },
+      out: { type: 'string' },
+      alias: { type: 'string', multiple: true, default: [] },
+    },
+  });
+
+  if (!values['data-source'] || !values.out) {
+    throw new Error(
+      'Usage: generate-criteria-schemas --data-source <module> --out <directory> [--export <name>] [--alias <Entity>=<alias> ...]',
+    );
+  }
+
+  const dataSourceModule = await import(
+    pathToFileURL(resolve(values['data-source'])).href
+  );
+  const dataSource: DataSource | undefined = dataSourceModule[values.export];
+  if (!dataSource) {
+    throw new Error(
+      `Module '${values['data-source']}' has no '${values.export}' export.`,
+    );
+  }
+
+  const aliases: Record<string, string> = {};
+  for (const entry of values.alias) {
+    const [entityName, alias] = entry.split('=');
+    if (!entityName || !alias) {
+      throw new Error(`Invalid alias '${entry}', expected <Entity>=<alias>.`);
+    }
+    aliases[entityName] = alias;
+  }
+
+  const wasInitialized = dataSource.isInitialized;
+  if (!wasInitialized) {
+    await dataSource.initialize();
+  }
+
+  try {
+    const schemas = new TypeOrmCriteriaSchemaGenerator(dataSource, {
+      aliases,
+    }).generateAll();
+
+    await mkdir(values.out, { recursive: true });
+    for (const [entityName, schema] of Object.entries(schemas)) {
+      const fileName = `${toKebabCase(entityName)}.criteria-schema.ts`;
+      await writeFile(
+        join(values.out, fileName),
+        TypeOrmCriteriaSchemaGenerator.toTypeScript(entityName, schema),
+      );
+      console.log(`Generated ${join(values.out, fileName)}`);
+    }
+  } finally {
+    if (!wasInitialized) {
+      await dataSource.destroy();
+    }
+  }
+}
+
+function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[^A-Za-z0-9]+/g, '-')
+    .toLowerCase();
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -114,7 +114,7 @@ describe('TypeOrmPostgresTranslator - Basic Filters', () => {
     const fetchedUsers = await qb.getMany();
 
     expect(sql).toContain(`WHERE ("${criteria.alias}"."username" ILIKE `);
-    expect(params['param_0']).toBe(`${prefixToMatch}%`);
+    expect(params['param_0']).toBe('user\\_3%');
     expect(fetchedUsers.length).toBe(usersToExpect.length);
     fetchedUsers.forEach((fetchedUser) => {
       expect(fetchedUser.username.startsWith(prefixToMatch)).toBe(true);
@@ -158,7 +158,7 @@ describe('TypeOrmPostgresTranslator - Basic Filters', () => {
     const fetchedPosts = await qb.getMany();
 
     expect(sql).toContain(`WHERE ("${criteria.alias}"."body" NOT ILIKE `);
-    expect(params['param_0']).toBe(`%${substringToExclude}%`);
+    expect(params['param_0']).toBe('%Authored by user\\_2%');
     expect(fetchedPosts.length).toBe(postsToExpect.length);
     fetchedPosts.forEach((fetchedPost) => {
       expect(fetchedPost.body.includes(substringToExclude)).toBe(false);
@@ -78,7 +78,7 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `WHERE ("${criteria.alias}"."event_body" #>> '{status}' = `,
+      `WHERE ("${criteria.alias}"."event_body" #>> $1::text[] = `,
     );
     expect(params['param_0']).toBe('published');
     expect(results.some((r) => r.id === targetEvent.id)).toBe(true);
@@ -104,9 +104,12 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `WHERE ("${criteria.alias}"."event_body" #>> '{details,ip_address}' = `,
+      `WHERE ("${criteria.alias}"."event_body" #>> $1::text[] = `,
     );
-    expect(qb.getParameters()).toEqual({ param_0: '192.168.1.100' });
+    expect(qb.getParameters()).toEqual({
+      param_0: '192.168.1.100',
+      param_1: ['details', 'ip_address'],
+    });
     expect(results.some((r) => r.id === targetEvent.id)).toBe(true);
   });
 
@@ -123,9 +126,12 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `WHERE ("${criteria.alias}"."event_body" #>> '{status}' != `,
+      `WHERE ("${criteria.alias}"."event_body" #>> $1::text[] != `,
     );
-    expect(qb.getParameters()).toEqual({ param_0: valueToExclude });
+    expect(qb.getParameters()).toEqual({
+      param_0: valueToExclude,
+      param_1: ['status'],
+    });
     const expectedResults = actualDomainEventsFromDB.filter(
       (e) =>
         e.event_body.status !== undefined &&
@@ -272,10 +278,10 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `(${criteria.alias}.event_body->'added_permissions' @> `,
+      `("${criteria.alias}"."event_body" #> $1::text[] @> `,
     );
     expect(sql).toContain(
-      `AND ${criteria.alias}.event_body->'added_permissions' <@ `,
+      `AND "${criteria.alias}"."event_body" #> $1::text[] <@ `,
     );
     expect(params['param_0']).toBe(JSON.stringify(exactArray));
     expect(results.some((r) => r.id === targetEvent.id)).toBe(true);
@@ -298,7 +304,7 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const fetchedEvents = await qb.getMany();
 
     expect(sql).toContain(
-      `WHERE ("${criteria.alias}"."event_body" #>> '{${nonExistentKey}}' != `,
+      `WHERE ("${criteria.alias}"."event_body" #>> $1::text[] != `,
     );
     expect(params['param_0']).toBe(someValue);
     expect(fetchedEvents.length).toBe(expectedEventsCount);
@@ -333,7 +339,7 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const fetchedEvents = await qb.getMany();
 
     expect(sql).toContain(
-      `WHERE ("${criteria.alias}"."event_body" #>> '{status}' != `,
+      `WHERE ("${criteria.alias}"."event_body" #>> $1::text[] != `,
     );
     expect(params['param_0']).toBe(valueToExclude);
     expect(fetchedEvents.length).toBe(expectedEvents.length);
@@ -395,7 +401,9 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const params = qb.getParameters();
     const fetchedEvents = await qb.getMany();
 
-    expect(sql).toContain(`(${criteria.alias}.event_body->'tags' @> `);
+    expect(sql).toContain(
+      `("${criteria.alias}"."event_body" #> $1::text[] @> `,
+    );
     expect(params['param_0']).toBe(JSON.stringify(emptyArray));
     expect(fetchedEvents.length).toBe(expectedEvents.length);
     fetchedEvents.forEach((fe) => {
@@ -494,7 +502,7 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const params = qb.getParameters();
     const results = await qb.getMany();
 
-    expect(sql).toContain(`(${criteria.alias}.event_body->'tags' = `);
+    expect(sql).toContain(`("${criteria.alias}"."event_body" #> $1::text[] = `);
     expect(params['param_0']).toBe(JSON.stringify(exactArray));
     expect(results.length).toBe(1);
     expect(results[0]?.id).toBe(expectedEvent.id);
@@ -896,10 +904,10 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `NOT (${criteria.alias}.event_body->'added_permissions' @> `,
+      `NOT ("${criteria.alias}"."event_body" #> $1::text[] @> `,
     );
     expect(sql).toContain(
-      `AND ${criteria.alias}.event_body->'added_permissions' <@ `,
+      `AND "${criteria.alias}"."event_body" #> $1::text[] <@ `,
     );
     expect(params['param_0']).toBe(JSON.stringify(arrayToExclude));
     expect(results.length).toBe(expectedEvents.length);
@@ -953,7 +961,7 @@ describe('TypeOrmPostgresTranslator - JSON/Array Operators', () => {
     const results = await qb.getMany();
 
     expect(sql).toContain(
-      `(${criteria.alias}.event_body->'tags' IS NULL OR NOT (${criteria.alias}.event_body->'tags' = `,
+      `("${criteria.alias}"."event_body" #> $1::text[] IS NULL OR NOT ("${criteria.alias}"."event_body" #> $1::text[] = `,
     );
     expect(params['param_0']).toBe(JSON.stringify(arrayToExclude));
     expect(results.length).toBe(expectedEvents.length);
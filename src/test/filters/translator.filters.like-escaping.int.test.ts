@@ -0,0 +1,124 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - LIKE Escaping', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const findUsers = async (
+    field: 'username' | 'email',
+    operator:
+      | FilterOperator.CONTAINS
+      | FilterOperator.NOT_CONTAINS
+      | FilterOperator.STARTS_WITH
+      | FilterOperator.ENDS_WITH
+      | FilterOperator.LIKE
+      | FilterOperator.ILIKE,
+    value: string,
+  ) => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+      field,
+      operator,
+      value,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return {
+      sql: qb.getSql(),
+      parameters: qb.getParameters(),
+      usernames: (await qb.getMany()).map((user) => user.username).sort(),
+    };
+  };
+
+  const allUsernames = () =>
+    actualUsersFromDB.map((user) => user.username).sort();
+
+  it('should match % and _ literally in CONTAINS values', async () => {
+    const underscore = await findUsers('email', FilterOperator.CONTAINS, '_');
+    expect(underscore.sql).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."email" ILIKE $1 ESCAPE '\\')`,
+    );
+    expect(underscore.parameters['param_0']).toBe('%\\_%');
+    expect(underscore.usernames).toEqual([]);
+
+    const percent = await findUsers('username', FilterOperator.CONTAINS, '%');
+    expect(percent.parameters['param_0']).toBe('%\\%%');
+    expect(percent.usernames).toEqual([]);
+
+    const literal = await findUsers('username', FilterOperator.CONTAINS, 'r_1');
+    expect(literal.usernames).toEqual(['user_1']);
+
+    const notContains = await findUsers(
+      'email',
+      FilterOperator.NOT_CONTAINS,
+      '50%_off',
+    );
+    expect(notContains.parameters['param_0']).toBe('%50\\%\\_off%');
+    expect(notContains.usernames).toEqual(allUsernames());
+  });
+
+  it('should escape STARTS_WITH and ENDS_WITH values, including backslashes', async () => {
+    const prefix = await findUsers(
+      'email',
+      FilterOperator.STARTS_WITH,
+      'user_',
+    );
+    expect(prefix.parameters['param_0']).toBe('user\\_%');
+    expect(prefix.usernames).toEqual([]);
+
+    const suffix = await findUsers('username', FilterOperator.ENDS_WITH, '\\1');
+    expect(suffix.parameters['param_0']).toBe('%\\\\1');
+    expect(suffix.usernames).toEqual([]);
+  });
+
+  it('should keep the wildcards of raw LIKE and ILIKE patterns', async () => {
+    const like = await findUsers('email', FilterOperator.LIKE, 'user_@%');
+    expect(like.sql).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."email" LIKE $1)`,
+    );
+    expect(like.usernames).toEqual(allUsernames());
+
+    const ilike = await findUsers('username', FilterOperator.ILIKE, 'USER_1%');
+    expect(ilike.usernames).toEqual(['user_1']);
+  });
+
+  it('should escape the values in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+      field: 'username',
+      operator: FilterOperator.CONTAINS,
+      value: '_%',
+    });
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toContain(`WHERE ("users"."username" ILIKE $1 ESCAPE '\\')`);
+    expect(values).toEqual(['%\\_\\%%']);
+    expect(await dataSource.query(sql, values)).toEqual([]);
+  });
+});
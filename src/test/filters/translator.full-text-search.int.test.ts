@@ -0,0 +1,260 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  GetTypedCriteriaSchema,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import { FullTextSearchHandler } from '../../utils/filter-handlers/full-text-search.handler.js';
+import { CursorCodec } from '../../utils/cursor-codec.js';
+import { setFullTextSearch } from '../../utils/full-text-search.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+} from '../utils/fake-entities.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+
+/**
+ * The post schema with its title declared as the stored tsvector column.
+ * Postgres matches a text column with `text @@ tsquery`, so it stands in for a tsvector column.
+ */
+const SearchablePostSchema = GetTypedCriteriaSchema({
+  ...CriteriaPostSchema,
+  metadata: { tsvector_field: 'title' },
+});
+
+describe('TypeOrmPostgresTranslator - Full-Text Search', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualPostsFromDB = await dataSource.getRepository(PostEntity).find();
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const postByTitle = (title: string) =>
+    actualPostsFromDB.find((post) => post.title === title)!;
+
+  it('should search the words of a field, AND-ed with the root filters', async () => {
+    const criteria = setFullTextSearch(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+        field: 'title',
+        operator: FilterOperator.NOT_EQUALS,
+        value: 'Post Title 2',
+      }),
+      { query: '"title 1" or "title 2" or "title 3"', fields: ['title'] },
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `AND to_tsvector('simple', "${criteria.alias}"."title") @@ websearch_to_tsquery('simple', $2)`,
+    );
+    const posts = await qb.getMany();
+    expect(posts.map((post) => post.uuid).sort()).toEqual(
+      [postByTitle('Post Title 1'), postByTitle('Post Title 3')]
+        .map((post) => post.uuid)
+        .sort(),
+    );
+
+    const countQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translateCount(criteria, countQb);
+    expect(Number((await countQb.getRawOne()).count)).toBe(2);
+  });
+
+  it('should search several fields as one document, with the configuration of the query', async () => {
+    const criteria = setFullTextSearch(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema),
+      {
+        query: '"titles 4" authored bodies',
+        fields: ['title', 'body'],
+        config: 'english',
+      },
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE to_tsvector('english', (coalesce("${criteria.alias}"."title", '') || ' ' || coalesce("${criteria.alias}"."body", ''))) @@ websearch_to_tsquery('english', $1)`,
+    );
+    const posts = await qb.getMany();
+    expect(posts.map((post) => post.uuid)).toEqual([
+      postByTitle('Post Title 4').uuid,
+    ]);
+  });
+
+  it('should order by ts_rank_cd at its place in the orderBy sequence', async () => {
+    const criteria = setFullTextSearch(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema),
+      { query: 'title or 1 or 11', fields: ['title'], orderByRank: true },
+    )
+      .orderBy('uuid', OrderDirection.ASC)
+      .setTake(5);
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `ts_rank_cd(to_tsvector('simple', "${criteria.alias}"."title"), websearch_to_tsquery('simple', $1)) AS "${criteria.alias}_search_rank"`,
+    );
+    expect(sql).toContain(
+      `ORDER BY "${criteria.alias}_search_rank" DESC NULLS LAST, "${criteria.alias}_uuid" ASC NULLS LAST`,
+    );
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    expect(entities).toHaveLength(5);
+    expect(entities.slice(0, 2).map((post) => post.title)).toEqual(
+      expect.arrayContaining(['Post Title 1', 'Post Title 11']),
+    );
+    const ranks = raw.map((row) => row[`${criteria.alias}_search_rank`]);
+    expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+  });
+
+  it('should match the stored tsvector column declared in the schema metadata', async () => {
+    const criteria = setFullTextSearch(
+      CriteriaFactory.GetCriteria(SearchablePostSchema),
+      { query: '12' },
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE "${criteria.alias}"."title" @@ websearch_to_tsquery('simple', $1)`,
+    );
+    expect((await qb.getMany()).map((post) => post.uuid)).toEqual([
+      postByTitle('Post Title 12').uuid,
+    ]);
+  });
+
+  it('should search by words when registered as the CONTAINS handler of a field', async () => {
+    const searchTranslator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.CONTAINS,
+          handler: new FullTextSearchHandler('english'),
+          sourceName: CriteriaPostSchema.source_name,
+          field: 'body',
+        },
+        {
+          operator: FilterOperator.NOT_CONTAINS,
+          handler: new FullTextSearchHandler('english', true),
+          sourceName: CriteriaPostSchema.source_name,
+          field: 'body',
+        },
+      ],
+    });
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .where({
+        field: 'body',
+        operator: FilterOperator.CONTAINS,
+        value: 'bodies',
+      })
+      .andWhere({
+        field: 'body',
+        operator: FilterOperator.NOT_CONTAINS,
+        value: '"posts 5"',
+      });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    searchTranslator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `NOT (to_tsvector('english', "${criteria.alias}"."body") @@ websearch_to_tsquery('english', $2))`,
+    );
+    const posts = await qb.getMany();
+    expect(posts.map((post) => post.uuid).sort()).toEqual(
+      actualPostsFromDB
+        .filter((post) => post.title !== 'Post Title 5')
+        .map((post) => post.uuid)
+        .sort(),
+    );
+  });
+
+  it('should build the same search and rank ordering in raw SQL', async () => {
+    const criteria = setFullTextSearch(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema),
+      {
+        query: '"title 7" or "title 8"',
+        fields: ['title', 'body'],
+        orderByRank: true,
+      },
+    ).orderBy('title', OrderDirection.ASC);
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toContain(
+      `ts_rank_cd(to_tsvector('simple', (coalesce("posts"."title", '') || ' ' || coalesce("posts"."body", ''))), websearch_to_tsquery('simple', $1)) AS "posts_search_rank"`,
+    );
+    expect(sql).toContain(
+      `ORDER BY "posts_search_rank" DESC NULLS LAST, "posts"."title" ASC NULLS LAST`,
+    );
+    expect(values).toEqual([
+      '"title 7" or "title 8"',
+      '"title 7" or "title 8"',
+    ]);
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rows.map((row) => row.posts_title)).toEqual([
+      'Post Title 7',
+      'Post Title 8',
+    ]);
+  });
+
+  it('should reject invalid searches', () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema);
+    expect(() =>
+      setFullTextSearch(criteria, {
+        query: 'typeorm',
+        fields: ['title'],
+        config: "english') OR (1=1",
+      }),
+    ).toThrow("Invalid text search configuration: 'english') OR (1=1'.");
+    expect(() =>
+      setFullTextSearch(criteria, { query: 'typeorm', fields: ['summary'] }),
+    ).toThrow("The field 'summary' is not defined in the schema 'post'.");
+    expect(() => setFullTextSearch(criteria, { query: 'typeorm' })).toThrow(
+      "A full-text search needs fields, since the schema 'post' declares no tsvector_field in its metadata.",
+    );
+
+    setFullTextSearch(criteria, {
+      query: 'typeorm',
+      fields: ['title'],
+      orderByRank: true,
+    });
+    expect(() =>
+      new CursorCodec({ secret: 'test-secret' }).encode(
+        criteria,
+        actualPostsFromDB[0]!,
+      ),
+    ).toThrow(
+      'Cursor tokens cannot be created for criteria ordered by full-text search rank.',
+    );
+  });
+});
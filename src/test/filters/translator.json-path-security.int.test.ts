@@ -0,0 +1,230 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import {
+  InvalidFilterValueError,
+  TranslationError,
+} from '../../utils/translation-error.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type DomainEvent,
+  DomainEventsSchema,
+} from '../utils/fake-entities.js';
+import { EventEntitySchema } from '../utils/entities/event.entity.js';
+
+/**
+ * Keys that broke out of the path literals when they were interpolated into the query.
+ */
+const HOSTILE_KEYS = [
+  "status}' IS NOT NULL OR '{status",
+  "status'}') OR 1=1 --",
+  "tags' @> '[]'::jsonb OR 'x",
+  'status"; DROP TABLE event; --',
+  '{status}',
+  'status,tags',
+];
+
+describe('TypeOrmPostgresTranslator - JSON Path Security', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualDomainEventsFromDB: DomainEvent<any>[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualDomainEventsFromDB = await dataSource
+      .getRepository(EventEntitySchema)
+      .find();
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const findEvents = async (criteria: RootCriteria<any>) => {
+    const qb = await TypeORMUtils.getQueryBuilderFor<DomainEvent<any>>(
+      EventEntitySchema,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return {
+      sql: qb.getSql(),
+      parameters: qb.getParameters(),
+      ids: (await qb.getMany()).map((event) => event.id).sort(),
+    };
+  };
+
+  const eventsWhere = (
+    operator: FilterOperator,
+    value: ObjectLiteral,
+  ): RootCriteria<any> =>
+    CriteriaFactory.GetCriteria(DomainEventsSchema).where({
+      field: 'event_body',
+      operator,
+      value,
+    } as any);
+
+  it('should bind hostile keys of JSON_PATH_VALUE_EQUALS as path parameters', async () => {
+    for (const key of HOSTILE_KEYS) {
+      const { sql, parameters, ids } = await findEvents(
+        eventsWhere(FilterOperator.JSON_PATH_VALUE_EQUALS, {
+          [key]: 'published',
+        }),
+      );
+
+      expect(sql).toContain(
+        `WHERE ("${DomainEventsSchema.alias}"."event_body" #>> $1::text[] = $2)`,
+      );
+      expect(sql).not.toContain(key);
+      expect(parameters).toEqual({ param_0: 'published', param_1: [key] });
+      expect(ids).toEqual([]);
+    }
+  });
+
+  it('should bind hostile keys of the JSON array operators as path parameters', async () => {
+    const operators = [
+      FilterOperator.ARRAY_EQUALS,
+      FilterOperator.ARRAY_EQUALS_STRICT,
+      FilterOperator.ARRAY_CONTAINS_ELEMENT,
+      FilterOperator.ARRAY_CONTAINS_ANY_ELEMENT,
+      FilterOperator.ARRAY_CONTAINS_ALL_ELEMENTS,
+      FilterOperator.JSON_CONTAINS_ANY,
+      FilterOperator.JSON_CONTAINS_ALL,
+    ];
+
+    for (const operator of operators) {
+      for (const key of HOSTILE_KEYS) {
+        const value =
+          operator === FilterOperator.ARRAY_CONTAINS_ELEMENT
+            ? { [key]: 'security' }
+            : { [key]: ['security'] };
+        const { sql, ids } = await findEvents(eventsWhere(operator, value));
+
+        expect(sql).not.toContain(key);
+        expect(ids).toEqual([]);
+      }
+    }
+  });
+
+  it('should not let hostile keys negate the NOT operators', async () => {
+    const allIds = actualDomainEventsFromDB.map((event) => event.id).sort();
+
+    for (const key of HOSTILE_KEYS) {
+      const notEquals = await findEvents(
+        eventsWhere(FilterOperator.ARRAY_NOT_EQUALS, { [key]: [] }),
+      );
+      expect(notEquals.sql).not.toContain(key);
+      expect(notEquals.ids).toEqual(allIds);
+
+      const notContains = await findEvents(
+        eventsWhere(FilterOperator.JSON_NOT_CONTAINS_ANY, { [key]: ['x'] }),
+      );
+      expect(notContains.sql).not.toContain(key);
+      expect(notContains.ids).toEqual(allIds);
+    }
+  });
+
+  it('should resolve array index segments', async () => {
+    const modified = actualDomainEventsFromDB.find(
+      (event) => event.event_body.version_history,
+    )!;
+    const disabled = actualDomainEventsFromDB.find(
+      (event) => event.event_body.flags,
+    )!;
+
+    const version = await findEvents(
+      eventsWhere(FilterOperator.JSON_PATH_VALUE_EQUALS, {
+        'version_history.1.version': 2,
+        'tags.0': 'update',
+      }),
+    );
+    expect(version.parameters).toMatchObject({
+      param_1: ['version_history', '1', 'version'],
+      param_3: ['tags', '0'],
+    });
+    expect(version.ids).toEqual([modified.id]);
+
+    const flag = await findEvents(
+      eventsWhere(FilterOperator.JSON_PATH_VALUE_NOT_EQUALS, { 'flags.1': 10 }),
+    );
+    expect(flag.ids).toEqual([disabled.id]);
+
+    const history = await findEvents(
+      eventsWhere(FilterOperator.ARRAY_NOT_CONTAINS_ELEMENT, {
+        'version_history.0': 1,
+      }),
+    );
+    expect(history.sql).toContain(
+      `WHERE (NOT coalesce("${DomainEventsSchema.alias}"."event_body" #> $1::text[] @> $2::jsonb, false))`,
+    );
+    expect(history.ids).toEqual(
+      actualDomainEventsFromDB.map((event) => event.id).sort(),
+    );
+  });
+
+  it('should bind hostile keys as path parameters in raw SQL', async () => {
+    const key = HOSTILE_KEYS[0]!;
+    const { sql, values } = translator.translateToSql(
+      eventsWhere(FilterOperator.ARRAY_EQUALS_STRICT, { [key]: ['security'] }),
+    );
+
+    expect(sql).toContain(
+      `WHERE (("events"."event_body" #> $1::text[] = $2::jsonb))`,
+    );
+    expect(sql).not.toContain(key);
+    expect(values).toEqual([[key], JSON.stringify(['security'])]);
+    expect(await dataSource.query(sql, values)).toEqual([]);
+  });
+
+  it('should reject invalid paths with a typed error before querying', async () => {
+    const invalidPaths = [
+      '',
+      '.status',
+      'status.',
+      'details..ip_address',
+      'version_history.01.version',
+      'flags.2147483648',
+      'status\u0000',
+    ];
+
+    for (const path of invalidPaths) {
+      const criteria = eventsWhere(FilterOperator.JSON_PATH_VALUE_EQUALS, {
+        [path]: 'published',
+      });
+
+      let error: unknown;
+      try {
+        translator.translateToSql(criteria);
+      } catch (caught) {
+        error = caught;
+      }
+      expect(error).toBeInstanceOf(InvalidFilterValueError);
+      expect(error).toBeInstanceOf(TranslationError);
+      expect(error).toMatchObject({
+        message: `Invalid JSON path for the field 'event_body': '${path}'.`,
+        field: 'event_body',
+        value: path,
+      });
+    }
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<DomainEvent<any>>(
+      EventEntitySchema,
+      DomainEventsSchema.alias,
+    );
+    expect(() =>
+      translator.translate(
+        eventsWhere(FilterOperator.ARRAY_CONTAINS_ANY_ELEMENT, {
+          'tags..0': ['security'],
+        }),
+        qb,
+      ),
+    ).toThrow("Invalid JSON path for the field 'event_body': 'tags..0'.");
+  });
+});
@@ -0,0 +1,232 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  type Filter,
+  FilterOperator,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import type { IFilterOperatorHandler } from '../../utils/filter-handlers/filter-operator-handler.interface.js';
+import type { TypeOrmConditionFragment } from '../../utils/type-orm-filter-fragment-builder.js';
+import { TypeOrmFilterFragmentBuilder } from '../../utils/type-orm-filter-fragment-builder.js';
+import { TypeOrmParameterManager } from '../../utils/type-orm-parameter-manager.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+
+/**
+ * Compares the field and the value after applying the same SQL function to both.
+ */
+class FunctionComparisonHandler implements IFilterOperatorHandler {
+  constructor(
+    private sqlFunction: string,
+    private pattern: (value: any) => string = (value) => value,
+    private comparison: string = '=',
+  ) {}
+
+  public build(
+    fieldName: string,
+    filter: Filter<string, any>,
+    parameterManager: TypeOrmParameterManager,
+  ): TypeOrmConditionFragment {
+    const paramName = parameterManager.generateParamName();
+    return {
+      queryFragment: `${this.sqlFunction}(${fieldName}) ${this.comparison} ${this.sqlFunction}(:${paramName})`,
+      parameters: { [paramName]: this.pattern(filter.value) },
+    };
+  }
+}
+
+const upperContainsHandler = new FunctionComparisonHandler(
+  'UPPER',
+  (value) => `%${value}%`,
+  'LIKE',
+);
+
+describe('TypeOrmPostgresTranslator - Operator Handlers', () => {
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { publisher: true } });
+  });
+
+  it('should override a built-in operator for every filter', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        { operator: FilterOperator.CONTAINS, handler: upperContainsHandler },
+      ],
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+      field: 'title',
+      operator: FilterOperator.CONTAINS,
+      value: 'post title 1',
+    });
+
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `UPPER("${CriteriaPostSchema.alias}"."title") LIKE UPPER($1)`,
+    );
+    const posts = await qb.getMany();
+    const expectedPosts = actualPostsFromDB.filter((post) =>
+      post.title.toUpperCase().includes('POST TITLE 1'),
+    );
+    expect(posts.length).toBeGreaterThan(0);
+    expect(posts.map((post) => post.uuid).sort()).toEqual(
+      expectedPosts.map((post) => post.uuid).sort(),
+    );
+  });
+
+  it('should apply a schema-scoped handler only to the filters of that schema, including joined aliases', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.CONTAINS,
+          handler: upperContainsHandler,
+          sourceName: CriteriaUserSchema.source_name,
+        },
+      ],
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .where({
+        field: 'title',
+        operator: FilterOperator.CONTAINS,
+        value: 'Title',
+      })
+      .join(
+        'publisher',
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+          field: 'username',
+          operator: FilterOperator.CONTAINS,
+          value: 'USER_1',
+        }),
+        { select: SelectType.FULL_ENTITY },
+      );
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(`"${CriteriaPostSchema.alias}"."title" ILIKE $2`);
+    expect(sql).toContain(`UPPER("publisher"."username") LIKE UPPER($1)`);
+
+    const posts = await qb.getMany();
+    const expectedPosts = actualPostsFromDB.filter(
+      (post) => post.publisher?.username === 'user_1',
+    );
+    expect(posts.length).toBe(expectedPosts.length);
+    posts.forEach((post) => expect(post.publisher!.username).toBe('user_1'));
+  });
+
+  it('should resolve the most specific registration for a filter', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.EQUALS,
+          handler: new FunctionComparisonHandler('UPPER'),
+          sourceName: CriteriaUserSchema.source_name,
+        },
+        {
+          operator: FilterOperator.EQUALS,
+          handler: new FunctionComparisonHandler('TRIM'),
+          field: 'username',
+        },
+        {
+          operator: FilterOperator.EQUALS,
+          handler: new FunctionComparisonHandler('LOWER'),
+          sourceName: CriteriaUserSchema.source_name,
+          field: 'username',
+        },
+      ],
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    const targetUser = actualUsersFromDB[0]!;
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .where({
+        field: 'username',
+        operator: FilterOperator.EQUALS,
+        value: targetUser.username.toUpperCase(),
+      })
+      .andWhere({
+        field: 'email',
+        operator: FilterOperator.EQUALS,
+        value: targetUser.email.toLowerCase(),
+      });
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `LOWER("${CriteriaUserSchema.alias}"."username") = LOWER($1)`,
+    );
+    expect(sql).toContain(
+      `UPPER("${CriteriaUserSchema.alias}"."email") = UPPER($2)`,
+    );
+    expect(sql).not.toContain('TRIM(');
+
+    const users = await qb.getMany();
+    expect(users.map((user) => user.uuid)).toEqual([targetUser.uuid]);
+  });
+
+  it('should use the registered handlers in translateToSql', () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        { operator: FilterOperator.CONTAINS, handler: upperContainsHandler },
+      ],
+    });
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+      field: 'title',
+      operator: FilterOperator.CONTAINS,
+      value: 'title',
+    });
+
+    const { sql, values } = translator.translateToSql(criteria);
+
+    expect(sql).toContain(
+      `UPPER("${CriteriaPostSchema.alias}"."title") LIKE UPPER($1)`,
+    );
+    expect(values).toEqual(['%title%']);
+  });
+
+  it('should list the registered operators when no handler is registered for an operator', () => {
+    const fragmentBuilder = new TypeOrmFilterFragmentBuilder(
+      new TypeOrmParameterManager(),
+    );
+    const unknownFilter = {
+      field: 'username',
+      operator: 'UNKNOWN_OPERATOR',
+      value: 'user_1',
+    } as unknown as Filter<string, FilterOperator>;
+
+    expect(() =>
+      fragmentBuilder.build(unknownFilter, CriteriaUserSchema.alias),
+    ).toThrow(
+      /^Unsupported filter operator: UNKNOWN_OPERATOR\. Registered operators: =, !=, .*\.$/,
+    );
+  });
+});
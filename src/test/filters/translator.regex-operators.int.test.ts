@@ -0,0 +1,226 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  type FilterPrimitive,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import {
+  RegexComparisonHandler,
+  regexFilter,
+  type RegexOperator,
+} from '../../utils/filter-handlers/regex-comparison.handler.js';
+import {
+  InvalidFilterValueError,
+  TranslationError,
+} from '../../utils/translation-error.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - Regex Operators', () => {
+  let actualUsersFromDB: User[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+  });
+
+  const translatorWith = (operatorString: RegexOperator) =>
+    new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.MATCHES_REGEX,
+          handler: new RegexComparisonHandler(operatorString),
+        },
+      ],
+    });
+
+  const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+
+  const matchUsers = async (
+    operatorString: RegexOperator,
+    field: 'username' | 'email',
+    pattern: string,
+  ) => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).where(
+      regexFilter(field, pattern, operatorString),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return { sql: qb.getSql(), users: await qb.getMany() };
+  };
+
+  const usernamesOf = (users: User[]) =>
+    users.map((user) => user.username).sort();
+
+  it('should match case-insensitively with ~*', async () => {
+    const { sql, users } = await matchUsers('~*', 'username', '^USER_[1-3]$');
+
+    expect(sql).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."username" ~* $1)`,
+    );
+    expect(usernamesOf(users)).toEqual(['user_1', 'user_2', 'user_3']);
+  });
+
+  it('should negate matches with !~ and !~*', async () => {
+    const caseSensitive = await matchUsers('!~', 'username', '^USER_[1-3]$');
+    expect(caseSensitive.sql).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."username" !~ $1)`,
+    );
+    expect(usernamesOf(caseSensitive.users)).toEqual(
+      usernamesOf(actualUsersFromDB),
+    );
+
+    const caseInsensitive = await matchUsers('!~*', 'username', '^USER_[1-3]$');
+    expect(usernamesOf(caseInsensitive.users)).toEqual(
+      usernamesOf(actualUsersFromDB).filter(
+        (username) => !/^user_[1-3]$/.test(username),
+      ),
+    );
+  });
+
+  it('should match SQL regular expressions with SIMILAR TO and NOT SIMILAR TO', async () => {
+    const similar = await matchUsers('SIMILAR TO', 'email', 'user(1|2)@%');
+    expect(similar.sql).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."email" SIMILAR TO $1)`,
+    );
+    expect(usernamesOf(similar.users)).toEqual(['user_1', 'user_2']);
+
+    const notSimilar = await matchUsers(
+      'NOT SIMILAR TO',
+      'username',
+      'user\\_[2-8]',
+    );
+    expect(usernamesOf(notSimilar.users)).toEqual(['user_1']);
+  });
+
+  it('should use the operator of a registered handler unless the filter sets one', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .where({
+        field: 'username',
+        operator: FilterOperator.MATCHES_REGEX,
+        value: '^USER_[1-3]$',
+      })
+      .andWhere(regexFilter('username', '^user_[2-4]$', '~'));
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translatorWith('~*').translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE ("${criteria.alias}"."username" ~* $1 AND "${criteria.alias}"."username" ~ $2)`,
+    );
+    expect(usernamesOf(await qb.getMany())).toEqual(['user_2', 'user_3']);
+
+    expect(() =>
+      translator.translateToSql(
+        CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+          ...regexFilter('username', 'user', '~'),
+          regexOperator: '~ 1 = 1 OR username ~',
+        } as FilterPrimitive<'username', FilterOperator.MATCHES_REGEX>),
+      ),
+    ).toThrow(
+      "Invalid pattern operator for the field 'username': '~ 1 = 1 OR username ~'.",
+    );
+  });
+
+  it('should accept PostgreSQL-only embedded options and comments', async () => {
+    const { users } = await matchUsers('~', 'username', '(?i)^USER_4$');
+    expect(usernamesOf(users)).toEqual(['user_4']);
+
+    const commented = await matchUsers(
+      '~',
+      'username',
+      '^user_4(?#the fourth user)$',
+    );
+    expect(usernamesOf(commented.users)).toEqual(['user_4']);
+  });
+
+  it('should reject invalid patterns with a typed error before querying', async () => {
+    const translateMatching = (
+      operatorString: RegexOperator,
+      pattern: string,
+    ) =>
+      translator.translateToSql(
+        CriteriaFactory.GetCriteria(CriteriaUserSchema).where(
+          regexFilter('username', pattern, operatorString),
+        ),
+      );
+
+    expect(() => translateMatching('~', '(abc')).toThrow(
+      new InvalidFilterValueError(
+        "Invalid pattern for the field 'username': unbalanced parentheses in '(abc'.",
+        'username',
+        '(abc',
+      ),
+    );
+    expect(() => translateMatching('~*', '[z-a]')).toThrow(
+      "Invalid pattern for the field 'username': the reversed range 'z-a' in '[z-a]'.",
+    );
+    expect(() => translateMatching('!~', 'a{2,1}')).toThrow(
+      "Invalid pattern for the field 'username': the invalid bound '{2,1}' in 'a{2,1}'.",
+    );
+    expect(() => translateMatching('~', '*user')).toThrow(
+      "Invalid pattern for the field 'username': a quantifier without an operand in '*user'.",
+    );
+    expect(() => translateMatching('SIMILAR TO', 'user_[1-3')).toThrow(
+      "Invalid pattern for the field 'username': unbalanced brackets in 'user_[1-3'.",
+    );
+    expect(() => translateMatching('NOT SIMILAR TO', '%*')).toThrow(
+      "Invalid pattern for the field 'username': a quantifier without an operand in '%*'.",
+    );
+  });
+
+  it('should reject too long patterns and characters PostgreSQL rejects with a typed error before querying', async () => {
+    const criteriaMatching = (pattern: string) =>
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+        field: 'username',
+        operator: FilterOperator.MATCHES_REGEX,
+        value: pattern,
+      });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+
+    let error: unknown;
+    try {
+      new TypeOrmPostgresTranslator<ObjectLiteral>().translate(
+        criteriaMatching('^user_\u00001'),
+        qb,
+      );
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toBeInstanceOf(InvalidFilterValueError);
+    expect(error).toBeInstanceOf(TranslationError);
+    expect(error).toMatchObject({
+      name: 'InvalidFilterValueError',
+      message: "Invalid pattern for the field 'username': '^user_\u00001'.",
+      field: 'username',
+      value: '^user_\u00001',
+    });
+
+    expect(() =>
+      translator.translateToSql(
+        CriteriaFactory.GetCriteria(CriteriaUserSchema).where(
+          regexFilter('username', 'a'.repeat(1001), 'SIMILAR TO'),
+        ),
+      ),
+    ).toThrow(
+      "The pattern of the field 'username' must be at most 1000 characters.",
+    );
+  });
+});
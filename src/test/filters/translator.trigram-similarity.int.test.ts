@@ -0,0 +1,270 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import { TrigramSimilarityHandler } from '../../utils/filter-handlers/trigram-similarity.handler.js';
+import { CursorCodec } from '../../utils/cursor-codec.js';
+import { orderBySimilarity } from '../../utils/similarity-order.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - Trigram Similarity (pg_trgm)', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+    actualPostsFromDB = await dataSource.getRepository(PostEntity).find();
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const fuzzyTranslator = (handler: TrigramSimilarityHandler, field: string) =>
+    new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        { operator: FilterOperator.CONTAINS, handler, field },
+        {
+          operator: FilterOperator.NOT_CONTAINS,
+          handler,
+          field,
+        },
+      ],
+    });
+
+  it('should fuzzy match with the % operator and its default threshold', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+      field: 'username',
+      operator: FilterOperator.CONTAINS,
+      value: 'usr_3',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    fuzzyTranslator(new TrigramSimilarityHandler(), 'username').translate(
+      criteria,
+      qb,
+    );
+
+    expect(qb.getSql()).toContain(
+      `WHERE ("${criteria.alias}"."username" % $1)`,
+    );
+    expect((await qb.getMany()).map((user) => user.username)).toEqual([
+      'user_3',
+    ]);
+  });
+
+  it('should compare the similarity with an explicit threshold', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+      field: 'title',
+      operator: FilterOperator.CONTAINS,
+      value: 'Post Titel 12',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    fuzzyTranslator(
+      new TrigramSimilarityHandler('similarity', 0.6),
+      'title',
+    ).translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE (similarity("${criteria.alias}"."title", $1) > $2)`,
+    );
+    expect(qb.getParameters()).toMatchObject({
+      param_0: 'Post Titel 12',
+      param_1: 0.6,
+    });
+    expect((await qb.getMany()).map((post) => post.title)).toEqual([
+      'Post Title 12',
+    ]);
+  });
+
+  it('should match words of the field with word_similarity, negated by NOT handlers', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+      field: 'title',
+      operator: FilterOperator.NOT_CONTAINS,
+      value: 'titel 12',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    fuzzyTranslator(
+      new TrigramSimilarityHandler('word_similarity', 0.4, true),
+      'title',
+    ).translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE (NOT (word_similarity($1, "${criteria.alias}"."title") > $2))`,
+    );
+    expect((await qb.getMany()).map((post) => post.uuid).sort()).toEqual(
+      actualPostsFromDB
+        .filter((post) => post.title !== 'Post Title 12')
+        .map((post) => post.uuid)
+        .sort(),
+    );
+  });
+
+  it('should order by similarity at its place in the orderBy sequence', async () => {
+    const criteria = orderBySimilarity(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema),
+      'titleSimilarity',
+      { field: 'title', value: 'Post Titel 12' },
+      OrderDirection.DESC,
+    )
+      .orderBy('title', OrderDirection.ASC)
+      .setTake(3);
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `similarity("${criteria.alias}"."title", $1) AS "${criteria.alias}_titleSimilarity"`,
+    );
+    expect(sql).toContain(
+      `ORDER BY "${criteria.alias}_titleSimilarity" DESC NULLS LAST, "${criteria.alias}_title" ASC NULLS LAST`,
+    );
+    const { entities, raw } = await qb.getRawAndEntities();
+    expect(entities.map((post) => post.title)).toEqual([
+      'Post Title 12',
+      'Post Title 1',
+      'Post Title 10',
+    ]);
+    const similarities = raw.map(
+      (row) => row[`${criteria.alias}_titleSimilarity`],
+    );
+    expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+  });
+
+  it('should order by the <-> distance, nearest first', async () => {
+    const criteria = orderBySimilarity(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema),
+      'nameDistance',
+      { field: 'username', value: 'usr_3', distance: true },
+      OrderDirection.ASC,
+    ).orderBy('username', OrderDirection.ASC);
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `"${criteria.alias}"."username" <-> $1 AS "${criteria.alias}_nameDistance"`,
+    );
+    expect((await qb.getMany()).map((user) => user.username)).toEqual([
+      'user_3',
+      ...actualUsersFromDB
+        .map((user) => user.username)
+        .filter((username) => username !== 'user_3')
+        .sort(),
+    ]);
+  });
+
+  it('should build similarity orderings of join criteria in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join(
+        'posts',
+        orderBySimilarity(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema),
+          'titleDistance',
+          {
+            field: 'title',
+            value: 'titel 12',
+            function: 'word_similarity',
+            distance: true,
+          },
+          OrderDirection.ASC,
+        ).orderBy('title', OrderDirection.ASC),
+      )
+      .setTake(1);
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toContain(`$1 <<-> "posts"."title" AS "posts_titleDistance"`);
+    expect(sql).toContain(
+      `ORDER BY "posts_titleDistance" ASC NULLS LAST, "posts"."title" ASC NULLS LAST`,
+    );
+    expect(values[0]).toBe('titel 12');
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    const publisherUuid = actualPostsFromDB.find(
+      (post) => post.title === 'Post Title 12',
+    )!.user_uuid;
+    expect(new Set(rows.map((row) => row.users_uuid))).toEqual(
+      new Set([publisherUuid]),
+    );
+  });
+
+  it('should reject invalid similarity handlers and orderings', () => {
+    expect(() => new TrigramSimilarityHandler('similarity', 1.5)).toThrow(
+      'The similarity threshold must be between 0 and 1, got 1.5.',
+    );
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema);
+    expect(() =>
+      orderBySimilarity(
+        criteria,
+        'name similarity',
+        { field: 'username', value: 'usr' },
+        OrderDirection.DESC,
+      ),
+    ).toThrow(
+      "The similarity name 'name similarity' must only contain letters, digits and underscores.",
+    );
+    expect(() =>
+      orderBySimilarity(
+        criteria,
+        'nameSimilarity',
+        { field: 'nickname', value: 'usr' },
+        OrderDirection.DESC,
+      ),
+    ).toThrow("The field 'nickname' is not defined in the schema 'user'.");
+    expect(() =>
+      orderBySimilarity(
+        criteria,
+        'email',
+        { field: 'username', value: 'usr' },
+        OrderDirection.DESC,
+      ),
+    ).toThrow("The name 'email' is already used in the criteria of 'user'.");
+
+    orderBySimilarity(
+      criteria,
+      'nameSimilarity',
+      { field: 'username', value: 'usr' },
+      OrderDirection.DESC,
+    );
+    expect(() =>
+      new CursorCodec({ secret: 'test-secret' }).encode(
+        criteria,
+        actualUsersFromDB[0]!,
+      ),
+    ).toThrow(
+      'Cursor tokens cannot be created for criteria ordered by similarity.',
+    );
+  });
+});
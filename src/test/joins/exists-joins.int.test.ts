@@ -0,0 +1,327 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import { setJoinStrategy } from '../../utils/join-strategy.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  PermissionSchema as CriteriaPermissionSchema,
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - EXISTS Joins', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualPostsFromDB: Post[];
+  let actualUsersFromDB: User[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualPostsFromDB = await dataSource.getRepository(PostEntity).find({
+      relations: { comments: { publisher: true } },
+      order: { uuid: 'ASC' },
+    });
+    actualUsersFromDB = await dataSource
+      .getRepository(UserEntity)
+      .find({ relations: { permissions: true, profile: true } });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const sortedUuids = (rows: ReadonlyArray<{ uuid: string }>) =>
+    rows.map((row) => row.uuid).sort();
+
+  it('should keep the parents having a match without multiplying them', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .join(
+        'comments',
+        setJoinStrategy(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema),
+          'exists',
+        ),
+      )
+      .orderBy('uuid', OrderDirection.ASC)
+      .setTake(3);
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `WHERE EXISTS (SELECT 1 FROM "post_comment" "posts_comments" WHERE "posts_comments"."post_uuid" = "${criteria.alias}"."uuid")`,
+    );
+    expect(sql).not.toContain('JOIN');
+
+    const posts = await qb.getMany();
+    const expectedPosts = actualPostsFromDB
+      .filter((post) => post.comments!.length > 0)
+      .slice(0, 3);
+    expect(expectedPosts).toHaveLength(3);
+    expect(posts.map((post) => post.uuid)).toEqual(
+      expectedPosts.map((post) => post.uuid),
+    );
+    expect(posts.every((post) => post.comments === undefined)).toBe(true);
+  });
+
+  it('should keep the parents having no match with NOT EXISTS', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'comments',
+      setJoinStrategy(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).where({
+          field: 'comment_text',
+          operator: FilterOperator.CONTAINS,
+          value: 'by user_1.',
+        }),
+        'not_exists',
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const posts = await qb.getMany();
+
+    const expectedPosts = actualPostsFromDB.filter(
+      (post) =>
+        !post.comments!.some((comment) =>
+          comment.comment_text.includes('by user_1.'),
+        ),
+    );
+    expect(expectedPosts.length).toBeGreaterThan(0);
+    expect(sortedUuids(posts)).toEqual(sortedUuids(expectedPosts));
+  });
+
+  it('should correlate many_to_many subqueries through the join table', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'permissions',
+      setJoinStrategy(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPermissionSchema).where({
+          field: 'name',
+          operator: FilterOperator.IN,
+          value: ['permission_name_3', 'permission_name_5'],
+        }),
+        'exists',
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const users = await qb.getMany();
+
+    const expectedUsers = actualUsersFromDB.filter((user) =>
+      user.permissions!.some((permission) =>
+        ['permission_name_3', 'permission_name_5'].includes(permission.name),
+      ),
+    );
+    expect(expectedUsers.length).toBeGreaterThan(0);
+    expect(expectedUsers.length).toBeLessThan(actualUsersFromDB.length);
+    expect(sortedUuids(users)).toEqual(sortedUuids(expectedUsers));
+  });
+
+  it('should nest the inner child joins of the subquery', async () => {
+    const publisher = actualPostsFromDB.find(
+      (post) => post.comments!.length > 0,
+    )!.comments![0]!.publisher!;
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'comments',
+      setJoinStrategy(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).join(
+          'publisher',
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+            field: 'username',
+            operator: FilterOperator.EQUALS,
+            value: publisher.username,
+          }),
+        ),
+        'exists',
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `EXISTS (SELECT 1 FROM "user" "posts_comments_publisher" WHERE "posts_comments_publisher"."uuid" = "posts_comments"."user_uuid"`,
+    );
+    const posts = await qb.getMany();
+
+    const expectedPosts = actualPostsFromDB.filter((post) =>
+      post.comments!.some(
+        (comment) => comment.publisher!.username === publisher.username,
+      ),
+    );
+    expect(sortedUuids(posts)).toEqual(sortedUuids(expectedPosts));
+  });
+
+  it('should add the subquery children of a LEFT join to its ON clause', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetLeftJoinCriteria(CriteriaUserProfileSchema).join(
+        'user',
+        setJoinStrategy(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+            field: 'username',
+            operator: FilterOperator.EQUALS,
+            value: 'user_1',
+          }),
+          'exists',
+        ),
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql().split(' FROM "user" "users" ')[1]).toBe(
+      `LEFT JOIN "user_profile" "profile" ON "profile"."user_uuid"="users"."uuid" AND (EXISTS (SELECT 1 FROM "user" "profile_user" WHERE "profile_user"."uuid" = "profile"."user_uuid" AND ("profile_user"."username" = $1)))`,
+    );
+    const users = await qb.getMany();
+
+    expect(actualUsersFromDB.some((user) => !user.profile)).toBe(true);
+    expect(sortedUuids(users)).toEqual(sortedUuids(actualUsersFromDB));
+    for (const user of users) {
+      const expectedProfile =
+        user.username === 'user_1'
+          ? actualUsersFromDB.find(({ uuid }) => uuid === user.uuid)!.profile
+          : undefined;
+      expect(user.profile?.uuid).toBe(expectedProfile?.uuid);
+    }
+  });
+
+  it('should add the subquery children of a LEFT join to its ON clause in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetLeftJoinCriteria(CriteriaUserProfileSchema).join(
+        'user',
+        setJoinStrategy(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+            field: 'username',
+            operator: FilterOperator.EQUALS,
+            value: 'user_1',
+          }),
+          'exists',
+        ),
+      ),
+    );
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql.split(' FROM "user" "users" ')[1]).toBe(
+      'LEFT JOIN "user_profile" "profile" ON "profile"."user_uuid" = "users"."uuid" AND EXISTS (SELECT 1 FROM "user" "profile_user" WHERE "profile_user"."uuid" = "profile"."user_uuid" AND ("profile_user"."username" = $1))',
+    );
+    expect(values).toEqual(['user_1']);
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rows.map((row) => row.users_uuid).sort()).toEqual(
+      sortedUuids(actualUsersFromDB),
+    );
+    for (const row of rows) {
+      const user = actualUsersFromDB.find(
+        ({ uuid }) => uuid === row.users_uuid,
+      )!;
+      expect(row.profile_uuid).toBe(
+        user.username === 'user_1' ? (user.profile?.uuid ?? null) : null,
+      );
+    }
+  });
+
+  it('should build the same subqueries in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .setSelect(['uuid'])
+      .join(
+        'comments',
+        setJoinStrategy(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).where(
+            {
+              field: 'comment_text',
+              operator: FilterOperator.CONTAINS,
+              value: 'by user_2.',
+            },
+          ),
+          'exists',
+        ),
+      )
+      .join(
+        'publisher',
+        setJoinStrategy(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+            field: 'username',
+            operator: FilterOperator.EQUALS,
+            value: 'user_1',
+          }),
+          'not_exists',
+        ),
+      );
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toBe(
+      'SELECT "posts"."uuid" AS "posts_uuid" FROM "post" "posts" WHERE ' +
+        'EXISTS (SELECT 1 FROM "post_comment" "posts_comments" WHERE "posts_comments"."post_uuid" = "posts"."uuid" AND ("posts_comments"."comment_text" ILIKE $1 ESCAPE \'\\\')) AND ' +
+        'NOT EXISTS (SELECT 1 FROM "user" "posts_publisher" WHERE "posts_publisher"."uuid" = "posts"."user_uuid" AND ("posts_publisher"."username" = $2))',
+    );
+    expect(values).toEqual(['%by user\\_2.%', 'user_1']);
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    const expectedPosts = actualPostsFromDB.filter(
+      (post) =>
+        post.comments!.some((comment) =>
+          comment.comment_text.includes('by user_2.'),
+        ) &&
+        !actualUsersFromDB.some(
+          (user) => user.uuid === post.user_uuid && user.username === 'user_1',
+        ),
+    );
+    expect(expectedPosts.length).toBeGreaterThan(0);
+    expect(rows.map((row) => row.posts_uuid).sort()).toEqual(
+      sortedUuids(expectedPosts),
+    );
+  });
+
+  it('should reject orderings in a join translated as a subquery', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'comments',
+      setJoinStrategy(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).orderBy(
+          'created_at',
+          OrderDirection.ASC,
+        ),
+        'exists',
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+
+    expect(() => translator.translate(criteria, qb)).toThrow(
+      "The join criteria of 'post_comment' is translated as an EXISTS subquery, so it cannot have orderings or a cursor.",
+    );
+    expect(() => translator.translateToSql(criteria)).toThrow(
+      "The join criteria of 'post_comment' is translated as an EXISTS subquery, so it cannot have orderings or a cursor.",
+    );
+  });
+});
@@ -0,0 +1,259 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import {
+  type Post,
+  PostSchema,
+  type User,
+  UserSchema,
+} from '../utils/fake-entities.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+
+describe('Join Reuse Integration Tests', () => {
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { publisher: true } });
+  });
+
+  it('should attach the filters and selection of an INNER join criteria to an existing join through the WHERE clause', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      PostSchema.alias,
+    );
+    qb.innerJoin(`${PostSchema.alias}.publisher`, 'publisher');
+
+    const criteria = CriteriaFactory.GetCriteria(PostSchema).join(
+      'publisher',
+      CriteriaFactory.GetInnerJoinCriteria(UserSchema)
+        .where({
+          field: 'username',
+          operator: FilterOperator.EQUALS,
+          value: 'user_2',
+        })
+        .orWhere({
+          field: 'username',
+          operator: FilterOperator.EQUALS,
+          value: 'user_2',
+        }),
+      { select: SelectType.FULL_ENTITY },
+    );
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql.match(/JOIN/g)).toHaveLength(1);
+    expect(sql).not.toContain('publisher_1');
+    expect(qb.expressionMap.joinAttributes[0]!.condition).toBeUndefined();
+    expect(sql).toContain(
+      `WHERE (("publisher"."username" = $1) OR ("publisher"."username" = $2))`,
+    );
+
+    const posts = await qb.getMany();
+    const expectedPosts = actualPostsFromDB.filter(
+      (post) => post.publisher?.username === 'user_2',
+    );
+    expect(posts.length).toBe(expectedPosts.length);
+    posts.forEach((post) => expect(post.publisher!.username).toBe('user_2'));
+  });
+
+  it('should add a new join for a LEFT join criteria with filters instead of modifying an existing LEFT join', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    qb.leftJoin(`${UserSchema.alias}.posts`, 'posts', 'posts.body IS NOT NULL');
+
+    const criteria = CriteriaFactory.GetCriteria(UserSchema).join(
+      'posts',
+      CriteriaFactory.GetLeftJoinCriteria(PostSchema).where({
+        field: 'title',
+        operator: FilterOperator.EQUALS,
+        value: 'Post Title 1',
+      }),
+      { select: SelectType.FULL_ENTITY },
+    );
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(qb.expressionMap.joinAttributes[0]!.condition).toBe(
+      'posts.body IS NOT NULL',
+    );
+    expect(sql).toContain(
+      `LEFT JOIN "post" "posts" ON "posts"."user_uuid"="users"."uuid" AND ("posts"."body" IS NOT NULL)`,
+    );
+    expect(sql).toContain(
+      `LEFT JOIN "post" "posts_1" ON "posts_1"."user_uuid"="users"."uuid" AND ("posts_1"."title" = $1)`,
+    );
+
+    const users = await qb.getMany();
+    expect(users).toHaveLength(actualUsersFromDB.length);
+    users.forEach((user) => {
+      user.posts.forEach((post) => expect(post.title).toBe('Post Title 1'));
+    });
+    expect(users.some((user) => user.posts.length > 0)).toBe(true);
+  });
+
+  it('should reuse an existing LEFT join for a LEFT join criteria without filters', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    qb.leftJoin(`${UserSchema.alias}.posts`, 'posts', 'posts.body IS NOT NULL');
+
+    translator.translate(
+      CriteriaFactory.GetCriteria(UserSchema).join(
+        'posts',
+        CriteriaFactory.GetLeftJoinCriteria(PostSchema),
+        { select: SelectType.FULL_ENTITY },
+      ),
+      qb,
+    );
+
+    const sql = qb.getSql();
+    expect(sql.match(/LEFT JOIN/g)).toHaveLength(1);
+    expect(qb.expressionMap.joinAttributes[0]!.condition).toBe(
+      'posts.body IS NOT NULL',
+    );
+    const users = await qb.getMany();
+    expect(users).toHaveLength(actualUsersFromDB.length);
+  });
+
+  it("should AND the conditions of a reused join with the caller's WHERE clause in replace mode", async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    qb.leftJoin(`${UserSchema.alias}.posts`, 'posts').where(
+      `${UserSchema.alias}.username = :username`,
+      { username: 'user_1' },
+    );
+
+    translator.translate(
+      CriteriaFactory.GetCriteria(UserSchema).join(
+        'posts',
+        CriteriaFactory.GetInnerJoinCriteria(PostSchema),
+        { select: SelectType.NO_SELECTION },
+      ),
+      qb,
+    );
+
+    expect(qb.getSql()).toContain(
+      `WHERE "users"."username" = $1 AND "posts"."uuid" IS NOT NULL`,
+    );
+    expect(qb.expressionMap.joinAttributes[0]!.condition).toBeUndefined();
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_1']);
+  });
+
+  it('should keep INNER join semantics when reusing an existing LEFT join', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    qb.leftJoin(`${UserSchema.alias}.posts`, 'posts');
+
+    const criteria = CriteriaFactory.GetCriteria(UserSchema).join(
+      'posts',
+      CriteriaFactory.GetInnerJoinCriteria(PostSchema).where({
+        field: 'title',
+        operator: FilterOperator.EQUALS,
+        value: 'Post Title 1',
+      }),
+      { select: SelectType.NO_SELECTION },
+    );
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql.match(/JOIN/g)).toHaveLength(1);
+    expect(sql).toContain(
+      `WHERE "posts"."uuid" IS NOT NULL AND ("posts"."title" = $1)`,
+    );
+
+    const users = await qb.getMany();
+    const referenceQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    new TypeOrmPostgresTranslator<ObjectLiteral>().translate(
+      criteria,
+      referenceQb,
+    );
+    const expectedUsers = await referenceQb.getMany();
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(users.map((user) => user.uuid).sort()).toEqual(
+      expectedUsers.map((user) => user.uuid).sort(),
+    );
+  });
+
+  it('should add a new join when the existing INNER join cannot provide LEFT join semantics', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      reuseExistingJoins: true,
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    qb.innerJoin(`${UserSchema.alias}.posts`, 'posts');
+
+    const criteria = CriteriaFactory.GetCriteria(UserSchema).join(
+      'posts',
+      CriteriaFactory.GetLeftJoinCriteria(PostSchema),
+    );
+
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain('LEFT JOIN "post" "posts_1"');
+  });
+
+  it('should add a second join under a unique alias when reuse is disabled', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      PostSchema.alias,
+    );
+    qb.innerJoin(`${PostSchema.alias}.publisher`, 'publisher');
+
+    const criteria = CriteriaFactory.GetCriteria(PostSchema).join(
+      'publisher',
+      CriteriaFactory.GetInnerJoinCriteria(UserSchema),
+    );
+
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain('INNER JOIN "user" "publisher_1"');
+  });
+});
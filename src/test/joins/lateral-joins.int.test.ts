@@ -0,0 +1,269 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+  type RootCriteria,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import { setJoinStrategy } from '../../utils/join-strategy.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  PermissionSchema as CriteriaPermissionSchema,
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - LATERAL Joins', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find({
+      relations: { posts: { comments: true }, permissions: true },
+    });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const latestPosts = (user: User, count: number, skip = 0) =>
+    [...user.posts]
+      .sort(
+        (a, b) =>
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+      )
+      .slice(skip, skip + count);
+
+  it('should load the latest posts of each user', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join(
+        'posts',
+        setJoinStrategy(
+          CriteriaFactory.GetLeftJoinCriteria(CriteriaPostSchema)
+            .orderBy('created_at', OrderDirection.DESC)
+            .setTake(2),
+          'lateral',
+        ),
+        { select: SelectType.FULL_ENTITY },
+      )
+      .orderBy('uuid', OrderDirection.ASC);
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `LEFT JOIN LATERAL (SELECT "posts".* FROM "post" "posts" WHERE "posts"."user_uuid" = "${criteria.alias}"."uuid" ORDER BY "posts"."created_at" DESC NULLS LAST LIMIT 2) "posts" ON TRUE`,
+    );
+    const users = await qb.getMany();
+
+    expect(users).toHaveLength(actualUsersFromDB.length);
+    for (const user of users) {
+      const actualUser = actualUsersFromDB.find(
+        (actual) => actual.uuid === user.uuid,
+      )!;
+      expect(user.posts.map((post) => post.uuid)).toEqual(
+        latestPosts(actualUser, 2).map((post) => post.uuid),
+      );
+    }
+  });
+
+  it('should filter and skip the related rows, and drop parents without any in INNER joins', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'posts',
+      setJoinStrategy(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema)
+          .where({
+            field: 'categories',
+            operator: FilterOperator.IS_NOT_NULL,
+            value: null,
+          })
+          .orderBy('created_at', OrderDirection.DESC)
+          .setSkip(1)
+          .setTake(1),
+        'lateral',
+      ),
+      { select: SelectType.FULL_ENTITY },
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const users = await qb.getMany();
+
+    const expectedPosts = actualUsersFromDB.flatMap((user) =>
+      latestPosts(
+        { ...user, posts: user.posts.filter((post) => post.categories) },
+        1,
+        1,
+      ),
+    );
+    expect(expectedPosts.length).toBeGreaterThan(0);
+    expect(expectedPosts.length).toBeLessThan(actualUsersFromDB.length);
+    expect(users).toHaveLength(expectedPosts.length);
+    expect(
+      users.flatMap((user) => user.posts.map((post) => post.uuid)).sort(),
+    ).toEqual(expectedPosts.map((post) => post.uuid).sort());
+  });
+
+  it('should load the first many_to_many rows through the join table', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'permissions',
+      setJoinStrategy(
+        CriteriaFactory.GetLeftJoinCriteria(CriteriaPermissionSchema)
+          .orderBy('name', OrderDirection.DESC)
+          .setTake(2),
+        'lateral',
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const users = await qb.getMany();
+
+    expect(users).toHaveLength(actualUsersFromDB.length);
+    for (const user of users) {
+      const actualUser = actualUsersFromDB.find(
+        (actual) => actual.uuid === user.uuid,
+      )!;
+      expect(user.permissions.map((permission) => permission.name)).toEqual(
+        actualUser.permissions
+          .map((permission) => permission.name)
+          .sort()
+          .reverse()
+          .slice(0, 2),
+      );
+    }
+  });
+
+  it('should join and hydrate the child joins of a LATERAL join', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'posts',
+      setJoinStrategy(
+        CriteriaFactory.GetLeftJoinCriteria(CriteriaPostSchema)
+          .orderBy('created_at', OrderDirection.DESC)
+          .setTake(1)
+          .join(
+            'comments',
+            CriteriaFactory.GetLeftJoinCriteria(CriteriaPostCommentSchema),
+          ),
+        'lateral',
+      ),
+      { select: SelectType.FULL_ENTITY },
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const users = await qb.getMany();
+
+    for (const user of users) {
+      const actualUser = actualUsersFromDB.find(
+        (actual) => actual.uuid === user.uuid,
+      )!;
+      const [latestPost] = latestPosts(actualUser, 1);
+      expect(user.posts).toHaveLength(1);
+      expect(user.posts[0]!.uuid).toBe(latestPost!.uuid);
+      expect(
+        user.posts[0]!.comments!.map((comment) => comment.uuid).sort(),
+      ).toEqual(latestPost!.comments!.map((comment) => comment.uuid).sort());
+    }
+  });
+
+  it('should build the same LATERAL joins in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .setSelect(['uuid'])
+      .join(
+        'permissions',
+        setJoinStrategy(
+          CriteriaFactory.GetLeftJoinCriteria(CriteriaPermissionSchema)
+            .setSelect(['name'])
+            .where({
+              field: 'name',
+              operator: FilterOperator.NOT_EQUALS,
+              value: 'permission_name_1',
+            })
+            .orderBy('name', OrderDirection.ASC)
+            .setTake(1),
+          'lateral',
+        ),
+      );
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toBe(
+      'SELECT "users"."uuid" AS "users_uuid", "permissions"."name" AS "permissions_name", "permissions"."uuid" AS "permissions_uuid" FROM "user" "users" ' +
+        'LEFT JOIN LATERAL (SELECT "permissions".* FROM "permission" "permissions" INNER JOIN "user_permission" "permissions_pivot" ON "permissions_pivot"."permission_uuid" = "permissions"."uuid" ' +
+        'WHERE "permissions_pivot"."user_uuid" = "users"."uuid" AND ("permissions"."name" != $1) ORDER BY "permissions"."name" ASC NULLS LAST LIMIT 1) "permissions" ON TRUE ' +
+        'ORDER BY "permissions"."name" ASC NULLS LAST',
+    );
+    expect(values).toEqual(['permission_name_1']);
+  });
+
+  it('should reject joins that cannot be LATERAL', async () => {
+    const translateWith = async (criteria: RootCriteria<any>) =>
+      translator.translate(
+        criteria,
+        await TypeORMUtils.getQueryBuilderFor<Post>(PostEntity, criteria.alias),
+      );
+
+    await expect(
+      translateWith(
+        CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+          'publisher',
+          setJoinStrategy(
+            CriteriaFactory.GetLeftJoinCriteria(CriteriaUserSchema),
+            'lateral',
+          ),
+        ),
+      ),
+    ).rejects.toThrow(
+      "The join 'publisher' cannot be a LATERAL join: only INNER and LEFT joins of one_to_many and many_to_many relations are supported.",
+    );
+    await expect(
+      translateWith(
+        CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+          'comments',
+          setJoinStrategy(
+            CriteriaFactory.GetOuterJoinCriteria(CriteriaPostCommentSchema),
+            'lateral',
+          ),
+        ),
+      ),
+    ).rejects.toThrow(
+      "The join 'comments' cannot be a LATERAL join: only INNER and LEFT joins of one_to_many and many_to_many relations are supported.",
+    );
+    await expect(
+      translateWith(
+        CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+          'comments',
+          setJoinStrategy(
+            CriteriaFactory.GetLeftJoinCriteria(CriteriaPostCommentSchema),
+            'lateral',
+          ),
+          { select: SelectType.ID_ONLY },
+        ),
+      ),
+    ).rejects.toThrow(
+      "The LATERAL join 'comments' cannot select ID_ONLY, since relation ids are loaded without its take.",
+    );
+  });
+});
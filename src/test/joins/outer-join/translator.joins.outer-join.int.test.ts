@@ -0,0 +1,248 @@
+import { TypeOrmPostgresTranslator } from '../../../type-orm.postgres.translator.js';
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  PermissionSchema as CriteriaPermissionSchema,
+  type Permission,
+  type User,
+  type UserProfile,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from '../../utils/fake-entities.js';
+import { UserEntity } from '../../utils/entities/user.entity.js';
+import { UserProfileEntity } from '../../utils/entities/user-profile.entity.js';
+import { PermissionEntity } from '../../utils/entities/permission.entity.js';
+import { setFullOuterJoinDirection } from '../../../utils/type-orm-join-applier.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../../utils/type-orm.utils.js';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+
+describe('TypeOrmPostgresTranslator - Outer Joins (FULL OUTER JOIN)', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let actualUsersFromDB: User[];
+  let actualProfilesFromDB: UserProfile[];
+  let actualPermissionsFromDB: Permission[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource
+      .getRepository(UserEntity)
+      .find({ relations: { profile: true, permissions: true } });
+    actualProfilesFromDB = await dataSource
+      .getRepository(UserProfileEntity)
+      .find({ relations: { user: true } });
+    actualPermissionsFromDB = await dataSource
+      .getRepository(PermissionEntity)
+      .find({ relations: { users: true } });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  it('should generate a FULL OUTER JOIN for a simple join with ON conditions', async () => {
+    const targetProfile = actualProfilesFromDB.find(
+      (p) => p.bio === 'Bio for user_1',
+    );
+    if (!targetProfile) {
+      throw new Error('Test data issue: Profile for "user_1" not found.');
+    }
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetOuterJoinCriteria(CriteriaUserProfileSchema).where({
+        field: 'bio',
+        operator: FilterOperator.EQUALS,
+        value: targetProfile.bio!,
+      }),
+    );
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const sql = qb.getSql();
+
+    expect(sql).toContain(`FULL OUTER JOIN "user_profile" "profile"`);
+    expect(sql).toContain(`AND ("profile"."bio" = $1)`);
+    expect(qb.getParameters()).toEqual({ param_0: targetProfile.bio });
+
+    const fetchedUsers = await qb.getMany();
+    expect(fetchedUsers).toHaveLength(actualUsersFromDB.length);
+
+    fetchedUsers.forEach((user) => {
+      if (user.uuid === targetProfile.user_uuid) {
+        expect(user.profile).toBeDefined();
+        expect(user.profile!.uuid).toBe(targetProfile.uuid);
+      } else {
+        expect(user.profile).toBeNull();
+      }
+    });
+  });
+
+  it('should keep rows from the joined side that have no matching root row', async () => {
+    const targetProfile = actualProfilesFromDB.find(
+      (p) => p.bio === 'Bio for user_1',
+    );
+    if (!targetProfile) {
+      throw new Error('Test data issue: Profile for "user_1" not found.');
+    }
+    const unmatchedProfiles = actualProfilesFromDB.filter(
+      (p) => p.uuid !== targetProfile.uuid,
+    );
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetOuterJoinCriteria(CriteriaUserProfileSchema).where({
+        field: 'bio',
+        operator: FilterOperator.EQUALS,
+        value: targetProfile.bio!,
+      }),
+    );
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const rawRows = await qb.getRawMany();
+
+    const rowsWithoutUser = rawRows.filter((row) => row.users_uuid === null);
+    expect(rowsWithoutUser).toHaveLength(unmatchedProfiles.length);
+    expect(rowsWithoutUser.map((row) => row.profile_uuid).sort()).toEqual(
+      unmatchedProfiles.map((p) => p.uuid).sort(),
+    );
+
+    const rowsWithoutProfile = rawRows.filter(
+      (row) => row.profile_uuid === null,
+    );
+    expect(rowsWithoutProfile).toHaveLength(actualUsersFromDB.length - 1);
+  });
+
+  it('should generate FULL OUTER JOINs for a pivot (many_to_many) join', async () => {
+    const targetPermission = actualPermissionsFromDB.find(
+      (p) => p.name === 'permission_name_5',
+    );
+    if (!targetPermission || !targetPermission.users?.length) {
+      throw new Error(
+        'Test data issue: Permission "permission_name_5" with users not found.',
+      );
+    }
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join(
+        'permissions',
+        CriteriaFactory.GetOuterJoinCriteria(CriteriaPermissionSchema).where({
+          field: 'name',
+          operator: FilterOperator.EQUALS,
+          value: targetPermission.name,
+        }),
+      )
+      .orderBy('username', OrderDirection.ASC);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const sql = qb.getSql();
+
+    expect(sql).toContain(`FULL OUTER JOIN "permission_user"`);
+    expect(sql).toContain(`FULL OUTER JOIN "permission" "permissions"`);
+
+    const fetchedUsers = await qb.getMany();
+    expect(fetchedUsers).toHaveLength(actualUsersFromDB.length);
+
+    const expectedUserUuids = targetPermission.users.map((u) => u.uuid);
+    fetchedUsers.forEach((user) => {
+      if (expectedUserUuids.includes(user.uuid)) {
+        expect(user.permissions).toHaveLength(1);
+        expect(user.permissions[0]!.uuid).toBe(targetPermission.uuid);
+      } else {
+        expect(user.permissions).toEqual([]);
+      }
+    });
+  });
+
+  it('should not select the joined entity when SelectType.NO_SELECTION is used', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetOuterJoinCriteria(CriteriaUserProfileSchema),
+      { select: SelectType.NO_SELECTION },
+    );
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const sql = qb.getSql();
+
+    expect(sql).toContain(`FULL OUTER JOIN "user_profile" "profile"`);
+    expect(sql).not.toContain(`"profile"."bio"`);
+
+    const fetchedUsers = await qb.getMany();
+    expect(fetchedUsers).toHaveLength(actualUsersFromDB.length);
+    fetchedUsers.forEach((user) => {
+      expect(user.profile).toBeUndefined();
+    });
+  });
+
+  it('should not skip the FULL OUTER JOIN for SelectType.ID_ONLY on the owning side', async () => {
+    const criteria = CriteriaFactory.GetCriteria(
+      CriteriaUserProfileSchema,
+    ).join('user', CriteriaFactory.GetOuterJoinCriteria(CriteriaUserSchema), {
+      select: SelectType.ID_ONLY,
+    });
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<UserProfile>(
+      UserProfileEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(`FULL OUTER JOIN "user" "user"`);
+
+    const fetchedProfiles = await qb.getMany();
+    expect(fetchedProfiles).toHaveLength(actualProfilesFromDB.length);
+    fetchedProfiles.forEach((profile) => {
+      const expectedProfile = actualProfilesFromDB.find(
+        (p) => p.uuid === profile.uuid,
+      )!;
+      expect(profile.user).toBe(expectedProfile.user_uuid);
+    });
+  });
+
+  it('should render the switched join direction verbatim in the TypeORM SQL', async () => {
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.leftJoin('users.profile', 'profile').leftJoin(
+      'users.permissions',
+      'permissions',
+    );
+    qb.expressionMap.joinAttributes.forEach(setFullOuterJoinDirection);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `FULL OUTER JOIN "user_profile" "profile" ON "profile"."user_uuid"="users"."uuid"`,
+    );
+    expect(sql).toContain(
+      `FULL OUTER JOIN "permission_user" "users_permissions" ON "users_permissions"."user_uuid"="users"."uuid"`,
+    );
+    expect(sql).toContain(
+      `FULL OUTER JOIN "permission" "permissions" ON "permissions"."uuid"="users_permissions"."permission_uuid"`,
+    );
+    expect(sql).not.toContain('LEFT JOIN');
+    await expect(qb.getMany()).resolves.toHaveLength(actualUsersFromDB.length);
+  });
+});
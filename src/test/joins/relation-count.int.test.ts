@@ -0,0 +1,229 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../../type-orm.postgres.translator.js';
+import { setRelationCount } from '../../utils/join-strategy.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from '../utils/type-orm.utils.js';
+import {
+  PermissionSchema as CriteriaPermissionSchema,
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from '../utils/fake-entities.js';
+import { PostEntity } from '../utils/entities/post.entity.js';
+import { UserEntity } from '../utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - Relation Count Conditions', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find({
+      relations: { posts: true, permissions: true },
+    });
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { comments: { publisher: true } } });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  const sortedUuids = (rows: ReadonlyArray<{ uuid: string }>) =>
+    rows.map((row) => row.uuid).sort();
+
+  it('should compare the number of one_to_many rows restricted by the join filters', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'posts',
+      setRelationCount(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema).where({
+          field: 'categories',
+          operator: FilterOperator.IS_NOT_NULL,
+          value: null,
+        }),
+        FilterOperator.GREATER_THAN_OR_EQUALS,
+        2,
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE (SELECT COUNT(*) FROM "post" "users_posts" WHERE "users_posts"."user_uuid" = "${criteria.alias}"."uuid" AND ("users_posts"."categories" IS NOT NULL)) >= $1`,
+    );
+    const users = await qb.getMany();
+
+    const expectedUsers = actualUsersFromDB.filter(
+      (user) =>
+        user.posts.filter((post) => post.categories !== null).length >= 2,
+    );
+    expect(expectedUsers.length).toBeGreaterThan(0);
+    expect(expectedUsers.length).toBeLessThan(actualUsersFromDB.length);
+    expect(sortedUuids(users)).toEqual(sortedUuids(expectedUsers));
+  });
+
+  it('should keep the parents without related rows when comparing to zero', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'comments',
+      setRelationCount(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).where({
+          field: 'comment_text',
+          operator: FilterOperator.CONTAINS,
+          value: 'by user_1.',
+        }),
+        FilterOperator.EQUALS,
+        0,
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const posts = await qb.getMany();
+
+    const expectedPosts = actualPostsFromDB.filter(
+      (post) =>
+        !post.comments!.some((comment) =>
+          comment.comment_text.includes('by user_1.'),
+        ),
+    );
+    expect(expectedPosts.length).toBeGreaterThan(0);
+    expect(expectedPosts.length).toBeLessThan(actualPostsFromDB.length);
+    expect(sortedUuids(posts)).toEqual(sortedUuids(expectedPosts));
+  });
+
+  it('should count many_to_many rows through the join table', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'permissions',
+      setRelationCount(
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaPermissionSchema),
+        FilterOperator.BETWEEN,
+        [2, 3],
+      ),
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const users = await qb.getMany();
+
+    const expectedUsers = actualUsersFromDB.filter(
+      (user) => user.permissions.length >= 2 && user.permissions.length <= 3,
+    );
+    expect(expectedUsers.length).toBeGreaterThan(0);
+    expect(expectedUsers.length).toBeLessThan(actualUsersFromDB.length);
+    expect(sortedUuids(users)).toEqual(sortedUuids(expectedUsers));
+  });
+
+  it('should only count the related rows matching the nested inner joins', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .join(
+        'comments',
+        setRelationCount(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).join(
+            'publisher',
+            CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+              field: 'username',
+              operator: FilterOperator.IN,
+              value: ['user_1', 'user_2'],
+            }),
+          ),
+          FilterOperator.IN,
+          [0, 2],
+        ),
+      )
+      .orderBy('uuid', OrderDirection.ASC);
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const posts = await qb.getMany();
+
+    const expectedPosts = actualPostsFromDB.filter((post) =>
+      [0, 2].includes(
+        post.comments!.filter((comment) =>
+          ['user_1', 'user_2'].includes(comment.publisher!.username),
+        ).length,
+      ),
+    );
+    expect(expectedPosts.length).toBeGreaterThan(0);
+    expect(posts.map((post) => post.uuid)).toEqual(sortedUuids(expectedPosts));
+  });
+
+  it('should build the same count subqueries in raw SQL', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .setSelect(['uuid'])
+      .join(
+        'posts',
+        setRelationCount(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema).where({
+            field: 'categories',
+            operator: FilterOperator.IS_NOT_NULL,
+            value: null,
+          }),
+          FilterOperator.GREATER_THAN_OR_EQUALS,
+          2,
+        ),
+      )
+      .join(
+        'permissions',
+        setRelationCount(
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPermissionSchema),
+          FilterOperator.NOT_EQUALS,
+          3,
+        ),
+      );
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toBe(
+      'SELECT "users"."uuid" AS "users_uuid" FROM "user" "users" WHERE ' +
+        '(SELECT COUNT(*) FROM "post" "users_posts" WHERE "users_posts"."user_uuid" = "users"."uuid" AND ("users_posts"."categories" IS NOT NULL)) >= $1 AND ' +
+        '(SELECT COUNT(*) FROM "permission" "users_permissions" INNER JOIN "user_permission" "users_permissions_pivot" ON "users_permissions_pivot"."permission_uuid" = "users_permissions"."uuid" WHERE "users_permissions_pivot"."user_uuid" = "users"."uuid") != $2',
+    );
+    expect(values).toEqual([2, 3]);
+  });
+
+  it('should reject counts that cannot be compared', () => {
+    const permissionsCriteria = CriteriaFactory.GetInnerJoinCriteria(
+      CriteriaPermissionSchema,
+    );
+
+    expect(() =>
+      setRelationCount(
+        permissionsCriteria,
+        FilterOperator.CONTAINS as FilterOperator.EQUALS,
+        1,
+      ),
+    ).toThrow(
+      "The relation count of 'permission' cannot be compared with the operator CONTAINS.",
+    );
+    expect(() =>
+      setRelationCount(
+        permissionsCriteria,
+        FilterOperator.EQUALS,
+        '1' as unknown as number,
+      ),
+    ).toThrow(
+      "The relation count of 'permission' must be compared with numbers.",
+    );
+  });
+});
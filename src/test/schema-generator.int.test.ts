@@ -0,0 +1,266 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { promisify } from 'node:util';
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  type CriteriaSchema,
+  FilterOperator,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { TypeOrmCriteriaSchemaGenerator } from '../utils/type-orm-criteria-schema-generator.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  AddressSchema,
+  PermissionSchema,
+  PostSchema,
+  type User,
+  UserProfileSchema,
+  UserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+import { AddressEntity } from './utils/entities/address.entity.js';
+import { UserProfileEntity } from './utils/entities/user-profile.entity.js';
+import { PermissionEntity } from './utils/entities/permission.entity.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Drops the hand-written default options, which cannot be derived from entity metadata.
+ */
+const withoutDefaultOptions = (schema: CriteriaSchema) => ({
+  ...schema,
+  relations: schema.relations.map(
+    ({ default_options: _defaultOptions, ...relation }) => relation,
+  ),
+});
+
+/**
+ * Types a generated schema as the hand-written one whose fields and relations it provides.
+ * Generated schemas are plain `CriteriaSchema` values, so typed joins need the modules written by `toTypeScript`.
+ */
+const asTypedSchema = <TSchema extends CriteriaSchema>(
+  generated: CriteriaSchema,
+  typed: TSchema,
+): TSchema => {
+  const { fields, relations, ...rest } = withoutDefaultOptions(typed);
+  expect(generated).toMatchObject(rest);
+  expect(generated.fields).toEqual(expect.arrayContaining([...fields]));
+  expect(generated.relations).toEqual(
+    expect.arrayContaining(
+      relations.map(({ relation_alias, relation_type, target_source_name }) =>
+        expect.objectContaining({
+          relation_alias,
+          relation_type,
+          target_source_name,
+        }),
+      ),
+    ),
+  );
+  return generated as TSchema;
+};
+
+describe('TypeOrmCriteriaSchemaGenerator', () => {
+  let dataSource: DataSource;
+  let generator: TypeOrmCriteriaSchemaGenerator;
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    generator = new TypeOrmCriteriaSchemaGenerator(dataSource, {
+      aliases: {
+        User: UserSchema.alias,
+        Post: PostSchema.alias,
+        Address: AddressSchema.alias,
+        UserProfile: UserProfileSchema.alias,
+      },
+    });
+  });
+
+  it('should derive fields, identifier and simple relations matching the hand-written schemas', () => {
+    const generatedPostSchema = generator.generate(PostEntity);
+    const generatedAddressSchema = generator.generate(AddressEntity);
+    const generatedProfileSchema = generator.generate(UserProfileEntity);
+
+    for (const [generated, expected] of [
+      [generatedPostSchema, PostSchema],
+      [generatedAddressSchema, AddressSchema],
+      [generatedProfileSchema, UserProfileSchema],
+    ] as const) {
+      const { fields, relations, ...rest } = withoutDefaultOptions(expected);
+      expect(generated).toMatchObject(rest);
+      expect([...generated.fields].sort()).toEqual([...fields].sort());
+      expect(generated.relations).toEqual(expect.arrayContaining(relations));
+      expect(generated.relations).toHaveLength(relations.length);
+    }
+  });
+
+  it('should take many_to_many pivot info from the join table on both sides', () => {
+    const generatedUserSchema = generator.generate(UserEntity);
+    const generatedPermissionSchema = generator.generate(PermissionEntity);
+
+    expect(
+      generatedUserSchema.relations.find(
+        (relation) => relation.relation_alias === 'permissions',
+      ),
+    ).toEqual({
+      relation_alias: 'permissions',
+      relation_type: 'many_to_many',
+      target_source_name: 'permission',
+      pivot_source_name: 'permission_user',
+      local_field: { pivot_field: 'user_uuid', reference: 'uuid' },
+      relation_field: { pivot_field: 'permission_uuid', reference: 'uuid' },
+    });
+    expect(generatedPermissionSchema.relations).toEqual([
+      {
+        relation_alias: 'users',
+        relation_type: 'many_to_many',
+        target_source_name: 'user',
+        pivot_source_name: 'permission_user',
+        local_field: { pivot_field: 'permission_uuid', reference: 'uuid' },
+        relation_field: { pivot_field: 'user_uuid', reference: 'uuid' },
+      },
+    ]);
+    expect(generatedPermissionSchema.alias).toBe('permission');
+  });
+
+  it('should generate schemas that the translator can use', async () => {
+    const schemas = new TypeOrmCriteriaSchemaGenerator(dataSource, {
+      aliases: {
+        User: UserSchema.alias,
+        Permission: PermissionSchema.alias,
+      },
+    }).generateAll();
+    expect(Object.keys(schemas).sort()).toEqual([
+      'Address',
+      'Event',
+      'Permission',
+      'Post',
+      'PostComment',
+      'User',
+      'UserProfile',
+    ]);
+
+    const userSchema = asTypedSchema(schemas['User']!, UserSchema);
+    const permissionSchema = asTypedSchema(
+      schemas['Permission']!,
+      PermissionSchema,
+    );
+    const criteria = CriteriaFactory.GetCriteria(userSchema)
+      .where({
+        field: 'username',
+        operator: FilterOperator.EQUALS,
+        value: 'user_1',
+      })
+      .join(
+        'permissions',
+        CriteriaFactory.GetInnerJoinCriteria(permissionSchema),
+        { select: SelectType.FULL_ENTITY },
+      );
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      UserSchema.alias,
+    );
+    new TypeOrmPostgresTranslator<ObjectLiteral>().translate(criteria, qb);
+    const users = await qb.getMany();
+    expect(users).toHaveLength(1);
+    expect(users[0]!.permissions.length).toBeGreaterThan(0);
+
+    const { sql, values } =
+      new TypeOrmPostgresTranslator<ObjectLiteral>().translateToSql(criteria);
+    const rows = await dataSource.query(sql, values);
+    expect(rows.length).toBe(users[0]!.permissions.length);
+  });
+
+  it('should render a typed schema module', () => {
+    const source = TypeOrmCriteriaSchemaGenerator.toTypeScript(
+      'PostComment',
+      generator.generate('PostComment'),
+    );
+
+    expect(source).toContain(
+      `import { GetTypedCriteriaSchema } from '@nulledexp/translatable-criteria';`,
+    );
+    expect(source).toContain(
+      'export const PostCommentSchema = GetTypedCriteriaSchema({',
+    );
+    expect(source).toContain("  source_name: 'post_comment',");
+    expect(source).toContain("      relation_type: 'many_to_one',");
+    expect(source).toContain(
+      'export type PostCommentSchema = typeof PostCommentSchema;',
+    );
+  });
+
+  it('should reject entities without a single primary column', () => {
+    const junctionMetadata = dataSource.entityMetadatas.find(
+      (metadata) => metadata.tableType === 'junction',
+    )!;
+
+    expect(() => generator.generate(junctionMetadata.target)).toThrow(
+      `Entity '${junctionMetadata.name}' must have exactly one primary column to derive a CriteriaSchema, found 2.`,
+    );
+  });
+
+  describe('generate-criteria-schemas script', () => {
+    let outputDirectory: string;
+
+    beforeAll(async () => {
+      outputDirectory = await mkdtemp(join(tmpdir(), 'criteria-schemas-'));
+    });
+
+    afterAll(async () => {
+      await rm(outputDirectory, { recursive: true, force: true });
+    });
+
+    it('should write one schema file per entity', async () => {
+      const schemasDirectory = join(outputDirectory, 'schemas');
+
+      await execFileAsync(
+        process.execPath,
+        [
+          '--import',
+          'tsx',
+          resolve('src/scripts/generate-criteria-schemas.ts'),
+          '--data-source',
+          resolve('src/test/utils/schema-generator.data-source.ts'),
+          '--export',
+          'SchemaGeneratorDataSource',
+          '--out',
+          schemasDirectory,
+          '--alias',
+          `User=${UserSchema.alias}`,
+        ],
+        { timeout: 60_000 },
+      );
+
+      const files = await readdir(schemasDirectory);
+      expect(files.sort()).toEqual([
+        'address.criteria-schema.ts',
+        'event.criteria-schema.ts',
+        'permission.criteria-schema.ts',
+        'post-comment.criteria-schema.ts',
+        'post.criteria-schema.ts',
+        'user-profile.criteria-schema.ts',
+        'user.criteria-schema.ts',
+      ]);
+      const userSchemaSource = await readFile(
+        join(schemasDirectory, 'user.criteria-schema.ts'),
+        'utf8',
+      );
+      expect(userSchemaSource).toBe(
+        TypeOrmCriteriaSchemaGenerator.toTypeScript(
+          'User',
+          generator.generate(UserEntity),
+        ),
+      );
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { type DataSource } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  type CriteriaSchema,
+  GetTypedCriteriaSchema,
+} from '@nulledexp/translatable-criteria';
+import {
+  TypeOrmSchemaValidator,
+  validateSchemas,
+} from '../utils/type-orm-schema-validator.js';
+import { TypeOrmCriteriaSchemaGenerator } from '../utils/type-orm-criteria-schema-generator.js';
+import { initializeDataSourceService } from './utils/type-orm.utils.js';
+import {
+  AddressSchema,
+  PermissionSchema,
+  PostCommentSchema,
+  PostSchema,
+  UserProfileSchema,
+  UserSchema,
+} from './utils/fake-entities.js';
+
+describe('TypeOrmSchemaValidator', () => {
+  let dataSource: DataSource;
+  let validator: TypeOrmSchemaValidator;
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    validator = new TypeOrmSchemaValidator(dataSource);
+  });
+
+  it('should report the pivot table drift of the hand-written fixture schemas', () => {
+    const mismatches = validator.validate([
+      UserSchema,
+      PostSchema,
+      PostCommentSchema,
+      PermissionSchema,
+      AddressSchema,
+      UserProfileSchema,
+    ]);
+
+    expect(mismatches).toEqual([
+      {
+        sourceName: 'user',
+        alias: 'users',
+        code: 'PIVOT_SOURCE_MISMATCH',
+        path: 'relations.permissions.pivot_source_name',
+        message:
+          "Relation 'permissions' uses join table 'permission_user', not 'user_permission'.",
+      },
+      {
+        sourceName: 'permission',
+        alias: 'permissions',
+        code: 'PIVOT_SOURCE_MISMATCH',
+        path: 'relations.users.pivot_source_name',
+        message:
+          "Relation 'users' uses join table 'permission_user', not 'user_permission'.",
+      },
+    ]);
+  });
+
+  it('should accept schemas generated from the same metadata', () => {
+    const schemas = Object.values(
+      new TypeOrmCriteriaSchemaGenerator(dataSource).generateAll(),
+    );
+
+    expect(validator.validate(schemas)).toEqual([]);
+  });
+
+  it('should report the same mismatches through validateSchemas', () => {
+    const schemas = [UserSchema, PermissionSchema, AddressSchema];
+
+    expect(validateSchemas(dataSource, schemas)).toEqual(
+      validator.validate(schemas),
+    );
+    expect(
+      validateSchemas(dataSource, [UserSchema]).map(({ code }) => code),
+    ).toEqual(['PIVOT_SOURCE_MISMATCH']);
+    expect(validateSchemas(dataSource, [AddressSchema])).toEqual([]);
+  });
+
+  it('should report fields, identifier and relations that do not match', () => {
+    const DriftedPostSchema = GetTypedCriteriaSchema({
+      source_name: 'post',
+      alias: 'posts',
+      identifier_field: 'title',
+      fields: ['uuid', 'title', 'subtitle', 'user_uuid'],
+      relations: [
+        {
+          relation_alias: 'publisher',
+          relation_type: 'one_to_one',
+          target_source_name: 'author',
+          local_field: 'user_uuid',
+          relation_field: 'id',
+        },
+        {
+          relation_alias: 'tags',
+          relation_type: 'many_to_many',
+          target_source_name: 'tag',
+          pivot_source_name: 'post_tag',
+          local_field: { reference: 'uuid', pivot_field: 'post_uuid' },
+          relation_field: { reference: 'uuid', pivot_field: 'tag_uuid' },
+        },
+      ],
+    });
+
+    const mismatches = validator.validate([DriftedPostSchema]);
+
+    expect(
+      mismatches.map((mismatch) => [mismatch.code, mismatch.path]),
+    ).toEqual([
+      ['UNKNOWN_FIELD', 'fields.subtitle'],
+      ['IDENTIFIER_NOT_PRIMARY', 'identifier_field'],
+      ['RELATION_TYPE_MISMATCH', 'relations.publisher.relation_type'],
+      ['RELATION_TARGET_MISMATCH', 'relations.publisher.target_source_name'],
+      ['UNKNOWN_JOIN_FIELD', 'relations.publisher.relation_field'],
+      ['UNKNOWN_RELATION', 'relations.tags.relation_alias'],
+    ]);
+    mismatches.forEach((mismatch) => {
+      expect(mismatch.sourceName).toBe('post');
+      expect(mismatch.alias).toBe('posts');
+    });
+  });
+
+  it('should report pivot fields that do not reference their side of the join table', () => {
+    const SwappedPivotUserSchema: CriteriaSchema = {
+      ...UserSchema,
+      relations: [
+        {
+          relation_alias: 'permissions',
+          relation_type: 'many_to_many',
+          target_source_name: 'permission',
+          pivot_source_name: 'permission_user',
+          local_field: { reference: 'uuid', pivot_field: 'permission_uuid' },
+          relation_field: { reference: 'uuid', pivot_field: 'user_id' },
+        },
+      ],
+    };
+
+    expect(validator.validate([SwappedPivotUserSchema])).toEqual([
+      expect.objectContaining({
+        code: 'UNKNOWN_PIVOT_FIELD',
+        path: 'relations.permissions.local_field.pivot_field',
+        message:
+          "'permission_uuid' is not the column of join table 'permission_user' that references entity 'User'.",
+      }),
+      expect.objectContaining({
+        code: 'UNKNOWN_PIVOT_FIELD',
+        path: 'relations.permissions.relation_field.pivot_field',
+      }),
+    ]);
+  });
+
+  it('should report pivot references that are not the fields referenced by the join table', () => {
+    const WrongReferenceUserSchema: CriteriaSchema = {
+      ...UserSchema,
+      relations: [
+        {
+          relation_alias: 'permissions',
+          relation_type: 'many_to_many',
+          target_source_name: 'permission',
+          pivot_source_name: 'permission_user',
+          local_field: { reference: 'username', pivot_field: 'user_uuid' },
+          relation_field: {
+            reference: 'uuid',
+            pivot_field: 'permission_uuid',
+          },
+        },
+      ],
+    };
+
+    expect(validator.validate([WrongReferenceUserSchema])).toEqual([
+      expect.objectContaining({
+        code: 'PIVOT_REFERENCE_MISMATCH',
+        path: 'relations.permissions.local_field.reference',
+        message:
+          "'username' is not the field of entity 'User' referenced by join table 'permission_user'.",
+      }),
+    ]);
+  });
+
+  it('should report schemas without a matching entity', () => {
+    const UnknownSchema: CriteriaSchema = {
+      ...AddressSchema,
+      source_name: 'addresses',
+    };
+
+    expect(validator.validate([UnknownSchema])).toEqual([
+      {
+        sourceName: 'addresses',
+        alias: AddressSchema.alias,
+        code: 'UNKNOWN_SOURCE',
+        path: 'source_name',
+        message: "No entity is mapped to table 'addresses'.",
+      },
+    ]);
+  });
+});
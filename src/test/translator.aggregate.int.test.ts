@@ -0,0 +1,336 @@
+import { type ObjectLiteral } from 'typeorm';
+import {
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import type {
+  AggregateRow,
+  Aggregation,
+} from '../utils/type-orm-aggregation-applier.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type DomainEvent,
+  DomainEventsSchema as CriteriaDomainEventsSchema,
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+import { EventEntitySchema } from './utils/entities/event.entity.js';
+
+describe('TypeOrmPostgresTranslator - Aggregate Translation', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let actualPostsFromDB: Post[];
+  let actualEventsFromDB: DomainEvent<any>[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { publisher: true, comments: true } });
+    actualEventsFromDB = await dataSource
+      .getRepository(EventEntitySchema)
+      .find();
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  it('should group by a joined field and aggregate root and joined fields', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .join(
+        'publisher',
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema),
+      )
+      .join(
+        'comments',
+        CriteriaFactory.GetLeftJoinCriteria(CriteriaPostCommentSchema),
+      );
+    const aggregation = {
+      groupBy: { username: 'publisher.username' },
+      aggregates: {
+        postCount: { function: 'COUNT_DISTINCT', field: 'uuid' },
+        commentCount: { function: 'COUNT', field: 'comments.uuid' },
+        titles: { function: 'ARRAY_AGG', field: 'title' },
+      },
+    } satisfies Aggregation;
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translateAggregate(criteria, qb, aggregation);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `SELECT "publisher"."username" AS "username", COUNT(DISTINCT "${criteria.alias}"."uuid")::bigint AS "postCount", COUNT("comments"."uuid")::bigint AS "commentCount", ARRAY_AGG("${criteria.alias}"."title") AS "titles"`,
+    );
+    expect(sql).toContain(`GROUP BY "publisher"."username"`);
+
+    const rows = await qb.getRawMany<AggregateRow<typeof aggregation>>();
+    expectTypeOf(rows[0]!.postCount).toEqualTypeOf<string>();
+    expectTypeOf(rows[0]!.titles).toEqualTypeOf<unknown[]>();
+
+    const postsWithPublisher = actualPostsFromDB.filter(
+      (post) => post.publisher,
+    );
+    const usernames = [
+      ...new Set(postsWithPublisher.map((post) => post.publisher!.username)),
+    ];
+    expect(rows).toHaveLength(usernames.length);
+    for (const username of usernames) {
+      const userPosts = postsWithPublisher.filter(
+        (post) => post.publisher!.username === username,
+      );
+      const row = rows.find((row) => row.username === username)!;
+      expect(row.postCount).toBe(String(userPosts.length));
+      expect(row.commentCount).toBe(
+        String(
+          userPosts.reduce((count, post) => count + post.comments!.length, 0),
+        ),
+      );
+      expect([...new Set(row.titles)].sort()).toEqual(
+        [...new Set(userPosts.map((post) => post.title))].sort(),
+      );
+    }
+  });
+
+  it('should join ID_ONLY relations whose fields are grouped or aggregated', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'publisher',
+      CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema),
+      { select: SelectType.ID_ONLY },
+    );
+    const aggregation = {
+      groupBy: { username: 'publisher.username' },
+      aggregates: { postCount: { function: 'COUNT', field: 'uuid' } },
+      countType: 'integer',
+    } satisfies Aggregation;
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translateAggregate(criteria, qb, aggregation);
+
+    expect(qb.getSql()).toContain(
+      `INNER JOIN "user" "publisher" ON "publisher"."uuid"="${criteria.alias}"."user_uuid"`,
+    );
+    expect(qb.getSql()).toContain(
+      `COUNT("${criteria.alias}"."uuid")::integer AS "postCount"`,
+    );
+    const rows = await qb.getRawMany<AggregateRow<typeof aggregation>>();
+    expectTypeOf(rows[0]!.postCount).toEqualTypeOf<number>();
+    const postsWithPublisher = actualPostsFromDB.filter(
+      (post) => post.publisher,
+    );
+    expect(rows).toHaveLength(
+      new Set(postsWithPublisher.map((post) => post.publisher!.username)).size,
+    );
+    expect(rows.reduce((count, row) => count + row.postCount, 0)).toBe(
+      postsWithPublisher.length,
+    );
+  });
+
+  it('should compute sums, averages, minimums and maximums of the filtered rows', async () => {
+    const criteria = CriteriaFactory.GetCriteria(
+      CriteriaDomainEventsSchema,
+    ).where({
+      field: 'event_version',
+      operator: FilterOperator.GREATER_THAN_OR_EQUALS,
+      value: 2,
+    });
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<DomainEvent<any>>(
+      EventEntitySchema,
+      criteria.alias,
+    );
+    translator.translateAggregate(criteria, qb, {
+      groupBy: { eventType: 'event_type' },
+      aggregates: {
+        events: { function: 'COUNT' },
+        versionSum: { function: 'SUM', field: 'event_version' },
+        versionAverage: { function: 'AVG', field: 'event_version' },
+        firstVersion: { function: 'MIN', field: 'event_version' },
+        lastVersion: { function: 'MAX', field: 'event_version' },
+      },
+    });
+    expect(qb.getSql()).toContain(
+      `WHERE ("${criteria.alias}"."event_version" >= $1)`,
+    );
+    const rows = await qb.getRawMany();
+
+    const filteredEvents = actualEventsFromDB.filter(
+      (event) => event.event_version >= 2,
+    );
+    const eventTypes = [
+      ...new Set(filteredEvents.map((event) => event.event_type)),
+    ];
+    expect(eventTypes.length).toBeGreaterThan(0);
+    expect(rows).toHaveLength(eventTypes.length);
+    for (const eventType of eventTypes) {
+      const versions = filteredEvents
+        .filter((event) => event.event_type === eventType)
+        .map((event) => event.event_version);
+      const versionSum = versions.reduce((sum, version) => sum + version, 0);
+      expect(rows.find((row) => row.eventType === eventType)).toEqual({
+        eventType,
+        events: String(versions.length),
+        versionSum,
+        versionAverage: versionSum / versions.length,
+        firstVersion: Math.min(...versions),
+        lastVersion: Math.max(...versions),
+      });
+    }
+  });
+
+  it('should filter groups with HAVING conditions built by the filter handlers', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translateAggregate(criteria, qb, {
+      groupBy: { userUuid: 'user_uuid' },
+      aggregates: { postCount: { function: 'COUNT' } },
+      having: [
+        { field: 'postCount', operator: FilterOperator.GREATER_THAN, value: 1 },
+        {
+          field: 'postCount',
+          operator: FilterOperator.BETWEEN,
+          value: [2, 3],
+        },
+      ],
+    });
+
+    expect(qb.getSql()).toContain(
+      'HAVING COUNT(*)::bigint > $1 AND COUNT(*)::bigint BETWEEN $2 AND $3',
+    );
+    const rows = await qb.getRawMany();
+
+    const postCounts = new Map<string, number>();
+    for (const post of actualPostsFromDB) {
+      postCounts.set(post.user_uuid, (postCounts.get(post.user_uuid) ?? 0) + 1);
+    }
+    const expectedRows = [...postCounts]
+      .filter(([, postCount]) => postCount >= 2 && postCount <= 3)
+      .map(([userUuid, postCount]) => ({
+        userUuid,
+        postCount: String(postCount),
+      }));
+    expect(expectedRows.length).toBeGreaterThan(0);
+    expect(rows).toHaveLength(expectedRows.length);
+    expect(rows).toEqual(expect.arrayContaining(expectedRows));
+  });
+
+  it('should aggregate the same rows a criteria lists', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .where({
+          field: 'title',
+          operator: FilterOperator.CONTAINS,
+          value: 'Post',
+        })
+        .join(
+          'publisher',
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+            field: 'username',
+            operator: FilterOperator.NOT_EQUALS,
+            value: 'user_1',
+          }),
+        );
+    const listCriteria = buildCriteria();
+    const listQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      listCriteria.alias,
+    );
+    const listedPosts = await translator
+      .translate(listCriteria, listQb)
+      .getMany();
+
+    const statsCriteria = buildCriteria();
+    const statsQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      statsCriteria.alias,
+    );
+    const stats = await translator
+      .translateAggregate(statsCriteria, statsQb, {
+        aggregates: {
+          posts: { function: 'COUNT_DISTINCT', field: 'uuid' },
+          publishers: { function: 'COUNT_DISTINCT', field: 'user_uuid' },
+        },
+      })
+      .getRawOne();
+
+    expect(listedPosts.length).toBeGreaterThan(0);
+    expect(stats).toEqual({
+      posts: String(listedPosts.length),
+      publishers: String(
+        new Set(listedPosts.map((post) => post.user_uuid)).size,
+      ),
+    });
+  });
+
+  it('should reject invalid aggregations', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema);
+    const translateWith = async (aggregation: Aggregation) =>
+      translator.translateAggregate(
+        criteria,
+        await TypeORMUtils.getQueryBuilderFor<Post>(PostEntity, criteria.alias),
+        aggregation,
+      );
+
+    await expect(translateWith({})).rejects.toThrow(
+      'An aggregation must have at least one group or aggregate.',
+    );
+    await expect(
+      translateWith({
+        groupBy: { total: 'user_uuid' },
+        aggregates: { total: { function: 'COUNT' } },
+      }),
+    ).rejects.toThrow(
+      "The name 'total' is used by both a group and an aggregate.",
+    );
+    await expect(
+      translateWith({ groupBy: { views: 'views' } }),
+    ).rejects.toThrow("The field 'views' is not defined in the schema 'post'.");
+    await expect(
+      translateWith({ groupBy: { username: 'publisher.username' } }),
+    ).rejects.toThrow(
+      "Cannot resolve 'publisher.username': the criteria of 'post' has no join 'publisher'.",
+    );
+    await expect(
+      translateWith({ aggregates: { sum: { function: 'SUM' } } }),
+    ).rejects.toThrow('The aggregate function SUM requires a field.');
+    await expect(
+      translateWith({
+        aggregates: { posts: { function: 'COUNT' } },
+        having: [
+          {
+            field: 'comments' as 'posts',
+            operator: FilterOperator.GREATER_THAN,
+            value: 1,
+          },
+        ],
+      }),
+    ).rejects.toThrow(
+      "The HAVING condition references the unknown aggregate 'comments'.",
+    );
+  });
+});
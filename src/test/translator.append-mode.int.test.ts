@@ -0,0 +1,191 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { TypeOrmTranslationContext } from '../utils/type-orm-translation-context.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - Append Mode', () => {
+  let actualUsersFromDB: User[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find();
+  });
+
+  it('should AND the root filter group with existing WHERE clauses', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      mode: 'append',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.where(`${CriteriaUserSchema.alias}.username != :excludedUsername`, {
+      excludedUsername: 'user_2',
+    }).orWhere(`${CriteriaUserSchema.alias}.username = :includedUsername`, {
+      includedUsername: 'user_8',
+    });
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .where({
+        field: 'username',
+        operator: FilterOperator.IN,
+        value: ['user_1', 'user_2', 'user_3'],
+      })
+      .orWhere({
+        field: 'username',
+        operator: FilterOperator.EQUALS,
+        value: 'user_4',
+      })
+      .orderBy('username', OrderDirection.ASC);
+
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE ("${CriteriaUserSchema.alias}"."username" != $1 OR "${CriteriaUserSchema.alias}"."username" = $2) AND (("${CriteriaUserSchema.alias}"."username" IN ($3, $4, $5)) OR ("${CriteriaUserSchema.alias}"."username" = $6))`,
+    );
+
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual([
+      'user_1',
+      'user_3',
+      'user_4',
+    ]);
+  });
+
+  it('should AND cursor conditions with existing WHERE clauses when the criteria has no filters', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      mode: 'append',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.where(`${CriteriaUserSchema.alias}.username != :excludedUsername`, {
+      excludedUsername: 'user_3',
+    });
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('username', OrderDirection.ASC)
+      .setCursor(
+        [{ field: 'username', value: 'user_1' }],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      )
+      .setTake(2);
+
+    translator.translate(criteria, qb);
+
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_2', 'user_4']);
+  });
+
+  it('should add selects and append orderings to the existing ones', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      mode: 'append',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    qb.select(`${CriteriaPostSchema.alias}.uuid`)
+      .addSelect(`UPPER(${CriteriaPostSchema.alias}.title)`, 'upper_title')
+      .orderBy(`${CriteriaPostSchema.alias}.user_uuid`, 'DESC');
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .setSelect(['title'])
+      .orderBy('created_at', OrderDirection.ASC);
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain('UPPER("posts"."title") AS "upper_title"');
+    expect(sql).toContain(
+      `ORDER BY "${CriteriaPostSchema.alias}"."user_uuid" DESC, "${CriteriaPostSchema.alias}_created_at" ASC NULLS LAST`,
+    );
+
+    const rows = await qb.getRawMany();
+    expect(rows.length).toBeGreaterThan(0);
+    rows.forEach((row) => {
+      expect(row.upper_title).toBe(row.posts_title.toUpperCase());
+      expect(row.posts_uuid).toBeDefined();
+    });
+  });
+
+  it('should keep replacing existing clauses in the default mode', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.where(`${CriteriaUserSchema.alias}.username = :onlyUsername`, {
+      onlyUsername: 'user_1',
+    }).orderBy(`${CriteriaUserSchema.alias}.email`, 'DESC');
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .where({
+        field: 'username',
+        operator: FilterOperator.IS_NOT_NULL,
+        value: null,
+      })
+      .orderBy('username', OrderDirection.ASC);
+
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).not.toContain('"email" DESC');
+    const users = await qb.getMany();
+    expect(users).toHaveLength(actualUsersFromDB.length);
+  });
+
+  it('should leave the query builder untouched until a translation is applied, and keep it reusable', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      mode: 'append',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.where(`${CriteriaUserSchema.alias}.username = :firstUsername`, {
+      firstUsername: 'user_1',
+    }).orWhere(`${CriteriaUserSchema.alias}.username = :secondUsername`, {
+      secondUsername: 'user_2',
+    });
+
+    TypeOrmTranslationContext.forQueryBuilder(qb, undefined, 'append');
+    expect(qb.expressionMap.wheres).toHaveLength(2);
+
+    const excluding = (username: string) =>
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+        field: 'username',
+        operator: FilterOperator.NOT_EQUALS,
+        value: username,
+      });
+
+    translator.translate(excluding('user_1'), qb);
+    const firstUsers = await qb.getMany();
+    expect(firstUsers.map((user) => user.username)).toEqual(['user_2']);
+
+    translator.translate(excluding('user_2'), qb);
+    expect(qb.getSql()).toContain(
+      `WHERE (("${CriteriaUserSchema.alias}"."username" = $1 OR "${CriteriaUserSchema.alias}"."username" = $2) AND ("${CriteriaUserSchema.alias}"."username" != $3)) AND ("${CriteriaUserSchema.alias}"."username" != $4)`,
+    );
+    expect(await qb.getMany()).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import { restorePageOrder, setKeysetCursor } from '../utils/keyset-cursor.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type EntityBase,
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - Backward Pagination', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  const codec = new CursorCodec({ secret: 'test-secret' });
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  async function fetchPage<E extends EntityBase>(
+    criteria: RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+  ): Promise<E[]> {
+    const qb = await TypeORMUtils.getQueryBuilderFor<E>(
+      entity as any,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return restorePageOrder(criteria, await qb.getMany());
+  }
+
+  /**
+   * Walks all pages forward with next page tokens, then back to the first page
+   * with previous page tokens, and checks that both walks return the same pages.
+   */
+  async function expectBackwardWalkToMatch<E extends EntityBase>(
+    buildCriteria: () => RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+    pageSize: number,
+  ): Promise<void> {
+    const forwardPages: E[][] = [];
+    let token: string | null = null;
+    do {
+      const criteria = buildCriteria().setTake(pageSize);
+      if (token) {
+        codec.apply(criteria, token);
+      }
+      const page = await fetchPage<E>(criteria, entity);
+      if (page.length > 0) {
+        forwardPages.push(page);
+      }
+      token = codec.nextPageToken(criteria, page);
+    } while (token);
+
+    const backwardPages: E[][] = [];
+    const lastPageCriteria = buildCriteria().setTake(pageSize);
+    token = codec.previousPageToken(
+      lastPageCriteria,
+      forwardPages[forwardPages.length - 1]!,
+    );
+    while (token) {
+      const criteria = buildCriteria().setTake(pageSize);
+      codec.apply(criteria, token);
+      const page = await fetchPage<E>(criteria, entity);
+      if (page.length > 0) {
+        backwardPages.unshift(page);
+      }
+      token = codec.previousPageToken(criteria, page);
+    }
+
+    expect(forwardPages.length).toBeGreaterThan(2);
+    expect(backwardPages.map((page) => page.map((row) => row.uuid))).toEqual(
+      forwardPages.slice(0, -1).map((page) => page.map((row) => row.uuid)),
+    );
+  }
+
+  it('should fetch the pages before a cursor over a single ordering', async () => {
+    await expectBackwardWalkToMatch<User>(
+      () =>
+        CriteriaFactory.GetCriteria(CriteriaUserSchema).orderBy(
+          'email',
+          OrderDirection.ASC,
+        ),
+      UserEntity,
+      3,
+    );
+  });
+
+  it('should fetch the pages before a cursor over mixed directions and NULLS FIRST', async () => {
+    await expectBackwardWalkToMatch<User>(
+      () =>
+        CriteriaFactory.GetCriteria(CriteriaUserSchema)
+          .join(
+            'profile',
+            CriteriaFactory.GetLeftJoinCriteria(
+              CriteriaUserProfileSchema,
+            ).orderBy('bio', OrderDirection.DESC, true),
+          )
+          .orderBy('uuid', OrderDirection.ASC),
+      UserEntity,
+      2,
+    );
+  });
+
+  it('should fetch the pages before a cursor over tied values', async () => {
+    await expectBackwardWalkToMatch<Post>(
+      () =>
+        CriteriaFactory.GetCriteria(CriteriaPostSchema)
+          .orderBy('user_uuid', OrderDirection.DESC)
+          .orderBy('created_at', OrderDirection.ASC),
+      PostEntity,
+      4,
+    );
+  });
+
+  it('should invert the ORDER BY, including null placement, and restore the row order', async () => {
+    const allUsers = await fetchPage<User>(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).orderBy(
+        'username',
+        OrderDirection.ASC,
+      ),
+      UserEntity,
+    );
+    const cursorUser = allUsers[5]!;
+
+    const criteria = setKeysetCursor(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema),
+      [{ field: 'username', value: cursorUser.username }],
+      FilterOperator.GREATER_THAN,
+      OrderDirection.ASC,
+      { before: true },
+    )
+      .orderBy('username', OrderDirection.ASC)
+      .setTake(2);
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(`WHERE ((("${criteria.alias}"."username" < $1)))`);
+    expect(sql).toContain(
+      `ORDER BY "${criteria.alias}_username" DESC NULLS FIRST`,
+    );
+
+    const rows = await qb.getMany();
+    expect(rows.map((user) => user.uuid)).toEqual(
+      [allUsers[4]!, allUsers[3]!].map((user) => user.uuid),
+    );
+    expect(restorePageOrder(criteria, rows).map((user) => user.uuid)).toEqual(
+      [allUsers[3]!, allUsers[4]!].map((user) => user.uuid),
+    );
+  });
+
+  it('should return the rows before a cursor in criteria order from raw SQL', async () => {
+    const allUsers = await fetchPage<User>(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).orderBy(
+        'username',
+        OrderDirection.DESC,
+      ),
+      UserEntity,
+    );
+    const cursorUser = allUsers[6]!;
+
+    const criteria = setKeysetCursor(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema),
+      [{ field: 'username', value: cursorUser.username }],
+      FilterOperator.LESS_THAN,
+      OrderDirection.DESC,
+      { before: true },
+    )
+      .setSelect(['email'])
+      .orderBy('username', OrderDirection.DESC)
+      .setTake(3);
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toMatch(
+      /^SELECT \* FROM \(SELECT .* ORDER BY "users"\."username" ASC NULLS FIRST LIMIT 3\) "page" ORDER BY "users_username" DESC NULLS LAST$/,
+    );
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rows.map((row) => row.users_uuid)).toEqual(
+      allUsers.slice(3, 6).map((user) => user.uuid),
+    );
+  });
+
+  it('should reject cursors fetching pages on different sides', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join(
+        'profile',
+        setKeysetCursor(
+          CriteriaFactory.GetLeftJoinCriteria(CriteriaUserProfileSchema),
+          [{ field: 'bio', value: 'Bio' }],
+          FilterOperator.GREATER_THAN,
+          OrderDirection.ASC,
+          { before: true },
+        ),
+      )
+      .setCursor(
+        [{ field: 'uuid', value: '00000000-0000-0000-0000-000000000000' }],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+
+    expect(() => translator.translate(criteria, qb)).toThrow(
+      'All parts of a composite cursor must fetch the page on the same side of the cursor.',
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - Count Translation', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource
+      .getRepository(UserEntity)
+      .find({ relations: { profile: true } });
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { comments: true } });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  it('should count root entities applying root filters', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+      field: 'username',
+      operator: FilterOperator.IN,
+      value: ['user_1', 'user_2', 'user_3'],
+    });
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translateCount(criteria, qb);
+    const sql = qb.getSql();
+
+    expect(sql).toContain(
+      `SELECT COUNT(DISTINCT "${criteria.alias}"."uuid") AS "count"`,
+    );
+    expect(sql).toContain(`WHERE ("${criteria.alias}"."username" IN (`);
+
+    const result = await qb.getRawOne();
+    expect(Number(result.count)).toBe(3);
+  });
+
+  it('should ignore take, skip, cursor and ordering', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('username', OrderDirection.ASC)
+      .setCursor(
+        [{ field: 'username', value: 'user_2' }],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      )
+      .setTake(2)
+      .setSkip(1);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translateCount(criteria, qb);
+    const sql = qb.getSql();
+
+    expect(sql).not.toContain('ORDER BY');
+    expect(sql).not.toContain('LIMIT');
+    expect(sql).not.toContain('OFFSET');
+    expect(sql).not.toContain('WHERE');
+
+    const result = await qb.getRawOne();
+    expect(Number(result.count)).toBe(actualUsersFromDB.length);
+  });
+
+  it('should count distinct root entities when a one_to_many join multiplies rows', async () => {
+    const postsWithComments = actualPostsFromDB.filter(
+      (p) => p.comments && p.comments.length > 1,
+    );
+    if (postsWithComments.length === 0) {
+      throw new Error('Test data issue: No posts with several comments found.');
+    }
+
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+      'comments',
+      CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema),
+    );
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translateCount(criteria, qb);
+
+    const result = await qb.getRawOne();
+    expect(Number(result.count)).toBe(postsWithComments.length);
+  });
+
+  it('should match the row set of translate for inner joins with ON conditions', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaUserSchema)
+        .join(
+          'profile',
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserProfileSchema).where(
+            {
+              field: 'preferences',
+              operator: FilterOperator.IS_NOT_NULL,
+              value: null,
+            },
+          ),
+        )
+        .orderBy('username', OrderDirection.ASC)
+        .setTake(1);
+
+    const expectedUsers = actualUsersFromDB.filter(
+      (u) => u.profile && u.profile.preferences !== null,
+    );
+    if (expectedUsers.length < 2) {
+      throw new Error(
+        'Test data issue: Not enough users with profile preferences.',
+      );
+    }
+
+    const countQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    translator.translateCount(buildCriteria(), countQb);
+    const countResult = await countQb.getRawOne();
+
+    const listQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    translator.translate(buildCriteria(), listQb);
+    const [pageUsers, total] = await listQb.getManyAndCount();
+
+    expect(pageUsers).toHaveLength(1);
+    expect(Number(countResult.count)).toBe(expectedUsers.length);
+    expect(Number(countResult.count)).toBe(total);
+  });
+});
@@ -0,0 +1,276 @@
+import { createHash, createHmac } from 'node:crypto';
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  OrderDirection,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('CursorCodec', () => {
+  const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  const buildUsersCriteria = () =>
+    CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('created_at', OrderDirection.DESC)
+      .orderBy('uuid', OrderDirection.DESC)
+      .setTake(3);
+
+  const fetchUsers = async (
+    criteria: ReturnType<typeof buildUsersCriteria>,
+  ) => {
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return qb.getMany();
+  };
+
+  beforeAll(async () => {
+    const dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = (
+      await dataSource.getRepository(UserEntity).find()
+    ).sort(
+      (a, b) =>
+        new Date(b.created_at).getTime() - new Date(a.created_at).getTime() ||
+        b.uuid.localeCompare(a.uuid),
+    );
+    actualPostsFromDB = (
+      await dataSource.getRepository(PostEntity).find({
+        relations: { publisher: true },
+      })
+    )
+      .filter((post) => post.publisher)
+      .sort(
+        (a, b) =>
+          a.publisher!.username.localeCompare(b.publisher!.username) ||
+          a.uuid.localeCompare(b.uuid),
+      );
+  });
+
+  it('should page through a table with next page tokens', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const fetchedUsers: User[] = [];
+    let token: string | null = null;
+
+    do {
+      const criteria = buildUsersCriteria();
+      if (token) {
+        codec.apply(criteria, token);
+      }
+      const users = await fetchUsers(criteria);
+      fetchedUsers.push(...users);
+      token = codec.nextPageToken(criteria, users);
+      if (token) {
+        expect(token).toMatch(/^v1\.[A-Za-z0-9_-]+$/);
+      }
+    } while (token);
+
+    expect(fetchedUsers.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.map((user) => user.uuid),
+    );
+  });
+
+  it('should not expose raw values when a secret is configured', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const firstPageCriteria = buildUsersCriteria();
+    const firstPage = await fetchUsers(firstPageCriteria);
+    const token = codec.nextPageToken(firstPageCriteria, firstPage)!;
+
+    const decodedPayload = Buffer.from(
+      token.slice('v1.'.length),
+      'base64url',
+    ).toString('latin1');
+    expect(decodedPayload).not.toContain(firstPage[2]!.uuid);
+
+    const secondPage = await fetchUsers(
+      codec.apply(buildUsersCriteria(), token),
+    );
+    expect(secondPage.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(3, 6).map((user) => user.uuid),
+    );
+
+    expect(() =>
+      new CursorCodec({ secret: 'another-secret' }).apply(
+        buildUsersCriteria(),
+        token,
+      ),
+    ).toThrow('Invalid cursor token: malformed payload.');
+  });
+
+  it('should sign readable tokens when encryption is disabled', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret', encrypt: false });
+    const firstPageCriteria = buildUsersCriteria();
+    const firstPage = await fetchUsers(firstPageCriteria);
+    const token = codec.nextPageToken(firstPageCriteria, firstPage)!;
+
+    expect(token).toMatch(/^v1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    const [, encodedPayload, signature] = token.split('.');
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload!, 'base64url').toString('utf8'),
+    );
+    expect(payload.k).toEqual([
+      { $date: new Date(firstPage[2]!.created_at).toISOString() },
+      firstPage[2]!.uuid,
+    ]);
+
+    const secondPage = await fetchUsers(
+      codec.apply(buildUsersCriteria(), token),
+    );
+    expect(secondPage.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(3, 6).map((user) => user.uuid),
+    );
+
+    const tamperedPayload = Buffer.from(
+      JSON.stringify({ ...payload, k: [payload.k[0], '0'] }),
+    ).toString('base64url');
+    expect(() =>
+      codec.apply(buildUsersCriteria(), `v1.${tamperedPayload}.${signature}`),
+    ).toThrow('Invalid cursor token: malformed payload.');
+    expect(() =>
+      new CursorCodec({ secret: 'another-secret', encrypt: false }).apply(
+        buildUsersCriteria(),
+        token,
+      ),
+    ).toThrow('Invalid cursor token: malformed payload.');
+  });
+
+  it('should reject signed tokens whose keyset values are not primitives or valid dates', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret', encrypt: false });
+    const criteria = buildUsersCriteria();
+    const token = codec.nextPageToken(criteria, await fetchUsers(criteria))!;
+    const payload = JSON.parse(
+      Buffer.from(token.split('.')[1]!, 'base64url').toString('utf8'),
+    );
+    const signedToken = (keyset: unknown[]) => {
+      const encoded = Buffer.from(
+        JSON.stringify({ ...payload, k: keyset }),
+      ).toString('base64url');
+      const signature = createHmac(
+        'sha256',
+        createHash('sha256').update('test-secret').digest(),
+      )
+        .update(encoded)
+        .digest('base64url');
+      return `v1.${encoded}.${signature}`;
+    };
+
+    expect(() =>
+      codec.apply(buildUsersCriteria(), signedToken(payload.k)),
+    ).not.toThrow();
+    for (const keyset of [
+      [{ $date: 'garbage' }, payload.k[1]],
+      [{ $date: '2024-02-30T00:00:00.000Z' }, payload.k[1]],
+      [{ $date: payload.k[0].$date, extra: 1 }, payload.k[1]],
+      [payload.k[0], { uuid: payload.k[1] }],
+      [payload.k[0], [payload.k[1]]],
+    ]) {
+      expect(() =>
+        codec.apply(buildUsersCriteria(), signedToken(keyset)),
+      ).toThrow('Invalid cursor token: malformed payload.');
+    }
+  });
+
+  it('should require a secret', () => {
+    expect(() => new CursorCodec({ secret: '' })).toThrow(
+      'CursorCodec requires a non-empty secret.',
+    );
+  });
+
+  it('should reject tokens created for a different ordering', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const criteria = buildUsersCriteria();
+    const token = codec.nextPageToken(criteria, await fetchUsers(criteria))!;
+
+    const reorderedCriteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('created_at', OrderDirection.ASC)
+      .orderBy('uuid', OrderDirection.ASC);
+    expect(() => codec.apply(reorderedCriteria, token)).toThrow(
+      'Invalid cursor token: it was created for a different ordering.',
+    );
+
+    const otherFieldsCriteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('email', OrderDirection.DESC)
+      .orderBy('uuid', OrderDirection.DESC);
+    expect(() => codec.apply(otherFieldsCriteria, token)).toThrow(
+      'Invalid cursor token: it was created for a different ordering.',
+    );
+  });
+
+  it('should reject malformed and unversioned tokens', () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+
+    expect(() => codec.apply(buildUsersCriteria(), 'not-a-token')).toThrow(
+      "Invalid cursor token: unsupported version ''.",
+    );
+    expect(() => codec.apply(buildUsersCriteria(), 'v2.e30')).toThrow(
+      "Invalid cursor token: unsupported version 'v2'.",
+    );
+    expect(() => codec.apply(buildUsersCriteria(), 'v1.e30')).toThrow(
+      'Invalid cursor token: malformed payload.',
+    );
+  });
+
+  it('should set cursors on join criteria ordered before the root', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const buildPostsCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .join(
+          'publisher',
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).orderBy(
+            'username',
+            OrderDirection.ASC,
+          ),
+          { select: SelectType.FULL_ENTITY },
+        )
+        .orderBy('uuid', OrderDirection.ASC)
+        .setTake(4);
+
+    const fetchedPosts: Post[] = [];
+    let token: string | null = null;
+    do {
+      const criteria = buildPostsCriteria();
+      if (token) {
+        codec.apply(criteria, token);
+      }
+      const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+        PostEntity,
+        criteria.alias,
+      );
+      translator.translate(criteria, qb);
+      const posts = await qb.getMany();
+      fetchedPosts.push(...posts);
+      token = codec.nextPageToken(criteria, posts);
+    } while (token);
+
+    expect(fetchedPosts.map((post) => post.uuid)).toEqual(
+      actualPostsFromDB.map((post) => post.uuid),
+    );
+  });
+
+  it('should refuse to create tokens for unordered criteria', () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema);
+
+    expect(() => codec.encode(criteria, actualUsersFromDB[0]!)).toThrow(
+      'Cursor tokens require a criteria with orderBy fields.',
+    );
+  });
+});
@@ -0,0 +1,252 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { setKeysetCursor } from '../utils/keyset-cursor.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type EntityBase,
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - Keyset Pagination over N Fields', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+
+  beforeEach(async () => {
+    await initializeDataSourceService(false);
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  async function fetch<E extends EntityBase>(
+    criteria: RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+  ): Promise<E[]> {
+    const qb = await TypeORMUtils.getQueryBuilderFor<E>(
+      entity as any,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return qb.getMany();
+  }
+
+  /**
+   * Fetches every page of a criteria, building each page after the last row of the previous one.
+   */
+  async function walkPages<E extends EntityBase>(
+    buildPage: (lastRow: E | undefined) => RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+  ): Promise<E[]> {
+    const rows: E[] = [];
+    let page: E[] = [];
+    do {
+      page = await fetch<E>(buildPage(rows[rows.length - 1]), entity);
+      rows.push(...page);
+    } while (page.length > 0);
+    return rows;
+  }
+
+  it('should use a row-value comparison when all cursor values are set', async () => {
+    const criteria = setKeysetCursor(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema),
+      [
+        { field: 'user_uuid', value: '00000000-0000-0000-0000-000000000000' },
+        { field: 'created_at', value: new Date(0) },
+        { field: 'uuid', value: '00000000-0000-0000-0000-000000000000' },
+      ],
+      FilterOperator.GREATER_THAN,
+      OrderDirection.ASC,
+    )
+      .orderBy('user_uuid', OrderDirection.ASC)
+      .orderBy('created_at', OrderDirection.ASC)
+      .orderBy('uuid', OrderDirection.ASC);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE ((("${criteria.alias}"."user_uuid", "${criteria.alias}"."created_at", "${criteria.alias}"."uuid") > ($1, $2, $3) OR ("${criteria.alias}"."user_uuid" IS NULL) OR ("${criteria.alias}"."user_uuid" = $1 AND "${criteria.alias}"."created_at" IS NULL) OR ("${criteria.alias}"."user_uuid" = $1 AND "${criteria.alias}"."created_at" = $2 AND "${criteria.alias}"."uuid" IS NULL)))`,
+    );
+  });
+
+  it('should walk all pages of a three-field ascending cursor', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .orderBy('user_uuid', OrderDirection.ASC)
+        .orderBy('created_at', OrderDirection.ASC)
+        .orderBy('uuid', OrderDirection.ASC);
+    const expectedPosts = await fetch<Post>(buildCriteria(), PostEntity);
+
+    const fetchedPosts = await walkPages<Post>((lastPost) => {
+      const criteria = lastPost
+        ? setKeysetCursor(
+            CriteriaFactory.GetCriteria(CriteriaPostSchema),
+            [
+              { field: 'user_uuid', value: lastPost.user_uuid },
+              { field: 'created_at', value: lastPost.created_at },
+              { field: 'uuid', value: lastPost.uuid },
+            ],
+            FilterOperator.GREATER_THAN,
+            OrderDirection.ASC,
+          )
+        : CriteriaFactory.GetCriteria(CriteriaPostSchema);
+      return criteria
+        .orderBy('user_uuid', OrderDirection.ASC)
+        .orderBy('created_at', OrderDirection.ASC)
+        .orderBy('uuid', OrderDirection.ASC)
+        .setTake(4);
+    }, PostEntity);
+
+    expect(expectedPosts.length).toBeGreaterThan(4);
+    expect(fetchedPosts.map((post) => post.uuid)).toEqual(
+      expectedPosts.map((post) => post.uuid),
+    );
+  });
+
+  /**
+   * Builds a users criteria ordered by profile bio (NULL for users without a profile),
+   * username and uuid, with a cursor after the given user when set.
+   */
+  const buildUsersByBioCriteria = (
+    direction: OrderDirection,
+    lastUser?: User,
+  ) => {
+    const operator =
+      direction === OrderDirection.ASC
+        ? FilterOperator.GREATER_THAN
+        : FilterOperator.LESS_THAN;
+    const profileCriteria = CriteriaFactory.GetLeftJoinCriteria(
+      CriteriaUserProfileSchema,
+    ).orderBy('bio', direction);
+    if (lastUser) {
+      profileCriteria.setCursor(
+        [{ field: 'bio', value: lastUser.profile?.bio ?? null }],
+        operator,
+        direction,
+      );
+    }
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join('profile', profileCriteria)
+      .orderBy('username', direction)
+      .orderBy('uuid', direction);
+    if (lastUser) {
+      criteria.setCursor(
+        [
+          { field: 'username', value: lastUser.username },
+          { field: 'uuid', value: lastUser.uuid },
+        ],
+        operator,
+        direction,
+      );
+    }
+    return criteria;
+  };
+
+  it('should walk all pages of an ascending cursor spanning a joined field with NULL values and root fields', async () => {
+    const expectedUsers = await fetch<User>(
+      buildUsersByBioCriteria(OrderDirection.ASC),
+      UserEntity,
+    );
+
+    const fetchedUsers = await walkPages<User>(
+      (lastUser) =>
+        buildUsersByBioCriteria(OrderDirection.ASC, lastUser).setTake(3),
+      UserEntity,
+    );
+
+    expect(expectedUsers.some((user) => !user.profile)).toBe(true);
+    expect(fetchedUsers.map((user) => user.uuid)).toEqual(
+      expectedUsers.map((user) => user.uuid),
+    );
+  });
+
+  it('should walk all pages of a descending cursor spanning a joined field with NULL values and root fields', async () => {
+    const expectedUsers = await fetch<User>(
+      buildUsersByBioCriteria(OrderDirection.DESC),
+      UserEntity,
+    );
+
+    const fetchedUsers = await walkPages<User>(
+      (lastUser) =>
+        buildUsersByBioCriteria(OrderDirection.DESC, lastUser).setTake(2),
+      UserEntity,
+    );
+
+    expect(expectedUsers.some((user) => !user.profile)).toBe(true);
+    expect(fetchedUsers.map((user) => user.uuid)).toEqual(
+      expectedUsers.map((user) => user.uuid),
+    );
+  });
+
+  it('should walk all pages of a three-field ordering with cursor tokens', async () => {
+    const codec = new CursorCodec({ secret: 'test-secret' });
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .orderBy('user_uuid', OrderDirection.DESC)
+        .orderBy('created_at', OrderDirection.DESC)
+        .orderBy('uuid', OrderDirection.DESC);
+    const expectedPosts = await fetch<Post>(buildCriteria(), PostEntity);
+
+    const fetchedPosts: Post[] = [];
+    let token: string | null = null;
+    do {
+      const criteria = buildCriteria().setTake(4);
+      if (token) {
+        codec.apply(criteria, token);
+      }
+      const posts = await fetch<Post>(criteria, PostEntity);
+      fetchedPosts.push(...posts);
+      token = codec.nextPageToken(criteria, posts);
+    } while (token);
+
+    expect(fetchedPosts.map((post) => post.uuid)).toEqual(
+      expectedPosts.map((post) => post.uuid),
+    );
+  });
+
+  it('should reject repeated and unknown keyset cursor fields', () => {
+    expect(() =>
+      setKeysetCursor(
+        CriteriaFactory.GetCriteria(CriteriaPostSchema),
+        [
+          { field: 'user_uuid', value: 'a' },
+          { field: 'title', value: 'b' },
+          { field: 'user_uuid', value: 'c' },
+        ],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      ),
+    ).toThrow(
+      "Keyset cursor fields must be different, but 'user_uuid' is repeated.",
+    );
+    expect(() =>
+      setKeysetCursor(
+        CriteriaFactory.GetCriteria(CriteriaPostSchema),
+        [
+          { field: 'user_uuid', value: 'a' },
+          { field: 'title', value: 'b' },
+          { field: 'priority', value: 1 },
+        ],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      ),
+    ).toThrow("The field 'priority' is not defined in the schema 'post'.");
+  });
+});
@@ -0,0 +1,185 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type EntityBase,
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+describe('TypeOrmPostgresTranslator - Mixed-Direction and NULLS FIRST Cursor Pagination', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  const codec = new CursorCodec({ secret: 'test-secret' });
+
+  beforeEach(async () => {
+    await initializeDataSourceService(false);
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  async function fetch<E extends EntityBase>(
+    criteria: RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+  ): Promise<E[]> {
+    const qb = await TypeORMUtils.getQueryBuilderFor<E>(
+      entity as any,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    return qb.getMany();
+  }
+
+  /**
+   * Walks the whole result of a criteria page by page, and checks that it returns
+   * the rows of the unpaginated query in the same order, without skipping or repeating any.
+   */
+  async function expectPageWalkToMatch<E extends EntityBase>(
+    buildCriteria: () => RootCriteria<any>,
+    entity: typeof UserEntity | typeof PostEntity,
+    pageSize: number,
+  ): Promise<E[]> {
+    const expectedRows = await fetch<E>(buildCriteria(), entity);
+
+    const fetchedRows: E[] = [];
+    let token: string | null = null;
+    do {
+      const criteria = buildCriteria().setTake(pageSize);
+      if (token) {
+        codec.apply(criteria, token);
+      }
+      const page = await fetch<E>(criteria, entity);
+      fetchedRows.push(...page);
+      token = codec.nextPageToken(criteria, page);
+    } while (token);
+
+    expect(expectedRows.length).toBeGreaterThan(pageSize);
+    expect(new Set(fetchedRows.map((row) => row.uuid)).size).toBe(
+      fetchedRows.length,
+    );
+    expect(fetchedRows.map((row) => row.uuid)).toEqual(
+      expectedRows.map((row) => row.uuid),
+    );
+    return expectedRows;
+  }
+
+  const buildUsersByBio = (
+    bioDirection: OrderDirection,
+    bioNullsFirst: boolean,
+    tieBreakerDirection: OrderDirection,
+  ) =>
+    CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .join(
+        'profile',
+        CriteriaFactory.GetLeftJoinCriteria(CriteriaUserProfileSchema).orderBy(
+          'bio',
+          bioDirection,
+          bioNullsFirst,
+        ),
+      )
+      .orderBy('uuid', tieBreakerDirection);
+
+  it('should walk all pages of an ascending NULLS FIRST ordering', async () => {
+    const users = await expectPageWalkToMatch<User>(
+      () => buildUsersByBio(OrderDirection.ASC, true, OrderDirection.ASC),
+      UserEntity,
+      2,
+    );
+    expect(users[0]!.profile).toBeNull();
+  });
+
+  it('should walk all pages of a descending NULLS FIRST ordering', async () => {
+    const users = await expectPageWalkToMatch<User>(
+      () => buildUsersByBio(OrderDirection.DESC, true, OrderDirection.DESC),
+      UserEntity,
+      2,
+    );
+    expect(users[0]!.profile).toBeNull();
+  });
+
+  it('should walk all pages of `bio DESC NULLS FIRST, uuid ASC`', async () => {
+    await expectPageWalkToMatch<User>(
+      () => buildUsersByBio(OrderDirection.DESC, true, OrderDirection.ASC),
+      UserEntity,
+      2,
+    );
+  });
+
+  it('should walk all pages of `bio ASC NULLS LAST, uuid DESC`', async () => {
+    const users = await expectPageWalkToMatch<User>(
+      () => buildUsersByBio(OrderDirection.ASC, false, OrderDirection.DESC),
+      UserEntity,
+      3,
+    );
+    expect(users[users.length - 1]!.profile).toBeNull();
+  });
+
+  it('should walk all pages of mixed directions over tied values', async () => {
+    await expectPageWalkToMatch<Post>(
+      () =>
+        CriteriaFactory.GetCriteria(CriteriaPostSchema)
+          .orderBy('user_uuid', OrderDirection.DESC)
+          .orderBy('created_at', OrderDirection.ASC),
+      PostEntity,
+      4,
+    );
+  });
+
+  it('should walk all pages of a three-field mixed ordering across nested joins', async () => {
+    await expectPageWalkToMatch<Post>(
+      () =>
+        CriteriaFactory.GetCriteria(CriteriaPostSchema)
+          .join(
+            'publisher',
+            CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).join(
+              'profile',
+              CriteriaFactory.GetLeftJoinCriteria(
+                CriteriaUserProfileSchema,
+              ).orderBy('bio', OrderDirection.DESC, true),
+            ),
+          )
+          .orderBy('created_at', OrderDirection.ASC)
+          .orderBy('uuid', OrderDirection.DESC),
+      PostEntity,
+      3,
+    );
+  });
+
+  it('should expand the condition field by field when directions differ', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema)
+      .setCursor(
+        [
+          { field: 'user_uuid', value: '00000000-0000-0000-0000-000000000000' },
+          { field: 'created_at', value: new Date(0) },
+        ],
+        FilterOperator.LESS_THAN,
+        OrderDirection.DESC,
+      )
+      .orderBy('user_uuid', OrderDirection.DESC, true)
+      .orderBy('created_at', OrderDirection.ASC);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `WHERE ((("${criteria.alias}"."user_uuid" < $1) OR ("${criteria.alias}"."user_uuid" = $1 AND ("${criteria.alias}"."created_at" > $2 OR "${criteria.alias}"."created_at" IS NULL))))`,
+    );
+  });
+});
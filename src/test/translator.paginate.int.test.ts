@@ -0,0 +1,224 @@
+import { randomUUID } from 'node:crypto';
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import {
+  type Page,
+  TypeOrmPostgresTranslator,
+} from '../type-orm.postgres.translator.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import { setKeysetCursor } from '../utils/keyset-cursor.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - Paginate', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+  const codec = new CursorCodec({ secret: 'test-secret' });
+
+  const buildUsersCriteria = () =>
+    CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .orderBy('username', OrderDirection.ASC)
+      .orderBy('uuid', OrderDirection.ASC)
+      .setTake(3);
+
+  const paginateUsers = async (
+    criteria: ReturnType<typeof buildUsersCriteria>,
+    withTotal = false,
+  ) =>
+    (await translator.paginate(
+      criteria,
+      await TypeORMUtils.getQueryBuilderFor<User>(UserEntity, criteria.alias),
+      { withTotal, cursorCodec: codec },
+    )) as Page<User>;
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = (
+      await dataSource.getRepository(UserEntity).find()
+    ).sort(
+      (a, b) =>
+        a.username.localeCompare(b.username) || a.uuid.localeCompare(b.uuid),
+    );
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  it('should return offset pages with their page info and total', async () => {
+    const firstPage = await paginateUsers(buildUsersCriteria(), true);
+    expect(firstPage.items.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(0, 3).map((user) => user.uuid),
+    );
+    expect(firstPage.total).toBe(actualUsersFromDB.length);
+    expect(firstPage.hasNextPage).toBe(true);
+    expect(firstPage.hasPreviousPage).toBe(false);
+    expect(firstPage.nextCursor).toMatch(/^v1\./);
+    expect(firstPage.previousCursor).toBeNull();
+
+    const lastPage = await paginateUsers(buildUsersCriteria().setSkip(6), true);
+    expect(lastPage.items.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(6).map((user) => user.uuid),
+    );
+    expect(lastPage.total).toBe(actualUsersFromDB.length);
+    expect(lastPage.hasNextPage).toBe(false);
+    expect(lastPage.hasPreviousPage).toBe(true);
+    expect(lastPage.nextCursor).toBeNull();
+  });
+
+  it('should walk keyset pages forward and backward with the returned cursors', async () => {
+    const forwardPages: Page<User>[] = [];
+    let page = await paginateUsers(buildUsersCriteria());
+    forwardPages.push(page);
+    while (page.hasNextPage) {
+      page = await paginateUsers(
+        codec.apply(buildUsersCriteria(), page.nextCursor!),
+      );
+      forwardPages.push(page);
+    }
+    expect(forwardPages).toHaveLength(3);
+    expect(
+      forwardPages.flatMap((page) => page.items.map((user) => user.uuid)),
+    ).toEqual(actualUsersFromDB.map((user) => user.uuid));
+    expect(forwardPages[0]!.hasPreviousPage).toBe(false);
+    expect(forwardPages.slice(1).every((page) => page.hasPreviousPage)).toBe(
+      true,
+    );
+
+    const backwardPages: Page<User>[] = [page];
+    while (page.hasPreviousPage) {
+      page = await paginateUsers(
+        codec.apply(buildUsersCriteria(), page.previousCursor!),
+      );
+      backwardPages.unshift(page);
+    }
+    expect(backwardPages.map((page) => page.items)).toEqual(
+      forwardPages.map((page) => page.items),
+    );
+    expect(backwardPages[0]!.hasNextPage).toBe(true);
+    expect(backwardPages[0]!.previousCursor).toBeNull();
+  });
+
+  it('should look up the rows on the other side of a cursor or a skip', async () => {
+    const cursorBeforeAll = await paginateUsers(
+      setKeysetCursor(
+        buildUsersCriteria(),
+        [
+          { field: 'username', value: 'a' },
+          { field: 'uuid', value: '00000000-0000-0000-0000-000000000000' },
+        ],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+      ),
+    );
+    expect(cursorBeforeAll.items.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(0, 3).map((user) => user.uuid),
+    );
+    expect(cursorBeforeAll.hasPreviousPage).toBe(false);
+    expect(cursorBeforeAll.previousCursor).toBeNull();
+
+    const pageBeforeCursorAfterAll = await paginateUsers(
+      setKeysetCursor(
+        buildUsersCriteria(),
+        [
+          { field: 'username', value: 'z' },
+          { field: 'uuid', value: 'ffffffff-ffff-ffff-ffff-ffffffffffff' },
+        ],
+        FilterOperator.GREATER_THAN,
+        OrderDirection.ASC,
+        { before: true },
+      ),
+    );
+    expect(pageBeforeCursorAfterAll.items.map((user) => user.uuid)).toEqual(
+      actualUsersFromDB.slice(-3).map((user) => user.uuid),
+    );
+    expect(pageBeforeCursorAfterAll.hasNextPage).toBe(false);
+    expect(pageBeforeCursorAfterAll.hasPreviousPage).toBe(true);
+
+    const skipOfNoRows = await paginateUsers(
+      buildUsersCriteria()
+        .where({
+          field: 'username',
+          operator: FilterOperator.EQUALS,
+          value: 'nobody',
+        })
+        .setSkip(3),
+    );
+    expect(skipOfNoRows.items).toEqual([]);
+    expect(skipOfNoRows.hasPreviousPage).toBe(false);
+
+    const skipPastRows = await paginateUsers(buildUsersCriteria().setSkip(20));
+    expect(skipPastRows.items).toEqual([]);
+    expect(skipPastRows.hasPreviousPage).toBe(true);
+  });
+
+  it('should only count when requested', async () => {
+    const criteria = buildUsersCriteria().where({
+      field: 'username',
+      operator: FilterOperator.IN,
+      value: ['user_1', 'user_2', 'user_3', 'user_4'],
+    });
+
+    const countedPage = await paginateUsers(criteria, true);
+    expect(countedPage.total).toBe(4);
+    expect(countedPage.items).toHaveLength(3);
+
+    const page = await paginateUsers(criteria);
+    expect(page).not.toHaveProperty('total');
+  });
+
+  it('should run the page and count queries in the transaction of the given query runner', async () => {
+    const queryRunner = dataSource.createQueryRunner();
+    await queryRunner.startTransaction();
+    try {
+      const insertedUser = await queryRunner.manager
+        .getRepository(UserEntity)
+        .save({
+          uuid: randomUUID(),
+          email: 'uncommitted@example.com',
+          username: 'a_uncommitted_user',
+        });
+      const criteria = buildUsersCriteria();
+
+      const page = await translator.paginate(
+        criteria,
+        dataSource.getRepository(UserEntity).createQueryBuilder(criteria.alias),
+        { withTotal: true, queryRunner },
+      );
+
+      expect(page.items[0]!.uuid).toBe(insertedUser.uuid);
+      expect(page.total).toBe(actualUsersFromDB.length + 1);
+      expect(queryRunner.isTransactionActive).toBe(true);
+    } finally {
+      await queryRunner.rollbackTransaction();
+      await queryRunner.release();
+    }
+  });
+
+  it('should return null cursors for unordered criteria', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).setTake(5);
+
+    const page = await translator.paginate(
+      criteria,
+      await TypeORMUtils.getQueryBuilderFor<User>(UserEntity, criteria.alias),
+    );
+
+    expect(page.items).toHaveLength(5);
+    expect(page.hasNextPage).toBe(true);
+    expect(page.nextCursor).toBeNull();
+    expect(page.previousCursor).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+
+const buildCriteria = () =>
+  CriteriaFactory.GetCriteria(CriteriaUserSchema)
+    .where({
+      field: 'username',
+      operator: FilterOperator.IN,
+      value: ['user_1', 'user_2', 'user_3', 'user_4'],
+    })
+    .join(
+      'profile',
+      CriteriaFactory.GetLeftJoinCriteria(CriteriaUserProfileSchema).where({
+        field: 'bio',
+        operator: FilterOperator.IS_NOT_NULL,
+        value: null,
+      }),
+    )
+    .orderBy('username', OrderDirection.ASC)
+    .setCursor(
+      [{ field: 'username', value: 'user_1' }],
+      FilterOperator.GREATER_THAN,
+      OrderDirection.ASC,
+    );
+
+describe('TypeOrmPostgresTranslator - Parameter Names', () => {
+  beforeAll(async () => {
+    await initializeDataSourceService(false);
+  });
+
+  it('should skip parameter names already set on the query builder', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.setParameters({ param_0: 'user_3', param_2: 'unused' });
+
+    translator.translate(buildCriteria(), qb);
+    qb.andWhere(`${CriteriaUserSchema.alias}.username != :param_0`);
+
+    const parameters = qb.getParameters();
+    expect(parameters).toEqual({
+      param_0: 'user_3',
+      param_1: ['user_1', 'user_2', 'user_3', 'user_4'],
+      param_2: 'unused',
+      param_3: 'user_1',
+    });
+
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_2', 'user_4']);
+  });
+
+  it('should use the configured prefix for generated parameter names', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      parameterPrefix: 'criteria',
+    });
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.setParameter('param_0', 'user_4');
+
+    translator.translate(buildCriteria(), qb);
+    qb.andWhere(`${CriteriaUserSchema.alias}.username != :param_0`);
+
+    expect(Object.keys(qb.getParameters()).sort()).toEqual([
+      'criteria_0',
+      'criteria_1',
+      'param_0',
+    ]);
+    expect(qb.getParameters()).toMatchObject({
+      criteria_0: ['user_1', 'user_2', 'user_3', 'user_4'],
+      criteria_1: 'user_1',
+    });
+
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_2', 'user_3']);
+  });
+
+  it('should generate the same parameter names for every translation of a long-lived translator', async () => {
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>();
+    const translations: Array<{ sql: string; parameters: ObjectLiteral }> = [];
+
+    for (let i = 0; i < 3; i++) {
+      const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+        UserEntity,
+        CriteriaUserSchema.alias,
+      );
+      translator.translate(buildCriteria(), qb);
+      translations.push({ sql: qb.getSql(), parameters: qb.getParameters() });
+    }
+
+    expect(Object.keys(translations[0]!.parameters).sort()).toEqual([
+      'param_0',
+      'param_1',
+    ]);
+    translations.forEach((translation) => {
+      expect(translation).toEqual(translations[0]);
+    });
+  });
+
+  it('should reject invalid parameter prefixes', () => {
+    expect(
+      () =>
+        new TypeOrmPostgresTranslator<ObjectLiteral>({
+          parameterPrefix: '1param',
+        }),
+    ).toThrow(
+      "Invalid parameter prefix '1param': only letters, digits and underscores are allowed, and it cannot start with a digit.",
+    );
+    expect(
+      () =>
+        new TypeOrmPostgresTranslator<ObjectLiteral>({
+          parameterPrefix: 'param-name',
+        }),
+    ).toThrow("Invalid parameter prefix 'param-name'");
+  });
+});
@@ -0,0 +1,413 @@
+import { DataSource, EntitySchema, type ObjectLiteral } from 'typeorm';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  GetTypedCriteriaSchema,
+  OrderDirection,
+  SelectType,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import {
+  DbDatasourceConfigForTests,
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  PermissionSchema as CriteriaPermissionSchema,
+  type Post,
+  PostCommentSchema as CriteriaPostCommentSchema,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserProfileSchema as CriteriaUserProfileSchema,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+const UserWithPermissionTableSchema = GetTypedCriteriaSchema({
+  ...CriteriaUserSchema,
+  relations: [
+    {
+      default_options: {
+        select: SelectType.FULL_ENTITY,
+      },
+      relation_alias: 'permissions',
+      relation_type: 'many_to_many',
+      target_source_name: 'permission',
+      pivot_source_name: 'permission_user',
+      local_field: { reference: 'uuid', pivot_field: 'user_uuid' },
+      relation_field: { reference: 'uuid', pivot_field: 'permission_uuid' },
+    },
+  ],
+});
+
+type Account = { id: string; handle: string; contactEmail: string };
+
+/**
+ * An entity over the user table whose property names differ from its column names.
+ */
+const AccountEntity = new EntitySchema<Account>({
+  name: 'Account',
+  tableName: 'user',
+  columns: {
+    id: { name: 'uuid', primary: true, type: 'uuid' },
+    handle: { name: 'username', type: 'varchar' },
+    contactEmail: { name: 'email', type: 'varchar' },
+  },
+});
+
+const AccountSchema = GetTypedCriteriaSchema({
+  source_name: 'user',
+  alias: 'accounts',
+  identifier_field: 'id',
+  fields: ['id', 'handle', 'contactEmail'],
+  relations: [],
+});
+
+describe('TypeOrmPostgresTranslator - Raw SQL Translation', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  it('should build a positional query with quoted schema identifiers', () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .setSelect(['uuid', 'email'])
+      .where({
+        field: 'username',
+        operator: FilterOperator.IN,
+        value: ['user_1', 'user_2'],
+      })
+      .andWhere({
+        field: 'email',
+        operator: FilterOperator.CONTAINS,
+        value: 'example',
+      })
+      .orderBy('email', OrderDirection.DESC)
+      .setTake(10)
+      .setSkip(5);
+
+    const { sql, values } = translator.translateToSql(criteria);
+
+    expect(sql).toBe(
+      'SELECT "users"."uuid" AS "users_uuid", "users"."email" AS "users_email" ' +
+        'FROM "user" "users" ' +
+        'WHERE ("users"."username" IN ($1, $2) AND "users"."email" ILIKE $3 ESCAPE \'\\\') ' +
+        'ORDER BY "users"."email" DESC NULLS LAST LIMIT 10 OFFSET 5',
+    );
+    expect(values).toEqual(['user_1', 'user_2', '%example%']);
+  });
+
+  it('should return the same root rows as the QueryBuilder translation', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .where({
+          field: 'title',
+          operator: FilterOperator.NOT_EQUALS,
+          value: 'Post Title 1',
+        })
+        .orWhere({
+          field: 'metadata',
+          operator: FilterOperator.JSON_PATH_VALUE_EQUALS,
+          value: { views: 100 },
+        })
+        .orderBy('created_at', OrderDirection.DESC)
+        .orderBy('uuid', OrderDirection.ASC)
+        .setTake(4)
+        .setSkip(2);
+
+    const { sql, values } = translator.translateToSql(buildCriteria());
+    const rawRows: ObjectLiteral[] = await dataSource.query(sql, values);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    translator.translate(buildCriteria(), qb);
+    const posts = await qb.getMany();
+
+    expect(rawRows.map((row) => row.posts_uuid)).toEqual(
+      posts.map((post) => post.uuid),
+    );
+  });
+
+  it('should translate simple joins with ON conditions and nested joins', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .join(
+          'comments',
+          CriteriaFactory.GetInnerJoinCriteria(CriteriaPostCommentSchema).join(
+            'publisher',
+            CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+              field: 'username',
+              operator: FilterOperator.EQUALS,
+              value: 'user_2',
+            }),
+          ),
+          { select: SelectType.NO_SELECTION },
+        )
+        .join(
+          'publisher',
+          CriteriaFactory.GetLeftJoinCriteria(CriteriaUserSchema),
+          { select: SelectType.ID_ONLY },
+        );
+
+    const { sql, values } = translator.translateToSql(buildCriteria());
+
+    expect(sql).toContain(
+      'INNER JOIN "post_comment" "comments" ON "comments"."post_uuid" = "posts"."uuid"',
+    );
+    expect(sql).toContain(
+      'INNER JOIN "user" "publisher" ON "publisher"."uuid" = "comments"."user_uuid" AND ("publisher"."username" = $1)',
+    );
+    expect(sql).not.toContain('"comments"."comment_text"');
+    expect(sql).toContain('"posts"."user_uuid" AS "posts_user_uuid"');
+    expect(sql).not.toContain('"publisher_1"');
+    expect(values).toEqual(['user_2']);
+
+    const rawRows: ObjectLiteral[] = await dataSource.query(sql, values);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    translator.translate(buildCriteria(), qb);
+    const posts = await qb.getMany();
+
+    expect(posts.length).toBeGreaterThan(0);
+    expect(new Set(rawRows.map((row) => row.posts_uuid))).toEqual(
+      new Set(posts.map((post) => post.uuid)),
+    );
+  });
+
+  it('should translate many_to_many joins through the pivot table', async () => {
+    const criteria = CriteriaFactory.GetCriteria(
+      UserWithPermissionTableSchema,
+    ).join(
+      'permissions',
+      CriteriaFactory.GetInnerJoinCriteria(CriteriaPermissionSchema).where({
+        field: 'name',
+        operator: FilterOperator.EQUALS,
+        value: 'permission_name_5',
+      }),
+    );
+
+    const { sql, values } = translator.translateToSql(criteria);
+
+    expect(sql).toContain(
+      'INNER JOIN "permission_user" "users_permissions" ON "users_permissions"."user_uuid" = "users"."uuid" ' +
+        'INNER JOIN "permission" "permissions" ON "permissions"."uuid" = "users_permissions"."permission_uuid" AND ("permissions"."name" = $1)',
+    );
+
+    const rawRows: ObjectLiteral[] = await dataSource.query(sql, values);
+    const expectedUsers = await dataSource
+      .getRepository(UserEntity)
+      .createQueryBuilder('users')
+      .innerJoin('users.permissions', 'permissions')
+      .where('permissions.name = :name', { name: 'permission_name_5' })
+      .getMany();
+
+    expect(rawRows.length).toBeGreaterThan(0);
+    expect(rawRows.map((row) => row.users_uuid).sort()).toEqual(
+      expectedUsers.map((user: User) => user.uuid).sort(),
+    );
+    rawRows.forEach((row) => {
+      expect(row.permissions_name).toBe('permission_name_5');
+    });
+  });
+
+  it('should translate FULL OUTER joins', () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).join(
+      'profile',
+      CriteriaFactory.GetOuterJoinCriteria(CriteriaUserProfileSchema),
+    );
+
+    const { sql } = translator.translateToSql(criteria);
+
+    expect(sql).toContain(
+      'FULL OUTER JOIN "user_profile" "profile" ON "profile"."user_uuid" = "users"."uuid"',
+    );
+  });
+
+  it('should apply cursor conditions and ignore skip when a cursor is set', async () => {
+    const allPosts = await dataSource
+      .getRepository(PostEntity)
+      .createQueryBuilder('posts')
+      .orderBy('posts.created_at', 'ASC')
+      .addOrderBy('posts.uuid', 'ASC')
+      .getMany();
+    const cursorPost = allPosts[3]!;
+
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaPostSchema)
+        .setCursor(
+          [
+            { field: 'created_at', value: cursorPost.created_at },
+            { field: 'uuid', value: cursorPost.uuid },
+          ],
+          FilterOperator.GREATER_THAN,
+          OrderDirection.ASC,
+        )
+        .orderBy('created_at', OrderDirection.ASC)
+        .orderBy('uuid', OrderDirection.ASC)
+        .setTake(3)
+        .setSkip(10);
+
+    const { sql, values } = translator.translateToSql(buildCriteria());
+
+    expect(sql).toContain(
+      'WHERE ((("posts"."created_at", "posts"."uuid") > ($1, $2) OR ("posts"."created_at" IS NULL) OR ("posts"."created_at" = $1 AND "posts"."uuid" IS NULL)))',
+    );
+    expect(sql).not.toContain('OFFSET');
+    expect(values).toEqual([cursorPost.created_at, cursorPost.uuid]);
+
+    const rawRows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rawRows.map((row) => row.posts_uuid)).toEqual(
+      allPosts.slice(4, 7).map((post) => post.uuid),
+    );
+  });
+
+  it('should reuse positions for repeated parameters', () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+      field: 'categories',
+      operator: FilterOperator.ARRAY_EQUALS,
+      value: ['tech', 'news'],
+    });
+
+    const { sql, values } = translator.translateToSql(criteria);
+
+    expect(sql).toContain(
+      'WHERE (("posts"."categories" @> $1::jsonb AND "posts"."categories" <@ $1::jsonb))',
+    );
+    expect(values).toEqual([JSON.stringify(['tech', 'news'])]);
+  });
+
+  it('should not replace placeholders in string literals, quoted identifiers and casts', async () => {
+    const literalTranslator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.EQUALS,
+          handler: {
+            build: (fieldName, filter, parameterManager) => {
+              const paramName = parameterManager.generateParamName();
+              return {
+                queryFragment: `(${fieldName} = :${paramName}::text AND ${fieldName} <> ':${paramName}' AND ${fieldName} <> E'\\':${paramName}' AND EXISTS (SELECT 1 AS ":${paramName}"))`,
+                parameters: { [paramName]: filter.value, text: 'unused' },
+              };
+            },
+          },
+        },
+      ],
+    });
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema)
+      .setSelect(['username'])
+      .where({
+        field: 'username',
+        operator: FilterOperator.EQUALS,
+        value: 'user_1',
+      });
+
+    const { sql, values } = literalTranslator.translateToSql(criteria);
+
+    expect(sql).toContain(
+      `WHERE (("users"."username" = $1::text AND "users"."username" <> ':param_0' AND "users"."username" <> E'\\':param_0' AND EXISTS (SELECT 1 AS ":param_0")))`,
+    );
+    expect(values).toEqual(['user_1']);
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rows.map((row) => row.users_username)).toEqual(['user_1']);
+  });
+
+  it('should page distinct root rows when joins repeat them', async () => {
+    const buildCriteria = () =>
+      CriteriaFactory.GetCriteria(CriteriaUserSchema)
+        .join('posts', CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema))
+        .orderBy('username', OrderDirection.ASC)
+        .setTake(3)
+        .setSkip(1);
+
+    const { sql, values } = translator.translateToSql(buildCriteria());
+    expect(sql).toContain(
+      'WHERE "users"."uuid" IN (SELECT "page_rows"."id" FROM (SELECT "users"."uuid" AS "id", ROW_NUMBER() OVER (ORDER BY "users"."username" ASC NULLS LAST) AS "row_number" FROM "user" "users" INNER JOIN "post" "posts"',
+    );
+    expect(sql).toContain(
+      'GROUP BY "page_rows"."id" ORDER BY MIN("page_rows"."row_number") LIMIT 3 OFFSET 1) ORDER BY "users"."username" ASC NULLS LAST',
+    );
+    const rawRows: ObjectLiteral[] = await dataSource.query(sql, values);
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    translator.translate(buildCriteria(), qb);
+    const users = await qb.getMany();
+
+    expect(users).toHaveLength(3);
+    expect(rawRows.length).toBeGreaterThan(users.length);
+    expect([...new Set(rawRows.map((row) => row.users_uuid))]).toEqual(
+      users.map((user) => user.uuid),
+    );
+  });
+
+  describe('with a DataSource', () => {
+    let accountsDataSource: DataSource;
+
+    beforeAll(async () => {
+      accountsDataSource = await new DataSource({
+        ...DbDatasourceConfigForTests,
+        entities: [AccountEntity],
+      }).initialize();
+    });
+
+    afterAll(async () => {
+      await accountsDataSource.destroy();
+    });
+
+    it('should map fields to the column names of their entity', async () => {
+      const buildCriteria = () =>
+        CriteriaFactory.GetCriteria(AccountSchema)
+          .where({
+            field: 'handle',
+            operator: FilterOperator.IN,
+            value: ['user_2', 'user_3'],
+          })
+          .orderBy('contactEmail', OrderDirection.DESC);
+
+      const { sql, values } = translator.translateToSql(
+        buildCriteria(),
+        accountsDataSource,
+      );
+      expect(sql).toBe(
+        'SELECT "accounts"."uuid" AS "accounts_uuid", "accounts"."username" AS "accounts_username", "accounts"."email" AS "accounts_email" ' +
+          'FROM "user" "accounts" WHERE ("accounts"."username" IN ($1, $2)) ORDER BY "accounts"."email" DESC NULLS LAST',
+      );
+      const rawRows: ObjectLiteral[] = await accountsDataSource.query(
+        sql,
+        values,
+      );
+
+      const qb = accountsDataSource
+        .getRepository(AccountEntity)
+        .createQueryBuilder(AccountSchema.alias);
+      translator.translate(buildCriteria(), qb);
+      const accounts = await qb.getMany();
+
+      expect(accounts.map((account) => account.handle)).toEqual([
+        'user_3',
+        'user_2',
+      ]);
+      expect(rawRows.map((row) => row.accounts_username)).toEqual(
+        accounts.map((account) => account.handle),
+      );
+      expect(translator.translateToSql(buildCriteria()).sql).toContain(
+        '"accounts"."handle" AS "accounts_handle"',
+      );
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { type ObjectLiteral } from 'typeorm';
+import { beforeAll, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  type CriteriaSchema,
+  FilterOperator,
+  type InnerJoinCriteria,
+  OrderDirection,
+  type PivotJoin,
+  type RootCriteria,
+  SelectType,
+  type SimpleJoin,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { TypeOrmTranslationContext } from '../utils/type-orm-translation-context.js';
+import { InComparisonHandler } from '../utils/filter-handlers/in-comparison.handler.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+
+const buildUserCriteria = () =>
+  CriteriaFactory.GetCriteria(CriteriaUserSchema)
+    .where({
+      field: 'username',
+      operator: FilterOperator.IN,
+      value: ['user_1', 'user_2', 'user_3'],
+    })
+    .join(
+      'posts',
+      CriteriaFactory.GetInnerJoinCriteria(CriteriaPostSchema)
+        .where({
+          field: 'title',
+          operator: FilterOperator.CONTAINS,
+          value: 'Post',
+        })
+        .orderBy('created_at', OrderDirection.DESC),
+      { select: SelectType.FULL_ENTITY },
+    )
+    .orderBy('username', OrderDirection.ASC)
+    .setTake(2);
+
+const buildPostCriteria = () =>
+  CriteriaFactory.GetCriteria(CriteriaPostSchema)
+    .where({
+      field: 'body',
+      operator: FilterOperator.IS_NOT_NULL,
+      value: null,
+    })
+    .join(
+      'publisher',
+      CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema).where({
+        field: 'username',
+        operator: FilterOperator.EQUALS,
+        value: 'user_2',
+      }),
+    )
+    .orderBy('uuid', OrderDirection.ASC)
+    .setCursor(
+      [{ field: 'uuid', value: '00000000-0000-0000-0000-000000000000' }],
+      FilterOperator.GREATER_THAN,
+      OrderDirection.ASC,
+    );
+
+/**
+ * Translates the given criteria into a fresh query builder with a new translator,
+ * as a reference for translations run on a shared instance.
+ */
+async function translateInIsolation<E extends ObjectLiteral>(
+  entity: Parameters<typeof TypeORMUtils.getQueryBuilderFor<E>>[0],
+  criteria: RootCriteria<any>,
+) {
+  const qb = await TypeORMUtils.getQueryBuilderFor<E>(entity, criteria.alias);
+  new TypeOrmPostgresTranslator<E>().translate(criteria, qb);
+  return { sql: qb.getSql(), parameters: qb.getParameters() };
+}
+
+describe('TypeOrmPostgresTranslator - Concurrent and Reentrant Use', () => {
+  beforeAll(async () => {
+    await initializeDataSourceService(false);
+  });
+
+  it('should keep both translations intact when a hook translates another criteria mid-translation', async () => {
+    const nestedQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+
+    class NestingTranslator extends TypeOrmPostgresTranslator<ObjectLiteral> {
+      private nested = false;
+
+      public override visitInnerJoin<
+        ParentCSchema extends CriteriaSchema,
+        JoinCriteriaSchema extends CriteriaSchema,
+      >(
+        criteria: InnerJoinCriteria<JoinCriteriaSchema>,
+        parameters:
+          | PivotJoin<ParentCSchema, JoinCriteriaSchema>
+          | SimpleJoin<ParentCSchema, JoinCriteriaSchema>,
+        context: TypeOrmTranslationContext<ObjectLiteral>,
+      ) {
+        if (!this.nested) {
+          this.nested = true;
+          this.translate(buildPostCriteria(), nestedQb);
+        }
+        super.visitInnerJoin(criteria, parameters, context);
+      }
+    }
+
+    const translator = new NestingTranslator();
+    const outerQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    translator.translate(buildUserCriteria(), outerQb);
+
+    const expectedOuter = await translateInIsolation<User>(
+      UserEntity,
+      buildUserCriteria(),
+    );
+    const expectedNested = await translateInIsolation<Post>(
+      PostEntity,
+      buildPostCriteria(),
+    );
+
+    expect(outerQb.getSql()).toBe(expectedOuter.sql);
+    expect(outerQb.getParameters()).toEqual(expectedOuter.parameters);
+    expect(nestedQb.getSql()).toBe(expectedNested.sql);
+    expect(nestedQb.getParameters()).toEqual(expectedNested.parameters);
+
+    const users = await outerQb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_1', 'user_2']);
+    const posts = await nestedQb.getMany();
+    expect(posts.length).toBeGreaterThan(0);
+    posts.forEach((post) => expect(post.publisher!.username).toBe('user_2'));
+  });
+
+  it('should share parameter names with a nested translation through its context', async () => {
+    const subQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+
+    class SubqueryTranslator extends TypeOrmPostgresTranslator<ObjectLiteral> {
+      public override visitRoot<RootCriteriaSchema extends CriteriaSchema>(
+        criteria: RootCriteria<RootCriteriaSchema>,
+        context: TypeOrmTranslationContext<ObjectLiteral>,
+      ): void {
+        super.visitRoot(criteria, context);
+        if (criteria.alias !== CriteriaUserSchema.alias) {
+          return;
+        }
+
+        this.translate(
+          CriteriaFactory.GetCriteria(CriteriaPostSchema).where({
+            field: 'title',
+            operator: FilterOperator.EQUALS,
+            value: 'Post Title 1',
+          }),
+          TypeOrmTranslationContext.forQueryBuilder(
+            subQb,
+            context.parameterManager,
+          ),
+        );
+        subQb.select(`${CriteriaPostSchema.alias}.user_uuid`);
+        context.queryBuilder
+          .andWhere(`${criteria.alias}.uuid IN (${subQb.getQuery()})`)
+          .setParameters(subQb.getParameters());
+      }
+    }
+
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    new SubqueryTranslator().translate(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+        field: 'username',
+        operator: FilterOperator.NOT_EQUALS,
+        value: 'user_8',
+      }),
+      qb,
+    );
+
+    expect(Object.keys(qb.getParameters()).sort()).toEqual([
+      'param_0',
+      'param_1',
+    ]);
+
+    const users = await qb.getMany();
+    const expectedUsers = await (
+      await TypeORMUtils.getQueryBuilderFor<User>(UserEntity, 'users')
+    )
+      .innerJoin('users.posts', 'posts')
+      .where('posts.title = :title', { title: 'Post Title 1' })
+      .andWhere('users.username != :username', { username: 'user_8' })
+      .getMany();
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(users.map((user) => user.uuid).sort()).toEqual(
+      expectedUsers.map((user) => user.uuid).sort(),
+    );
+  });
+
+  it('should keep both translations intact when an operator handler translates another criteria inside a filter group', async () => {
+    const nestedQb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      CriteriaPostSchema.alias,
+    );
+    const inHandler = new InComparisonHandler();
+    let nested = false;
+    const translator = new TypeOrmPostgresTranslator<ObjectLiteral>({
+      operatorHandlers: [
+        {
+          operator: FilterOperator.IN,
+          field: 'username',
+          handler: {
+            build: (fieldName, filter, parameterManager) => {
+              if (!nested) {
+                nested = true;
+                translator.translate(buildPostCriteria(), nestedQb);
+              }
+              return inHandler.build(fieldName, filter, parameterManager);
+            },
+          },
+        },
+      ],
+    });
+    const buildGroupedUserCriteria = () =>
+      buildUserCriteria().orWhere({
+        field: 'email',
+        operator: FilterOperator.IS_NULL,
+        value: null,
+      });
+
+    const outerQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    translator.translate(buildGroupedUserCriteria(), outerQb);
+
+    const expectedOuter = await translateInIsolation<User>(
+      UserEntity,
+      buildGroupedUserCriteria(),
+    );
+    const expectedNested = await translateInIsolation<Post>(
+      PostEntity,
+      buildPostCriteria(),
+    );
+
+    expect(nested).toBe(true);
+    expect(outerQb.getSql()).toBe(expectedOuter.sql);
+    expect(outerQb.getParameters()).toEqual(expectedOuter.parameters);
+    expect(nestedQb.getSql()).toBe(expectedNested.sql);
+    expect(nestedQb.getParameters()).toEqual(expectedNested.parameters);
+    expect((await outerQb.getMany()).length).toBeGreaterThan(0);
+    expect((await nestedQb.getMany()).length).toBeGreaterThan(0);
+  });
+
+  it("should translate a provided context with the translator's options", async () => {
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      CriteriaUserSchema.alias,
+    );
+    qb.where(`${CriteriaUserSchema.alias}.username != :excluded`, {
+      excluded: 'user_1',
+    });
+
+    new TypeOrmPostgresTranslator<User>({ mode: 'append' }).translate(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema).where({
+        field: 'username',
+        operator: FilterOperator.IN,
+        value: ['user_1', 'user_2'],
+      }),
+      TypeOrmTranslationContext.forQueryBuilder(qb),
+    );
+
+    expect(qb.getSql()).toContain(
+      `WHERE "${CriteriaUserSchema.alias}"."username" != $1 AND ("${CriteriaUserSchema.alias}"."username" IN ($2, $3))`,
+    );
+    const users = await qb.getMany();
+    expect(users.map((user) => user.username)).toEqual(['user_2']);
+  });
+});
@@ -0,0 +1,304 @@
+import { type DataSource, type ObjectLiteral } from 'typeorm';
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CriteriaFactory,
+  FilterOperator,
+  OrderDirection,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmPostgresTranslator } from '../type-orm.postgres.translator.js';
+import { CursorCodec } from '../utils/cursor-codec.js';
+import { restorePageOrder, setKeysetCursor } from '../utils/keyset-cursor.js';
+import { orderByRelationAggregate } from '../utils/relation-aggregate-order.js';
+import {
+  initializeDataSourceService,
+  TypeORMUtils,
+} from './utils/type-orm.utils.js';
+import {
+  type Post,
+  PostSchema as CriteriaPostSchema,
+  type User,
+  UserSchema as CriteriaUserSchema,
+} from './utils/fake-entities.js';
+import { PostEntity } from './utils/entities/post.entity.js';
+import { UserEntity } from './utils/entities/user.entity.js';
+
+describe('TypeOrmPostgresTranslator - Relation Aggregate Orderings', () => {
+  let translator: TypeOrmPostgresTranslator<ObjectLiteral>;
+  let dataSource: DataSource;
+  let actualUsersFromDB: User[];
+  let actualPostsFromDB: Post[];
+
+  beforeAll(async () => {
+    dataSource = await initializeDataSourceService(false);
+    actualUsersFromDB = await dataSource.getRepository(UserEntity).find({
+      relations: { posts: true, permissions: true },
+    });
+    actualPostsFromDB = await dataSource
+      .getRepository(PostEntity)
+      .find({ relations: { comments: true, publisher: true } });
+  });
+
+  beforeEach(() => {
+    translator = new TypeOrmPostgresTranslator();
+  });
+
+  /** Users by descending number of posts, then by uuid. */
+  const usersByPostCount = () =>
+    [...actualUsersFromDB].sort(
+      (a, b) => b.posts.length - a.posts.length || a.uuid.localeCompare(b.uuid),
+    );
+
+  const latestCommentTime = (post: Post) =>
+    Math.max(
+      ...post.comments!.map((comment) =>
+        new Date(comment.created_at).getTime(),
+      ),
+    );
+
+  it('should order by the number of one_to_many rows without joining them', async () => {
+    const criteria = orderByRelationAggregate(
+      CriteriaFactory.GetCriteria(CriteriaUserSchema),
+      'postCount',
+      { relation: 'posts', function: 'COUNT' },
+      OrderDirection.DESC,
+    ).orderBy('uuid', OrderDirection.ASC);
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    const sql = qb.getSql();
+    expect(sql).toContain(
+      `(SELECT COUNT(*) FROM "post" "${criteria.alias}_posts" WHERE "${criteria.alias}_posts"."user_uuid" = "${criteria.alias}"."uuid") AS "${criteria.alias}_postCount"`,
+    );
+    expect(sql).toContain(
+      `ORDER BY "${criteria.alias}_postCount" DESC NULLS LAST, "${criteria.alias}_uuid" ASC NULLS LAST`,
+    );
+    expect(sql).not.toContain('JOIN');
+
+    const { entities, raw } = await qb.getRawAndEntities();
+    const expectedUsers = usersByPostCount();
+    expect(entities.map((user) => user.uuid)).toEqual(
+      expectedUsers.map((user) => user.uuid),
+    );
+    expect(raw.map((row) => row[`${criteria.alias}_postCount`])).toEqual(
+      expectedUsers.map((user) => String(user.posts.length)),
+    );
+  });
+
+  it('should place the aggregate among the criteria orderings by sequence', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema).orderBy(
+      'email',
+      OrderDirection.ASC,
+    );
+    orderByRelationAggregate(
+      criteria,
+      'permissionCount',
+      { relation: 'permissions', function: 'COUNT' },
+      OrderDirection.ASC,
+    ).orderBy('username', OrderDirection.DESC);
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+
+    expect(qb.getSql()).toContain(
+      `ORDER BY "${criteria.alias}_email" ASC NULLS LAST, "${criteria.alias}_permissionCount" ASC NULLS LAST, "${criteria.alias}_username" DESC NULLS LAST`,
+    );
+    expect(qb.getSql()).toContain(
+      `INNER JOIN "permission_user" "${criteria.alias}_permissions_pivot"`,
+    );
+    const { raw } = await qb.getRawAndEntities();
+    for (const row of raw) {
+      const user = actualUsersFromDB.find(
+        (user) => user.uuid === row[`${criteria.alias}_uuid`],
+      )!;
+      expect(row[`${criteria.alias}_permissionCount`]).toBe(
+        String(user.permissions.length),
+      );
+    }
+  });
+
+  it('should order a taken page with joins by the latest related date', async () => {
+    const criteria = orderByRelationAggregate(
+      CriteriaFactory.GetCriteria(CriteriaPostSchema).join(
+        'publisher',
+        CriteriaFactory.GetInnerJoinCriteria(CriteriaUserSchema),
+      ),
+      'lastCommentAt',
+      { relation: 'comments', function: 'MAX', field: 'created_at' },
+      OrderDirection.DESC,
+    )
+      .orderBy('uuid', OrderDirection.ASC)
+      .setTake(5);
+    const qb = await TypeORMUtils.getQueryBuilderFor<Post>(
+      PostEntity,
+      criteria.alias,
+    );
+    translator.translate(criteria, qb);
+    const posts = await qb.getMany();
+
+    const expectedPosts = actualPostsFromDB
+      .filter((post) => post.publisher)
+      .sort(
+        (a, b) =>
+          latestCommentTime(b) - latestCommentTime(a) ||
+          a.uuid.localeCompare(b.uuid),
+      )
+      .slice(0, 5);
+    expect(posts.map((post) => post.uuid)).toEqual(
+      expectedPosts.map((post) => post.uuid),
+    );
+    expect(posts.every((post) => post.publisher)).toBe(true);
+  });
+
+  it('should paginate with the aggregate as a keyset cursor field, forward and backward', async () => {
+    const expectedUsers = usersByPostCount();
+    const cursorUser = expectedUsers[2]!;
+    const buildCriteria = (before: boolean) =>
+      setKeysetCursor(
+        orderByRelationAggregate(
+          CriteriaFactory.GetCriteria(CriteriaUserSchema),
+          'postCount',
+          { relation: 'posts', function: 'COUNT' },
+          OrderDirection.DESC,
+        ).orderBy('uuid', OrderDirection.ASC),
+        [
+          { field: 'postCount', value: cursorUser.posts.length },
+          { field: 'uuid', value: cursorUser.uuid },
+        ],
+        FilterOperator.LESS_THAN,
+        OrderDirection.DESC,
+        { before },
+      ).setTake(3);
+
+    const nextCriteria = buildCriteria(false);
+    const nextQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      nextCriteria.alias,
+    );
+    translator.translate(nextCriteria, nextQb);
+    expect(nextQb.getSql()).toContain(
+      `WHERE (((((SELECT COUNT(*) FROM "post" "${nextCriteria.alias}_posts" WHERE "${nextCriteria.alias}_posts"."user_uuid" = "${nextCriteria.alias}"."uuid") < $1`,
+    );
+    expect((await nextQb.getMany()).map((user) => user.uuid)).toEqual(
+      expectedUsers.slice(3, 6).map((user) => user.uuid),
+    );
+
+    const previousCriteria = buildCriteria(true);
+    const previousQb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      previousCriteria.alias,
+    );
+    translator.translate(previousCriteria, previousQb);
+    expect(
+      restorePageOrder(previousCriteria, await previousQb.getMany()).map(
+        (user) => user.uuid,
+      ),
+    ).toEqual(expectedUsers.slice(0, 2).map((user) => user.uuid));
+  });
+
+  it('should build the same ordering and cursor in raw SQL', async () => {
+    const expectedUsers = usersByPostCount();
+    const cursorUser = expectedUsers[1]!;
+    const criteria = setKeysetCursor(
+      orderByRelationAggregate(
+        CriteriaFactory.GetCriteria(CriteriaUserSchema),
+        'postCount',
+        { relation: 'posts', function: 'COUNT' },
+        OrderDirection.DESC,
+      ).orderBy('uuid', OrderDirection.ASC),
+      [
+        { field: 'postCount', value: cursorUser.posts.length },
+        { field: 'uuid', value: cursorUser.uuid },
+      ],
+      FilterOperator.LESS_THAN,
+      OrderDirection.DESC,
+    ).setTake(4);
+
+    const { sql, values } = translator.translateToSql(criteria);
+    expect(sql).toContain(
+      `ORDER BY "users_postCount" DESC NULLS LAST, "users"."uuid" ASC NULLS LAST`,
+    );
+
+    const rows: ObjectLiteral[] = await dataSource.query(sql, values);
+    expect(rows.map((row) => row.users_uuid)).toEqual(
+      expectedUsers.slice(2, 6).map((user) => user.uuid),
+    );
+    expect(rows.map((row) => row.users_postCount)).toEqual(
+      expectedUsers.slice(2, 6).map((user) => String(user.posts.length)),
+    );
+  });
+
+  it('should reject invalid relation aggregate orderings', async () => {
+    const criteria = CriteriaFactory.GetCriteria(CriteriaUserSchema);
+    expect(() =>
+      orderByRelationAggregate(
+        criteria,
+        'post count',
+        { relation: 'posts', function: 'COUNT' },
+        OrderDirection.ASC,
+      ),
+    ).toThrow(
+      "The relation aggregate name 'post count' must only contain letters, digits and underscores.",
+    );
+    expect(() =>
+      orderByRelationAggregate(
+        criteria,
+        'email',
+        { relation: 'posts', function: 'COUNT' },
+        OrderDirection.ASC,
+      ),
+    ).toThrow("The name 'email' is already used in the criteria of 'user'.");
+    expect(() =>
+      orderByRelationAggregate(
+        criteria,
+        'likeCount',
+        { relation: 'likes', function: 'COUNT' },
+        OrderDirection.ASC,
+      ),
+    ).toThrow("The relation 'likes' is not defined in the schema 'user'.");
+    expect(() =>
+      orderByRelationAggregate(
+        criteria,
+        'lastPostAt',
+        { relation: 'posts', function: 'MAX' },
+        OrderDirection.ASC,
+      ),
+    ).toThrow('The aggregate function MAX requires a field.');
+
+    orderByRelationAggregate(
+      criteria,
+      'maxViews',
+      { relation: 'posts', function: 'MAX', field: 'views' },
+      OrderDirection.DESC,
+    );
+    expect(() =>
+      setKeysetCursor(
+        criteria,
+        [{ field: 'maxViews', value: 1 }],
+        FilterOperator.LESS_THAN,
+        OrderDirection.DESC,
+      ),
+    ).toThrow(
+      "A keyset cursor must have at least one field of the schema 'user', besides relation aggregates.",
+    );
+    expect(() =>
+      new CursorCodec({ secret: 'test-secret' }).encode(
+        criteria,
+        actualUsersFromDB[0]!,
+      ),
+    ).toThrow(
+      'Cursor tokens cannot be created for criteria ordered by relation aggregates: set their cursors with setKeysetCursor.',
+    );
+    const qb = await TypeORMUtils.getQueryBuilderFor<User>(
+      UserEntity,
+      criteria.alias,
+    );
+    expect(() => translator.translate(criteria, qb)).toThrow(
+      "The field 'views' is not defined in the entity of the relation 'posts'.",
+    );
+  });
+});
@@ -0,0 +1,9 @@
+import { DataSource } from 'typeorm';
+import { DbDatasourceConfigForTests } from './type-orm.utils.js';
+
+/**
+ * DataSource module loaded by the generate-criteria-schemas script in the tests.
+ */
+export const SchemaGeneratorDataSource = new DataSource(
+  DbDatasourceConfigForTests,
+);
@@ -91,6 +91,7 @@ export async function seedDatabaseService() {
   await queryRunner.connect();
   const allFakeData = generateFakeData();
   try {
+    await queryRunner.query('CREATE EXTENSION IF NOT EXISTS pg_trgm');
     const manager = queryRunner.manager;
     await manager.getRepository(PostCommentEntity).deleteAll();
     await manager.getRepository(EventEntitySchema).deleteAll();
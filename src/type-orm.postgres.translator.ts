@@ -1,4 +1,11 @@
-import { Brackets, type ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import {
+  Brackets,
+  type DataSource,
+  type ObjectLiteral,
+  type QueryRunner,
+  SelectQueryBuilder,
+  type WhereExpressionBuilder,
+} from 'typeorm';
 import {
   CriteriaTranslator,
   type CriteriaSchema,
@@ -14,89 +21,463 @@ import {
   InnerJoinCriteria,
   SelectType,
 } from '@nulledexp/translatable-criteria';
+import type { TypeOrmConditionFragment } from './utils/type-orm-filter-fragment-builder.js';
 import {
-  TypeOrmFilterFragmentBuilder,
-  type TypeOrmConditionFragment,
-} from './utils/type-orm-filter-fragment-builder.js';
-import { TypeOrmConditionBuilder } from './utils/type-orm-condition-builder.js';
-import { TypeOrmJoinApplier } from './utils/type-orm-join-applier.js';
-import { QueryState } from './utils/query-state.js';
-import { QueryApplier } from './utils/query-applier.js';
+  TypeOrmTranslationContext,
+  type TranslationMode,
+} from './utils/type-orm-translation-context.js';
 import { TypeOrmParameterManager } from './utils/type-orm-parameter-manager.js';
+import {
+  FilterOperatorHandlerRegistry,
+  type OperatorHandlerRegistration,
+} from './utils/filter-operator-handler-registry.js';
+import {
+  PostgresRawSqlBuilder,
+  type RawSqlQuery,
+} from './utils/postgres-raw-sql-builder.js';
+import type { CursorCodec } from './utils/cursor-codec.js';
+import { isSubqueryJoin } from './utils/join-strategy.js';
+import { hasRelationAggregateOrders } from './utils/relation-aggregate-order.js';
+import {
+  buildFullTextSearchCondition,
+  buildFullTextSearchRank,
+  isOrderedBySearchRank,
+} from './utils/full-text-search.js';
+import {
+  buildSimilarityOrders,
+  hasSimilarityOrders,
+} from './utils/similarity-order.js';
+import type { ComputedOrder } from './utils/computed-order.js';
+import {
+  type Aggregation,
+  TypeOrmAggregationApplier,
+} from './utils/type-orm-aggregation-applier.js';
+import {
+  hasCursor,
+  hasOrderings,
+  pagesBeforeCursor,
+  restorePageOrder,
+} from './utils/keyset-cursor.js';
+
+/**
+ * Options for TypeOrmPostgresTranslator.
+ */
+export type TypeOrmPostgresTranslatorOptions = {
+  /**
+   * Prefix of the generated parameter names (`<prefix>_0`, `<prefix>_1`, ...).
+   * Defaults to `param`.
+   */
+  parameterPrefix?: string;
+  /**
+   * How translations compose with the clauses already on the source query builder.
+   * Defaults to `replace`.
+   */
+  mode?: TranslationMode;
+  /**
+   * When true, a join whose relation is already joined from the same parent alias on the
+   * source query builder is attached to that join instead of being added again under a new alias.
+   * Defaults to `false`.
+   */
+  reuseExistingJoins?: boolean;
+  /**
+   * Filter operator handlers registered on top of the built-in ones.
+   * A registration without `sourceName` and `field` overrides the operator for every filter,
+   * otherwise it only applies to the filters of that schema and/or field.
+   */
+  operatorHandlers?: ReadonlyArray<OperatorHandlerRegistration>;
+};
+
+/**
+ * Options for TypeOrmPostgresTranslator.paginate.
+ */
+export type PaginateOptions = {
+  /**
+   * When true, the page is returned with the total number of rows matching the criteria.
+   * Defaults to `false`.
+   */
+  withTotal?: boolean;
+  /**
+   * Codec of the returned cursors. Without it, `nextCursor` and `previousCursor` are null.
+   */
+  cursorCodec?: CursorCodec;
+  /**
+   * Query runner to execute the queries on. When counting or looking behind a cursor or a skip, the queries
+   * run in its active transaction, or in a `REPEATABLE READ` transaction started for them.
+   * Defaults to a query runner created and released by `paginate`.
+   */
+  queryRunner?: QueryRunner;
+};
+
+/**
+ * A page of rows fetched by TypeOrmPostgresTranslator.paginate.
+ */
+export type Page<T> = {
+  /** The rows of the page, in criteria order. */
+  items: T[];
+  /** The number of rows matching the criteria, when requested with `withTotal`. */
+  total?: number;
+  /**
+   * Whether there are rows after this page. When paginating forward, one extra row is fetched;
+   * when paginating backward, one row on the other side of the cursor is looked up.
+   */
+  hasNextPage: boolean;
+  /**
+   * Whether there are rows before this page. When paginating backward, one extra row is fetched;
+   * when paginating forward from a cursor or a skip, one row before them is looked up.
+   */
+  hasPreviousPage: boolean;
+  /**
+   * The token of the page after this one, or null if there is none, no `cursorCodec` was given,
+   * the criteria is not ordered, or it is ordered by relation aggregates, similarities or a search rank (whose values are not in the hydrated rows).
+   */
+  nextCursor: string | null;
+  /** The token of the page before this one, or null in the same cases as `nextCursor`. */
+  previousCursor: string | null;
+};
 
 /**
  * Translates a Criteria object into a TypeORM SelectQueryBuilder for PostgreSQL.
  * Orchestrates query building by delegating to specialized helpers.
+ * The translator holds no per-query state: each translation runs on its own
+ * TypeOrmTranslationContext, so a single instance can be shared and reentered.
  */
 export class TypeOrmPostgresTranslator<
   T extends ObjectLiteral,
 > extends CriteriaTranslator<
-  SelectQueryBuilder<T>,
+  TypeOrmTranslationContext<T>,
   SelectQueryBuilder<T>,
   TypeOrmConditionFragment
 > {
-  private _parameterManager: TypeOrmParameterManager;
-  private _filterFragmentBuilder: TypeOrmFilterFragmentBuilder;
-  private _conditionBuilder: TypeOrmConditionBuilder;
-  private _joinApplier: TypeOrmJoinApplier<T>;
-  private _queryState: QueryState;
-  private _queryApplier: QueryApplier<T>;
-
-  constructor() {
+  private readonly _parameterPrefix: string;
+  private readonly _mode: TranslationMode;
+  private readonly _reuseExistingJoins: boolean;
+  private readonly _handlerRegistry: FilterOperatorHandlerRegistry;
+
+  /**
+   * @param options Translator options.
+   * @throws Error if `parameterPrefix` is not a valid parameter identifier.
+   */
+  constructor(options: TypeOrmPostgresTranslatorOptions = {}) {
     super();
-    this._parameterManager = new TypeOrmParameterManager();
-    this._filterFragmentBuilder = new TypeOrmFilterFragmentBuilder(
-      this._parameterManager,
-    );
-    this._conditionBuilder = new TypeOrmConditionBuilder(
-      this._parameterManager,
-      this._filterFragmentBuilder,
-    );
-    this._queryState = new QueryState();
-    this._queryApplier = new QueryApplier<T>(
-      this._conditionBuilder,
-      this._queryState,
-    );
-    this._joinApplier = new TypeOrmJoinApplier<T>(
-      this._conditionBuilder,
-      this._queryState,
+    this._parameterPrefix = options.parameterPrefix ?? 'param';
+    TypeOrmParameterManager.assertValidPrefix(this._parameterPrefix);
+    this._mode = options.mode ?? 'replace';
+    this._reuseExistingJoins = options.reuseExistingJoins ?? false;
+    this._handlerRegistry = new FilterOperatorHandlerRegistry(
+      options.operatorHandlers,
     );
   }
 
   /**
    * Main entry point. Translates RootCriteria into a TypeORM SelectQueryBuilder.
    * @param criteria The RootCriteria to translate.
-   * @param source The initial SelectQueryBuilder.
+   * @param source The initial SelectQueryBuilder, or a TypeOrmTranslationContext created for it
+   * to share a parameter manager with an enclosing translation. Only the query builder and the
+   * parameter manager of the context are used: the mode, join reuse and handlers are the translator's.
    * @returns The modified SelectQueryBuilder.
    */
   public override translate<RootCriteriaSchema extends CriteriaSchema>(
     criteria: RootCriteria<RootCriteriaSchema>,
-    source: SelectQueryBuilder<T>,
+    source: SelectQueryBuilder<T> | TypeOrmTranslationContext<T>,
   ): SelectQueryBuilder<T> {
-    this._queryState.reset();
-    this._queryState.resolveSelects(criteria.alias, criteria);
-    criteria.accept(this, source);
-    this._queryState.collectCursor(criteria.alias, criteria.cursor);
+    return this.translateRows(criteria, source, false);
+  }
 
-    this._queryState.recordOrderBy(criteria.orders, criteria.alias);
+  /**
+   * Translates RootCriteria into the query of its rows, or of the rows its cursors skip past.
+   * @param criteria The RootCriteria to translate.
+   * @param source The initial SelectQueryBuilder or translation context.
+   * @param cursorOtherSide True to keep the rows on the other side of the cursors.
+   * @returns The modified SelectQueryBuilder.
+   */
+  private translateRows(
+    criteria: RootCriteria<any>,
+    source: SelectQueryBuilder<T> | TypeOrmTranslationContext<T>,
+    cursorOtherSide: boolean,
+  ): SelectQueryBuilder<T> {
+    const context = this.createContext(source);
+    const qb = context.queryBuilder;
+
+    context.queryState.resolveSelects(criteria.alias, criteria);
+    criteria.accept(this, context);
+    context.queryState.collectCursor(criteria.alias, criteria.cursor);
+
+    context.queryState.recordOrderBy(criteria.orders, criteria.alias);
+    context.joinApplier.recordRelationAggregateOrders(
+      qb,
+      criteria,
+      criteria.alias,
+    );
+    const searchRank = buildFullTextSearchRank(
+      criteria,
+      criteria.alias,
+      (alias, field) => `${alias}.${field}`,
+      context.parameterManager,
+    );
+    this.recordExpressionOrders(
+      searchRank ? [searchRank] : [],
+      criteria.alias,
+      context,
+    );
+    this.recordSimilarityOrders(criteria, criteria.alias, context);
 
     if (criteria.take > 0) {
-      source.take(criteria.take);
+      qb.take(criteria.take);
     }
     if (criteria.skip > 0 && !criteria.cursor) {
-      source.skip(criteria.skip);
+      qb.skip(criteria.skip);
     }
 
-    for (const joinDetail of criteria.joins) {
-      joinDetail.criteria.accept(this, joinDetail.parameters, source);
+    this.visitRootJoins(criteria, context);
+
+    context.queryApplier.applyCursors(qb, cursorOtherSide);
+    this.applyRelationIdLoading(criteria, qb);
+    context.queryApplier.applyOrderBy(qb);
+    context.queryApplier.applySelects(qb);
+
+    return qb;
+  }
+
+  /**
+   * Translates RootCriteria into a count query over the same row set as `translate`.
+   * Root filters, join ON conditions and inner-join semantics are applied, while
+   * take/skip, cursors, ordering and selections are left out.
+   * @param criteria The RootCriteria to translate.
+   * @param source The initial SelectQueryBuilder.
+   * @returns The modified SelectQueryBuilder, selecting `COUNT(DISTINCT <root identifier>)` as `count`.
+   */
+  public translateCount<RootCriteriaSchema extends CriteriaSchema>(
+    criteria: RootCriteria<RootCriteriaSchema>,
+    source: SelectQueryBuilder<T> | TypeOrmTranslationContext<T>,
+  ): SelectQueryBuilder<T> {
+    const context = this.createContext(source);
+    const qb = context.queryBuilder;
+
+    criteria.accept(this, context);
+    this.visitRootJoins(criteria, context);
+
+    qb.select(
+      `COUNT(DISTINCT ${criteria.alias}.${String(criteria.identifierField)})`,
+      'count',
+    );
+
+    return qb;
+  }
+
+  /**
+   * Translates RootCriteria into a grouped aggregate query over the same row set as `translateCount`.
+   * Root filters, join ON conditions and inner-join semantics are applied, while
+   * take/skip, cursors, ordering and selections are left out.
+   * @param criteria The RootCriteria to translate.
+   * @param source The initial SelectQueryBuilder.
+   * @param aggregation The groups, aggregates and HAVING conditions to select.
+   * @returns The modified SelectQueryBuilder, selecting a column per group and aggregate name.
+   * Its raw rows are typed by `AggregateRow<typeof aggregation>`.
+   * @throws Error if the aggregation is empty, reuses a name, or references an unknown field, relation or aggregate.
+   */
+  public translateAggregate<
+    RootCriteriaSchema extends CriteriaSchema,
+    const TAggregation extends Aggregation,
+  >(
+    criteria: RootCriteria<RootCriteriaSchema>,
+    source: SelectQueryBuilder<T> | TypeOrmTranslationContext<T>,
+    aggregation: TAggregation,
+  ): SelectQueryBuilder<T> {
+    const context = this.createContext(source);
+    const qb = context.queryBuilder;
+
+    // The aggregation can group or aggregate by any field of a join, so ID_ONLY joins are not skipped.
+    context.joinApplier.disableJoinOptimization();
+    criteria.accept(this, context);
+    this.visitRootJoins(criteria, context);
+
+    new TypeOrmAggregationApplier<T>(
+      context.queryState,
+      context.parameterManager,
+      context.handlerRegistry,
+    ).apply(qb, criteria, aggregation);
+
+    return qb;
+  }
+
+  /**
+   * Translates RootCriteria into a raw PostgreSQL query, without a SelectQueryBuilder.
+   * Table names are taken from the CriteriaSchema (`source_name`, `relations`), and so are column names
+   * unless a DataSource is given to map fields to the columns of their entities.
+   * With joins, `take` and `skip` page the distinct root rows, like `translate`.
+   * @param criteria The RootCriteria to translate.
+   * @param dataSource An initialized DataSource, to map fields (entity properties) to their column names.
+   * @returns The SQL string with `$1..$n` placeholders and the values in matching order.
+   */
+  public translateToSql<RootCriteriaSchema extends CriteriaSchema>(
+    criteria: RootCriteria<RootCriteriaSchema>,
+    dataSource?: DataSource,
+  ): RawSqlQuery {
+    return new PostgresRawSqlBuilder(this._handlerRegistry, dataSource).build(
+      criteria,
+    );
+  }
+
+  /**
+   * Translates and executes RootCriteria, returning a page of rows with its page info.
+   * One row more than `take` is fetched to know whether there is a page beyond this one, and when
+   * the criteria has a cursor or a skip, one row on their other side is looked up.
+   * Works for offset criteria (`setSkip`) and keyset criteria (cursors, including `before` cursors):
+   * the returned cursors are tokens of `cursorCodec`, to be applied on the next request.
+   * @param criteria The RootCriteria to paginate.
+   * @param source The initial SelectQueryBuilder. The count and look-behind queries are translated on clones taken before translation.
+   * @param options Pagination options.
+   * @returns The page of hydrated entities.
+   */
+  public async paginate<RootCriteriaSchema extends CriteriaSchema>(
+    criteria: RootCriteria<RootCriteriaSchema>,
+    source: SelectQueryBuilder<T>,
+    options: PaginateOptions = {},
+  ): Promise<Page<T>> {
+    const countQb = options.withTotal ? source.clone() : undefined;
+    const lookBehindQb =
+      hasCursor(criteria) || criteria.skip > 0
+        ? this.translateRows(criteria, source.clone(), true)
+            .skip(undefined)
+            .take(1)
+        : undefined;
+    const qb = this.translate(criteria, source);
+    if (criteria.take > 0) {
+      qb.take(criteria.take + 1);
+    }
+
+    const { rows, total, startsAfterRows } = await this.runPageQueries(
+      criteria,
+      qb,
+      options,
+      countQb,
+      lookBehindQb,
+    );
+
+    const hasMoreRows = criteria.take > 0 && rows.length > criteria.take;
+    const items = restorePageOrder(
+      criteria,
+      hasMoreRows ? rows.slice(0, criteria.take) : rows,
+    );
+    const paginatesBackward = pagesBeforeCursor(criteria);
+    const hasNextPage = paginatesBackward ? startsAfterRows : hasMoreRows;
+    const hasPreviousPage = paginatesBackward ? hasMoreRows : startsAfterRows;
+
+    const codec = options.cursorCodec;
+    const canEncodeCursors =
+      codec !== undefined &&
+      hasOrderings(criteria) &&
+      !hasRelationAggregateOrders(criteria) &&
+      !hasSimilarityOrders(criteria) &&
+      !isOrderedBySearchRank(criteria);
+    return {
+      items,
+      ...(total !== undefined ? { total } : {}),
+      hasNextPage,
+      hasPreviousPage,
+      nextCursor:
+        hasNextPage && canEncodeCursors
+          ? codec.nextPageToken(criteria, items)
+          : null,
+      previousCursor:
+        hasPreviousPage && canEncodeCursors
+          ? codec.previousPageToken(criteria, items)
+          : null,
+    };
+  }
+
+  /**
+   * Runs the page query and, when given, the count and look-behind queries,
+   * sharing a query runner and its REPEATABLE READ transaction.
+   */
+  private async runPageQueries(
+    criteria: RootCriteria<any>,
+    qb: SelectQueryBuilder<T>,
+    options: PaginateOptions,
+    countQb?: SelectQueryBuilder<T>,
+    lookBehindQb?: SelectQueryBuilder<T>,
+  ): Promise<{ rows: T[]; total?: number; startsAfterRows: boolean }> {
+    if (!countQb && !lookBehindQb) {
+      if (options.queryRunner) {
+        qb.setQueryRunner(options.queryRunner);
+      }
+      return { rows: await qb.getMany(), startsAfterRows: false };
+    }
+
+    const queryRunner =
+      options.queryRunner ?? qb.dataSource.createQueryRunner();
+    const startsTransaction = !queryRunner.isTransactionActive;
+    try {
+      if (startsTransaction) {
+        await queryRunner.startTransaction('REPEATABLE READ');
+      }
+      const rows = await qb.setQueryRunner(queryRunner).getMany();
+      const countResult = countQb
+        ? await this.translateCount(
+            criteria,
+            countQb.setQueryRunner(queryRunner),
+          ).getRawOne()
+        : undefined;
+      const rowBehind = lookBehindQb
+        ? await lookBehindQb.setQueryRunner(queryRunner).getOne()
+        : null;
+      if (startsTransaction) {
+        await queryRunner.commitTransaction();
+      }
+      return {
+        rows,
+        ...(countQb ? { total: Number(countResult?.count ?? 0) } : {}),
+        startsAfterRows: rowBehind !== null,
+      };
+    } catch (error) {
+      if (startsTransaction && queryRunner.isTransactionActive) {
+        await queryRunner.rollbackTransaction();
+      }
+      throw error;
+    } finally {
+      if (!options.queryRunner) {
+        await queryRunner.release();
+      }
     }
+  }
 
-    this._queryApplier.applyCursors(source);
-    this.applyRelationIdLoading(criteria, source);
-    this._queryApplier.applyOrderBy(source);
-    this._queryApplier.applySelects(source);
+  /**
+   * Creates the translation context for a call, with the translator's mode, join reuse and handlers.
+   * Of a provided context, only the query builder and the parameter manager are used.
+   * Generated parameter names skip those already set on the query builder.
+   */
+  private createContext(
+    source: SelectQueryBuilder<T> | TypeOrmTranslationContext<T>,
+  ): TypeOrmTranslationContext<T> {
+    if (source instanceof TypeOrmTranslationContext) {
+      return TypeOrmTranslationContext.forQueryBuilder<T>(
+        source.queryBuilder,
+        source.parameterManager,
+        this._mode,
+        this._reuseExistingJoins,
+        this._handlerRegistry,
+      );
+    }
 
-    return source;
+    return TypeOrmTranslationContext.forQueryBuilder<T>(
+      source,
+      TypeOrmParameterManager.forQueryBuilder(source, this._parameterPrefix),
+      this._mode,
+      this._reuseExistingJoins,
+      this._handlerRegistry,
+    );
+  }
+
+  /**
+   * Visits the first-level joins of the root criteria.
+   */
+  private visitRootJoins(
+    criteria: RootCriteria<any>,
+    context: TypeOrmTranslationContext<T>,
+  ): void {
+    for (const joinDetail of criteria.joins) {
+      joinDetail.criteria.accept(this, joinDetail.parameters, context);
+    }
   }
 
   /**
@@ -118,11 +499,17 @@ export class TypeOrmPostgresTranslator<
 
   private collectRelationIds(
     criteria:
-      RootCriteria<any> | InnerJoinCriteria<any> | LeftJoinCriteria<any>,
+      | RootCriteria<any>
+      | InnerJoinCriteria<any>
+      | LeftJoinCriteria<any>
+      | OuterJoinCriteria<any>,
     pathPrefix: string,
     collector: string[],
   ) {
     for (const joinDetail of criteria.joins) {
+      if (isSubqueryJoin(joinDetail.criteria)) {
+        continue;
+      }
       const currentPath = pathPrefix
         ? `${pathPrefix}.${joinDetail.parameters.relation_alias}`
         : joinDetail.parameters.relation_alias;
@@ -141,46 +528,139 @@ export class TypeOrmPostgresTranslator<
   public visitFilter<FieldType extends string, Operator extends FilterOperator>(
     filter: Filter<FieldType, Operator>,
     currentAlias: string,
+    context: TypeOrmTranslationContext<T>,
   ): TypeOrmConditionFragment {
-    return this._filterFragmentBuilder.build(filter, currentAlias);
+    return context.filterFragmentBuilder.build(filter, currentAlias);
   }
 
   /**
-   * Applies the root filter group to the query builder.
+   * Applies the root filter group and the full-text search to the query builder.
+   * They are AND-ed with the existing conditions when the query already has WHERE clauses (append mode).
    */
   public visitRoot<RootCriteriaSchema extends CriteriaSchema>(
     criteria: RootCriteria<RootCriteriaSchema>,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ): void {
+    context.groupExistingWhereClauses();
+    context.queryState.registerAliasSourceName(
+      criteria.alias,
+      criteria.sourceName,
+    );
+    context.queryState.registerCriteriaAlias(criteria, criteria.alias);
     if (criteria.rootFilterGroup.items.length > 0) {
       const rootBracket = new Brackets((bracketQb) => {
-        this._conditionBuilder.processGroupItems(
+        context.conditionBuilder.processGroupItems(
           criteria.rootFilterGroup.items,
           criteria.alias,
           bracketQb,
           criteria.rootFilterGroup.logicalOperator,
-          this,
+          this.groupVisitorFor(context),
         );
       });
-      qb.where(rootBracket);
-      this._queryState.setQueryHasWhereClauses(true);
+      if (context.queryState.hasWhereClauses()) {
+        context.queryBuilder.andWhere(rootBracket);
+      } else {
+        context.queryBuilder.where(rootBracket);
+      }
+      context.queryState.setQueryHasWhereClauses(true);
+    }
+    const search = buildFullTextSearchCondition(
+      criteria,
+      criteria.alias,
+      (alias, field) => `${alias}.${field}`,
+      context.parameterManager,
+    );
+    if (search) {
+      if (context.queryState.hasWhereClauses()) {
+        context.queryBuilder.andWhere(search.queryFragment, search.parameters);
+      } else {
+        context.queryBuilder.where(search.queryFragment, search.parameters);
+      }
+      context.queryState.setQueryHasWhereClauses(true);
+    }
+  }
+
+  /**
+   * Records the similarity orderings of a criteria under its alias.
+   */
+  private recordSimilarityOrders(
+    criteria:
+      | RootCriteria<any>
+      | InnerJoinCriteria<any>
+      | LeftJoinCriteria<any>
+      | OuterJoinCriteria<any>,
+    alias: string,
+    context: TypeOrmTranslationContext<T>,
+  ): void {
+    this.recordExpressionOrders(
+      buildSimilarityOrders(
+        criteria,
+        alias,
+        (currentAlias, field) => `${currentAlias}.${field}`,
+        context.parameterManager,
+      ),
+      alias,
+      context,
+    );
+  }
+
+  /**
+   * Records orderings by computed expressions, binding their parameters to the query builder.
+   */
+  private recordExpressionOrders(
+    orders: ReadonlyArray<TypeOrmConditionFragment & { order: ComputedOrder }>,
+    alias: string,
+    context: TypeOrmTranslationContext<T>,
+  ): void {
+    for (const { order, queryFragment, parameters } of orders) {
+      context.queryBuilder.setParameters(parameters);
+      context.queryState.recordOrderExpression(order, queryFragment, alias);
     }
   }
 
+  /**
+   * Binds the group visitors to a translation context. The condition builder calls them
+   * with the query builder of a nested `Brackets` group, which gets its own derived context.
+   */
+  private groupVisitorFor(context: TypeOrmTranslationContext<T>) {
+    return {
+      visitAndGroup: (
+        group: FilterGroup<any>,
+        currentAlias: string,
+        bracketQb: WhereExpressionBuilder,
+      ) =>
+        this.visitAndGroup(
+          group,
+          currentAlias,
+          context.withWhereBuilder(bracketQb),
+        ),
+      visitOrGroup: (
+        group: FilterGroup<any>,
+        currentAlias: string,
+        bracketQb: WhereExpressionBuilder,
+      ) =>
+        this.visitOrGroup(
+          group,
+          currentAlias,
+          context.withWhereBuilder(bracketQb),
+        ),
+    };
+  }
+
   /**
    * Processes an AND logical group.
    */
   public visitAndGroup<FieldType extends string>(
     group: FilterGroup<FieldType>,
     currentAlias: string,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ) {
-    this._conditionBuilder.processGroupItems(
+    context.conditionBuilder.processGroupItems(
       group.items,
       currentAlias,
-      qb,
+      context.whereBuilder,
       LogicalOperator.AND,
-      this,
+      this.groupVisitorFor(context),
     );
   }
 
@@ -190,14 +670,14 @@ export class TypeOrmPostgresTranslator<
   public visitOrGroup<FieldType extends string>(
     group: FilterGroup<FieldType>,
     currentAlias: string,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ) {
-    this._conditionBuilder.processGroupItems(
+    context.conditionBuilder.processGroupItems(
       group.items,
       currentAlias,
-      qb,
+      context.whereBuilder,
       LogicalOperator.OR,
-      this,
+      this.groupVisitorFor(context),
     );
   }
 
@@ -212,9 +692,9 @@ export class TypeOrmPostgresTranslator<
     parameters:
       | PivotJoin<ParentCSchema, JoinCriteriaSchema>
       | SimpleJoin<ParentCSchema, JoinCriteriaSchema>,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ) {
-    this.applyJoinAndVisitChildren('inner', criteria, parameters, qb);
+    this.applyJoinAndVisitChildren('inner', criteria, parameters, context);
   }
 
   /**
@@ -228,9 +708,9 @@ export class TypeOrmPostgresTranslator<
     parameters:
       | PivotJoin<ParentCSchema, JoinCriteriaSchema>
       | SimpleJoin<ParentCSchema, JoinCriteriaSchema>,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ) {
-    this.applyJoinAndVisitChildren('left', criteria, parameters, qb);
+    this.applyJoinAndVisitChildren('left', criteria, parameters, context);
   }
 
   /**
@@ -240,26 +720,42 @@ export class TypeOrmPostgresTranslator<
     ParentCSchema extends CriteriaSchema,
     JoinCriteriaSchema extends CriteriaSchema,
   >(
-    joinType: 'inner' | 'left',
+    joinType: 'inner' | 'left' | 'full',
     criteria:
       | InnerJoinCriteria<JoinCriteriaSchema>
-      | LeftJoinCriteria<JoinCriteriaSchema>,
+      | LeftJoinCriteria<JoinCriteriaSchema>
+      | OuterJoinCriteria<JoinCriteriaSchema>,
     parameters:
       | PivotJoin<ParentCSchema, JoinCriteriaSchema>
       | SimpleJoin<ParentCSchema, JoinCriteriaSchema>,
-    qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ) {
-    const { usedAlias } = this._joinApplier.applyJoinLogic(
-      qb,
+    if (isSubqueryJoin(criteria)) {
+      context.joinApplier.applySubqueryJoin(
+        context.queryBuilder,
+        criteria,
+        parameters,
+      );
+      return;
+    }
+    const { usedAlias } = context.joinApplier.applyJoinLogic(
+      context.queryBuilder,
       joinType,
       criteria,
       parameters,
     );
+    context.queryState.registerCriteriaAlias(criteria, usedAlias);
+    context.joinApplier.recordRelationAggregateOrders(
+      context.queryBuilder,
+      criteria,
+      usedAlias,
+    );
+    this.recordSimilarityOrders(criteria, usedAlias, context);
     for (const joinDetail of criteria.joins) {
       joinDetail.criteria.accept(
         this,
         { ...joinDetail.parameters, parent_alias: usedAlias },
-        qb,
+        context,
       );
     }
   }
@@ -271,14 +767,12 @@ export class TypeOrmPostgresTranslator<
     ParentCSchema extends CriteriaSchema,
     JoinCriteriaSchema extends CriteriaSchema,
   >(
-    _criteria: OuterJoinCriteria<JoinCriteriaSchema>,
-    _parameters:
+    criteria: OuterJoinCriteria<JoinCriteriaSchema>,
+    parameters:
       | PivotJoin<ParentCSchema, JoinCriteriaSchema>
       | SimpleJoin<ParentCSchema, JoinCriteriaSchema>,
-    _qb: SelectQueryBuilder<T>,
+    context: TypeOrmTranslationContext<T>,
   ): void {
-    throw new Error(
-      'OuterJoin (FULL OUTER JOIN) is not generically implemented for TypeOrmPostgresTranslator.',
-    );
+    this.applyJoinAndVisitChildren('full', criteria, parameters, context);
   }
 }
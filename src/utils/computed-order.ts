@@ -0,0 +1,80 @@
+import {
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type OrderDirection,
+  type OuterJoinCriteria,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+
+/**
+ * An ordering by a computed SQL expression (such as a relation aggregate or a search rank),
+ * positioned among the criteria orderings by its sequence ID.
+ */
+export type ComputedOrder = {
+  /** The name of the computed value, which is selected as `<alias>_<field>`. */
+  field: string;
+  direction: OrderDirection;
+  nullsFirst: boolean;
+  sequenceId: number;
+};
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * The names of the computed values each criteria is ordered by.
+ */
+const computedNames = new WeakMap<AnyCriteria, Set<string>>();
+
+/**
+ * The number of computed orderings created, which keeps computed orderings in creation order.
+ */
+let computedOrderCount = 0;
+
+/**
+ * Creates an ordering by a computed value, placed right after the orderings already set on the criteria.
+ * Its sequence ID is the sequence ID of the last of them (0 if there is none) plus a fraction below 1
+ * that grows with each computed ordering, so it comes before every `orderBy` called later,
+ * and after the computed orderings created before it.
+ * @param criteria The criteria the ordering belongs to.
+ * @param field The name of the computed value.
+ * @param direction The order direction.
+ * @param nullsFirst Whether NULL values come first.
+ * @returns The ordering.
+ * @throws Error if the name is a field of the schema or already names a computed value of the criteria.
+ */
+export function createComputedOrder(
+  criteria: AnyCriteria,
+  field: string,
+  direction: OrderDirection,
+  nullsFirst: boolean,
+): ComputedOrder {
+  const names = computedNames.get(criteria) ?? new Set<string>();
+  if (criteria.schema.fields.includes(field) || names.has(field)) {
+    throw new Error(
+      `The name '${field}' is already used in the criteria of '${criteria.sourceName}'.`,
+    );
+  }
+  computedNames.set(criteria, names.add(field));
+
+  const lastSequenceId = Math.max(
+    0,
+    ...criteria.orders.map((order) => order.sequenceId),
+  );
+  computedOrderCount++;
+  const sequenceId =
+    lastSequenceId + computedOrderCount / (computedOrderCount + 1);
+  return { field, direction, nullsFirst, sequenceId };
+}
+
+/**
+ * Checks whether a criteria is ordered by a computed value.
+ * @param criteria The root or join criteria.
+ * @returns True if an ordering by a computed value was set on the criteria itself.
+ */
+export function hasComputedOrders(criteria: AnyCriteria): boolean {
+  return (computedNames.get(criteria)?.size ?? 0) > 0;
+}
@@ -0,0 +1,435 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createHmac,
+  randomBytes,
+  timingSafeEqual,
+} from 'node:crypto';
+import type { ObjectLiteral } from 'typeorm';
+import {
+  FilterOperator,
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type Order,
+  OrderDirection,
+  type OuterJoinCriteria,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { type KeysetCursorField, setKeysetCursor } from './keyset-cursor.js';
+import { hasRelationAggregateOrders } from './relation-aggregate-order.js';
+import { isOrderedBySearchRank } from './full-text-search.js';
+import { hasSimilarityOrders } from './similarity-order.js';
+
+/**
+ * Options for CursorCodec.
+ */
+export type CursorCodecOptions = {
+  /**
+   * The secret a key is derived from to authenticate token payloads, so clients cannot alter the cursor values.
+   * Tokens created with another secret are rejected.
+   */
+  secret: string;
+  /**
+   * When true, token payloads are encrypted and authenticated (AES-256-GCM), so clients cannot read the cursor values.
+   * When false, they are only signed (HMAC-SHA256): the values are base64url-encoded JSON that anyone can read.
+   * Defaults to `true`.
+   */
+  encrypt?: boolean;
+};
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * An ordered field of a criteria tree, located by the relation aliases leading to its criteria.
+ */
+type KeysetPart = {
+  criteria: AnyCriteria;
+  path: string[];
+  order: Order<string>;
+};
+
+type EncodedValue = string | number | boolean | null | { $date: string };
+
+type CursorTokenPayload = {
+  /** Fingerprint of the ordering the token was minted for. */
+  f: string;
+  /** The keyset values, in ordering sequence. */
+  k: EncodedValue[];
+  /** Set if the token points to the page before the row. */
+  b?: 1;
+};
+
+type DecodedTokenPayload = Omit<CursorTokenPayload, 'k'> & {
+  k: KeysetCursorField['value'][];
+};
+
+const TOKEN_VERSION = 'v1';
+
+/**
+ * Encodes the keyset position of a row as a versioned, authenticated base64url cursor token,
+ * and applies tokens back as cursors on a criteria and its joins.
+ * Tokens are encrypted by default; signed-only tokens expose the cursor values to anyone who decodes them.
+ *
+ * The keyset is made of the ordered fields of the criteria tree, in `orderBy` sequence.
+ * Tokens carry a fingerprint of that ordering and are rejected by criteria ordered differently.
+ */
+export class CursorCodec {
+  private readonly _key: Buffer;
+  private readonly _encrypt: boolean;
+
+  /**
+   * @param options Codec options.
+   * @throws Error if the secret is empty.
+   */
+  constructor(options: CursorCodecOptions) {
+    if (!options.secret) {
+      throw new Error('CursorCodec requires a non-empty secret.');
+    }
+    this._key = createHash('sha256').update(options.secret).digest();
+    this._encrypt = options.encrypt ?? true;
+  }
+
+  /**
+   * Creates the token pointing right after a row, or right before it.
+   * @param criteria The criteria the row was fetched with.
+   * @param row A hydrated row: joined values are read through their relation aliases (e.g. `row.publisher.username`).
+   * @param before Whether the token points to the page before the row.
+   * @returns The cursor token.
+   * @throws Error if the criteria has no ordering, or if the row misses an ordered field.
+   */
+  public encode(
+    criteria: RootCriteria<any>,
+    row: ObjectLiteral,
+    before: boolean = false,
+  ): string {
+    const parts = this.collectKeysetParts(criteria);
+    const payload: CursorTokenPayload = {
+      f: this.fingerprint(criteria, parts),
+      k: parts.map((part) => this.encodeValue(this.readValue(row, part))),
+      ...(before ? { b: 1 } : {}),
+    };
+    return `${TOKEN_VERSION}.${this.seal(JSON.stringify(payload))}`;
+  }
+
+  /**
+   * Creates the token of the page after the given rows, from its last row.
+   * @param criteria The criteria the rows were fetched with.
+   * @param rows The rows of the current page.
+   * @returns The cursor token, or null if the page is empty.
+   */
+  public nextPageToken(
+    criteria: RootCriteria<any>,
+    rows: ReadonlyArray<ObjectLiteral>,
+  ): string | null {
+    const lastRow = rows[rows.length - 1];
+    return lastRow ? this.encode(criteria, lastRow) : null;
+  }
+
+  /**
+   * Creates the token of the page before the given rows, from its first row.
+   * @param criteria The criteria the rows were fetched with.
+   * @param rows The rows of the current page, in criteria order (see `restorePageOrder`).
+   * @returns The cursor token, or null if the page is empty.
+   */
+  public previousPageToken(
+    criteria: RootCriteria<any>,
+    rows: ReadonlyArray<ObjectLiteral>,
+  ): string | null {
+    const firstRow = rows[0];
+    return firstRow ? this.encode(criteria, firstRow, true) : null;
+  }
+
+  /**
+   * Sets the cursors encoded in a token on the criteria and its joins.
+   * The rows fetched with a previous page token must be passed to `restorePageOrder`.
+   * @param criteria The criteria to paginate. Must have the ordering the token was minted for.
+   * @param token The cursor token.
+   * @returns The same criteria.
+   * @throws Error if the token is malformed, has another version, or was minted for another ordering.
+   */
+  public apply<TCriteria extends RootCriteria<any>>(
+    criteria: TCriteria,
+    token: string,
+  ): TCriteria {
+    const parts = this.collectKeysetParts(criteria);
+    const payload = this.readPayload(token);
+
+    if (payload.f !== this.fingerprint(criteria, parts)) {
+      throw new Error(
+        'Invalid cursor token: it was created for a different ordering.',
+      );
+    }
+    if (payload.k.length !== parts.length) {
+      throw new Error('Invalid cursor token: malformed payload.');
+    }
+
+    const partsByCriteria = new Map<AnyCriteria, KeysetCursorField[]>();
+    parts.forEach((part, index) => {
+      const fields = partsByCriteria.get(part.criteria) ?? [];
+      fields.push({
+        field: part.order.field,
+        value: payload.k[index] ?? null,
+      });
+      partsByCriteria.set(part.criteria, fields);
+    });
+
+    // The translator compares each field according to its own ordering;
+    // the cursor direction is set from the first ordered field of each criteria.
+    for (const [partCriteria, fields] of partsByCriteria) {
+      const direction = parts.find((part) => part.criteria === partCriteria)!
+        .order.direction;
+      setKeysetCursor(
+        partCriteria,
+        fields,
+        direction === OrderDirection.ASC
+          ? FilterOperator.GREATER_THAN
+          : FilterOperator.LESS_THAN,
+        direction,
+        { before: payload.b === 1 },
+      );
+    }
+
+    return criteria;
+  }
+
+  /**
+   * Collects the ordered fields of the criteria tree in ordering sequence.
+   * The fields of a criteria must be consecutive in that sequence, since each criteria holds a single cursor.
+   * Relation aggregates, similarities and search ranks are not read from hydrated rows, so criteria ordered by them are rejected.
+   */
+  private collectKeysetParts(criteria: RootCriteria<any>): KeysetPart[] {
+    if (hasRelationAggregateOrders(criteria)) {
+      throw new Error(
+        'Cursor tokens cannot be created for criteria ordered by relation aggregates: set their cursors with setKeysetCursor.',
+      );
+    }
+    if (hasSimilarityOrders(criteria)) {
+      throw new Error(
+        'Cursor tokens cannot be created for criteria ordered by similarity.',
+      );
+    }
+    if (isOrderedBySearchRank(criteria)) {
+      throw new Error(
+        'Cursor tokens cannot be created for criteria ordered by full-text search rank.',
+      );
+    }
+    const parts: KeysetPart[] = [];
+    const visit = (current: AnyCriteria, path: string[]) => {
+      for (const order of current.orders) {
+        parts.push({ criteria: current, path, order });
+      }
+      for (const joinDetail of current.joins) {
+        visit(joinDetail.criteria, [
+          ...path,
+          joinDetail.parameters.relation_alias,
+        ]);
+      }
+    };
+    visit(criteria, []);
+    parts.sort((a, b) => a.order.sequenceId - b.order.sequenceId);
+
+    if (parts.length === 0) {
+      throw new Error('Cursor tokens require a criteria with orderBy fields.');
+    }
+    const seenCriteria = new Set<AnyCriteria>();
+    parts.forEach((part, index) => {
+      if (index > 0 && parts[index - 1]!.criteria === part.criteria) {
+        return;
+      }
+      if (seenCriteria.has(part.criteria)) {
+        throw new Error(
+          `Cursor tokens require the orderBy fields of '${[criteria.alias, ...part.path].join('.')}' to be consecutive.`,
+        );
+      }
+      seenCriteria.add(part.criteria);
+    });
+
+    return parts;
+  }
+
+  /**
+   * Identifies the ordering of a criteria tree: its source, and the path, field,
+   * direction and null placement of each ordered field.
+   */
+  private fingerprint(criteria: RootCriteria<any>, parts: KeysetPart[]) {
+    const signature = [
+      criteria.sourceName,
+      ...parts.map(
+        ({ path, order }) =>
+          `${[...path, order.field].join('.')}:${order.direction}:${order.nullsFirst ? 'NULLS_FIRST' : 'NULLS_LAST'}`,
+      ),
+    ].join('|');
+    return createHash('sha256')
+      .update(signature)
+      .digest('base64url')
+      .slice(0, 16);
+  }
+
+  /**
+   * Reads the value of an ordered field from a row. A missing related entity
+   * (e.g. an unmatched LEFT JOIN) reads as NULL, as it does in the query.
+   */
+  private readValue(row: ObjectLiteral, part: KeysetPart): unknown {
+    const location = [...part.path, part.order.field].join('.');
+    let current: unknown = row;
+    for (const key of part.path) {
+      if (Array.isArray(current)) {
+        throw new Error(
+          `Cannot create a cursor from '${location}': it belongs to a to-many relation.`,
+        );
+      }
+      current = (current as ObjectLiteral)[key];
+      if (current === null || current === undefined) {
+        return null;
+      }
+    }
+    if (Array.isArray(current)) {
+      throw new Error(
+        `Cannot create a cursor from '${location}': it belongs to a to-many relation.`,
+      );
+    }
+    const value = (current as ObjectLiteral)[part.order.field];
+    if (value === undefined) {
+      throw new Error(
+        `Cannot create a cursor from '${location}': the row has no value for it.`,
+      );
+    }
+    return value;
+  }
+
+  private encodeValue(value: unknown): EncodedValue {
+    if (value instanceof Date) {
+      return { $date: value.toISOString() };
+    }
+    if (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return value;
+    }
+    throw new Error(
+      `Cannot create a cursor from a value of type '${typeof value}'.`,
+    );
+  }
+
+  /**
+   * Decodes a keyset value: a primitive, or a date as `{ $date }` holding the ISO string `encodeValue` writes.
+   * @throws Error if the value is of another shape or holds an invalid date.
+   */
+  private decodeValue(value: unknown): KeysetCursorField['value'] {
+    if (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'boolean' ||
+      (typeof value === 'number' && Number.isFinite(value))
+    ) {
+      return value;
+    }
+    if (
+      typeof value === 'object' &&
+      !Array.isArray(value) &&
+      Object.keys(value).length === 1 &&
+      typeof (value as { $date?: unknown }).$date === 'string'
+    ) {
+      const isoDate = (value as { $date: string }).$date;
+      const date = new Date(isoDate);
+      if (!Number.isNaN(date.getTime()) && date.toISOString() === isoDate) {
+        return date;
+      }
+    }
+    throw new Error('Invalid cursor token: malformed payload.');
+  }
+
+  /**
+   * Reads and validates the payload of a token, decoding its keyset values.
+   * @throws Error if the token has another version, was not sealed with this codec, or its payload is malformed.
+   */
+  private readPayload(token: string): DecodedTokenPayload {
+    const separatorIndex = token.indexOf('.');
+    const version = token.slice(0, separatorIndex);
+    if (separatorIndex < 0 || version !== TOKEN_VERSION) {
+      throw new Error(
+        `Invalid cursor token: unsupported version '${separatorIndex < 0 ? '' : version}'.`,
+      );
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(this.unseal(token.slice(separatorIndex + 1)));
+    } catch {
+      throw new Error('Invalid cursor token: malformed payload.');
+    }
+    if (
+      typeof payload !== 'object' ||
+      payload === null ||
+      typeof (payload as CursorTokenPayload).f !== 'string' ||
+      !Array.isArray((payload as CursorTokenPayload).k) ||
+      ![undefined, 1].includes((payload as CursorTokenPayload).b)
+    ) {
+      throw new Error('Invalid cursor token: malformed payload.');
+    }
+    const { f, k, b } = payload as CursorTokenPayload;
+    return { f, k: k.map((value) => this.decodeValue(value)), b };
+  }
+
+  /**
+   * Encodes the serialized payload: encrypted and authenticated, or base64url-encoded and signed.
+   */
+  private seal(serialized: string): string {
+    if (!this._encrypt) {
+      const encoded = Buffer.from(serialized, 'utf8').toString('base64url');
+      return `${encoded}.${this.sign(encoded).toString('base64url')}`;
+    }
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this._key, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(serialized, 'utf8'),
+      cipher.final(),
+    ]);
+    return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString(
+      'base64url',
+    );
+  }
+
+  /**
+   * Decodes a sealed payload.
+   * @throws Error if the payload was not sealed with this codec's secret and mode.
+   */
+  private unseal(sealed: string): string {
+    if (!this._encrypt) {
+      const [encoded = '', signature, ...rest] = sealed.split('.');
+      const expectedSignature = this.sign(encoded);
+      const actualSignature = Buffer.from(signature ?? '', 'base64url');
+      if (
+        rest.length > 0 ||
+        actualSignature.length !== expectedSignature.length ||
+        !timingSafeEqual(actualSignature, expectedSignature)
+      ) {
+        throw new Error('Invalid cursor token: malformed payload.');
+      }
+      return Buffer.from(encoded, 'base64url').toString('utf8');
+    }
+    const buffer = Buffer.from(sealed, 'base64url');
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      this._key,
+      buffer.subarray(0, 12),
+    );
+    decipher.setAuthTag(buffer.subarray(12, 28));
+    return Buffer.concat([
+      decipher.update(buffer.subarray(28)),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private sign(encoded: string): Buffer {
+    return createHmac('sha256', this._key).update(encoded).digest();
+  }
+}
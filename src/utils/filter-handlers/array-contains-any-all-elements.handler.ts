@@ -2,6 +2,7 @@ import type { IFilterOperatorHandler } from './filter-operator-handler.interface
 import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
 import { FilterOperator, type Filter } from '@nulledexp/translatable-criteria';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+import { buildJsonPathContainment, parseJsonPath } from '../json-path.js';
 
 /**
  * Handles ARRAY_CONTAINS_ANY_ELEMENT, ARRAY_CONTAINS_ALL_ELEMENTS and their NOT counterparts.
@@ -24,7 +25,7 @@ export class ArrayContainsAnyAllElementsHandler implements IFilterOperatorHandle
     const value = filter.value as Record<string, any>;
     const key = Object.keys(value)[0]!;
     const elements = value[key] as any[];
-    const path = key;
+    const segments = parseJsonPath(filter.field, key);
 
     if (elements.length === 0) {
       return { queryFragment: '1=1', parameters: {} };
@@ -34,32 +35,24 @@ export class ArrayContainsAnyAllElementsHandler implements IFilterOperatorHandle
       filter.operator === FilterOperator.ARRAY_CONTAINS_ALL_ELEMENTS ||
       filter.operator === FilterOperator.ARRAY_NOT_CONTAINS_ALL_ELEMENTS;
 
-    // Helper to build JSON structure for a value at path
-    const buildStructure = (val: any) => {
-      const parts = path.split('.');
-      let current: any = val;
-
-      for (let i = parts.length - 1; i >= 0; i--) {
-        const k = parts[i]!;
-        current = { [k]: current };
-      }
-      return current;
-    };
-
     if (isAllOperator) {
       // ALL: Check if contains all elements.
       // col @> {path: [all_elements]}
-      const structure = buildStructure(elements);
-      const paramName = parameterManager.generateParamName();
+      const containment = buildJsonPathContainment(
+        fieldName,
+        segments,
+        elements,
+        parameterManager,
+      );
 
       const operator = this.not ? 'NOT ' : '';
-      const condition = `${operator}${fieldName} @> :${paramName}::jsonb`;
+      const condition = `${operator}${containment.queryFragment}`;
 
       return {
         queryFragment: this.not
           ? `(${fieldName} IS NULL OR ${condition})`
           : condition,
-        parameters: { [paramName]: JSON.stringify(structure) },
+        parameters: containment.parameters,
       };
     } else {
       // ANY: Check if contains any element.
@@ -69,10 +62,14 @@ export class ArrayContainsAnyAllElementsHandler implements IFilterOperatorHandle
       const parameters: { [key: string]: any } = {};
 
       elements.forEach((elem) => {
-        const structure = buildStructure([elem]);
-        const paramName = parameterManager.generateParamName();
-        conditions.push(`${fieldName} @> :${paramName}::jsonb`);
-        parameters[paramName] = JSON.stringify(structure);
+        const containment = buildJsonPathContainment(
+          fieldName,
+          segments,
+          [elem],
+          parameterManager,
+        );
+        conditions.push(containment.queryFragment);
+        Object.assign(parameters, containment.parameters);
       });
 
       if (this.not) {
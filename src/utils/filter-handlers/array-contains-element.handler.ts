@@ -3,6 +3,7 @@ import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-build
 import { FilterOperator, type Filter } from '@nulledexp/translatable-criteria';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
 import type { ObjectLiteral } from 'typeorm';
+import { buildJsonPathContainment, parseJsonPath } from '../json-path.js';
 
 /**
  * Handles ARRAY_CONTAINS_ELEMENT and ARRAY_NOT_CONTAINS_ELEMENT operators for JSON arrays.
@@ -32,28 +33,12 @@ export class ArrayContainsElementHandler implements IFilterOperatorHandler {
       elementValue = value;
     }
 
-    let jsonStructure: any;
-
-    if (path) {
-      // Construct nested object from path
-      // path is "a.b" -> parts ["a", "b"]
-      const parts = path.split('.');
-
-      // Build object from inside out
-      // Start with the array containing the element
-      let current: any = [elementValue];
-
-      for (let i = parts.length - 1; i >= 0; i--) {
-        const key = parts[i]!;
-        current = { [key]: current };
-      }
-      jsonStructure = current;
-    } else {
-      jsonStructure = [elementValue];
-    }
-
-    const paramName = parameterManager.generateParamName();
-    const jsonValue = JSON.stringify(jsonStructure);
+    const { queryFragment, parameters } = buildJsonPathContainment(
+      fieldName,
+      path ? parseJsonPath(filter.field, path) : [],
+      [elementValue],
+      parameterManager,
+    );
 
     const isNotContains =
       filter.operator === FilterOperator.ARRAY_NOT_CONTAINS_ELEMENT;
@@ -61,8 +46,8 @@ export class ArrayContainsElementHandler implements IFilterOperatorHandler {
     const operator = isNotContains ? 'NOT ' : '';
 
     return {
-      queryFragment: `${operator}${fieldName} @> :${paramName}::jsonb`,
-      parameters: { [paramName]: jsonValue },
+      queryFragment: `${operator}${queryFragment}`,
+      parameters,
     };
   }
 }
@@ -2,6 +2,7 @@ import { Filter, FilterOperator } from '@nulledexp/translatable-criteria';
 import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
 import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+import { buildJsonPathExpression, parseJsonPath } from '../json-path.js';
 
 /**
  * Handles ARRAY_EQUALS_STRICT and ARRAY_NOT_EQUALS_STRICT operators.
@@ -36,12 +37,18 @@ export class ArrayEqualsStrictHandler implements IFilterOperatorHandler {
       const arrayValue = Object.values(filter.value)[0];
 
       if (path && Array.isArray(arrayValue)) {
-        const pathParts = path.split('.');
-        const pgPath = pathParts.map((p) => `->'${p}'`).join('');
+        const pathExpression = buildJsonPathExpression(
+          fieldName,
+          parseJsonPath(filter.field, path),
+          parameterManager,
+        );
 
-        expression = `${fieldName}${pgPath}`;
+        expression = pathExpression.expression;
         comparisonPart = `${expression} = :${paramName}::jsonb`;
-        parameters = { [paramName]: JSON.stringify(arrayValue) };
+        parameters = {
+          ...pathExpression.parameters,
+          [paramName]: JSON.stringify(arrayValue),
+        };
       } else {
         return { queryFragment: '1=0', parameters: {} };
       }
@@ -3,6 +3,7 @@ import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-build
 import type { Filter } from '@nulledexp/translatable-criteria';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
 import type { ObjectLiteral } from 'typeorm';
+import { buildJsonPathExpression, parseJsonPath } from '../json-path.js';
 
 /**
  * Handles ARRAY_EQUALS and ARRAY_NOT_EQUALS operators for JSON arrays.
@@ -36,13 +37,14 @@ export class ArrayEqualsHandler implements IFilterOperatorHandler {
 
     const paramName = parameterManager.generateParamName();
 
-    let expression: string;
+    let expression = fieldName;
+    let pathParameters: ObjectLiteral = {};
     if (path) {
-      const pathParts = path.split('.');
-      const pgPath = pathParts.map((p) => `->'${p}'`).join('');
-      expression = `${fieldName}${pgPath}`;
-    } else {
-      expression = fieldName;
+      ({ expression, parameters: pathParameters } = buildJsonPathExpression(
+        fieldName,
+        parseJsonPath(filter.field, path),
+        parameterManager,
+      ));
     }
 
     const comparison = `(${expression} @> :${paramName}::jsonb AND ${expression} <@ :${paramName}::jsonb)`;
@@ -53,7 +55,10 @@ export class ArrayEqualsHandler implements IFilterOperatorHandler {
 
     return {
       queryFragment,
-      parameters: { [paramName]: JSON.stringify(arrayValue) },
+      parameters: {
+        ...pathParameters,
+        [paramName]: JSON.stringify(arrayValue),
+      },
     };
   }
 }
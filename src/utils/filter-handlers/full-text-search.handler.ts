@@ -0,0 +1,98 @@
+import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
+import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
+import type { Filter } from '@nulledexp/translatable-criteria';
+import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+
+/**
+ * Handles a text search as a PostgreSQL full-text search:
+ * `to_tsvector(config, field) @@ websearch_to_tsquery(config, :value)`.
+ * Not registered by default: register it for CONTAINS (and NOT_CONTAINS with `not`)
+ * on the fields that should be searched by words instead of `ILIKE '%value%'`.
+ * The value is parsed in websearch syntax: quoted phrases, `or`, and `-` to exclude words.
+ */
+export class FullTextSearchHandler implements IFilterOperatorHandler {
+  /**
+   * Constructs a new FullTextSearchHandler.
+   * @param config The text search configuration (e.g. `english`, `spanish`), rendered as a literal
+   * so that expression indexes on `to_tsvector(config, field)` can be used.
+   * @param not True if the operator is a NOT operator, false otherwise.
+   * @param isVector True if the field is a stored tsvector column, which is matched as is.
+   * @throws Error if the configuration name is not an identifier, optionally schema-qualified.
+   */
+  constructor(
+    private config: string = 'simple',
+    private not: boolean = false,
+    private isVector: boolean = false,
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/.test(config)) {
+      throw new Error(`Invalid text search configuration: '${config}'.`);
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public build(
+    fieldName: string,
+    filter: Filter<string, any>,
+    parameterManager: TypeOrmParameterManager,
+  ): TypeOrmConditionFragment {
+    return this.buildMatch(fieldName, filter.value, parameterManager);
+  }
+
+  /**
+   * Builds the match of a field, or text expression, against a search.
+   * @param fieldName The fully qualified field name, or text expression, that is searched.
+   * @param value The search, in websearch syntax.
+   * @param parameterManager The parameter manager to generate unique parameter names.
+   * @returns The condition and its parameters.
+   */
+  public buildMatch(
+    fieldName: string,
+    value: unknown,
+    parameterManager: TypeOrmParameterManager,
+  ): TypeOrmConditionFragment {
+    const { query, parameters } = this.buildQuery(value, parameterManager);
+    const condition = `${this.vectorOf(fieldName)} @@ ${query}`;
+    return {
+      queryFragment: this.not ? `NOT (${condition})` : condition,
+      parameters,
+    };
+  }
+
+  /**
+   * Builds the relevance of the rows to a search, as ranked by `ts_rank_cd`.
+   * @param fieldName The fully qualified field name, or text expression, that is searched.
+   * @param value The search, in websearch syntax.
+   * @param parameterManager The parameter manager to generate unique parameter names.
+   * @returns The rank expression and its parameters.
+   */
+  public buildRank(
+    fieldName: string,
+    value: string,
+    parameterManager: TypeOrmParameterManager,
+  ): TypeOrmConditionFragment {
+    const { query, parameters } = this.buildQuery(value, parameterManager);
+    return {
+      queryFragment: `ts_rank_cd(${this.vectorOf(fieldName)}, ${query})`,
+      parameters,
+    };
+  }
+
+  private vectorOf(fieldName: string): string {
+    return this.isVector
+      ? fieldName
+      : `to_tsvector('${this.config}', ${fieldName})`;
+  }
+
+  private buildQuery(
+    value: unknown,
+    parameterManager: TypeOrmParameterManager,
+  ): { query: string; parameters: Record<string, unknown> } {
+    const paramName = parameterManager.generateParamName();
+    return {
+      query: `websearch_to_tsquery('${this.config}', :${paramName})`,
+      parameters: { [paramName]: value },
+    };
+  }
+}
@@ -2,6 +2,7 @@ import { Filter, FilterOperator } from '@nulledexp/translatable-criteria';
 import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
 import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+import { buildJsonPathContainment, parseJsonPath } from '../json-path.js';
 
 /**
  * Handles JSON_CONTAINS_ANY, JSON_CONTAINS_ALL and their NOT counterparts.
@@ -55,37 +56,29 @@ export class JsonContainsAnyAllHandler implements IFilterOperatorHandler {
         continue;
       }
 
-      const buildStructure = (val: any) => {
-        const parts = path.split('.');
-        let current: any = val;
-        for (let i = parts.length - 1; i >= 0; i--) {
-          const k = parts[i]!;
-          current = { [k]: current };
-        }
-        return current;
+      const segments = parseJsonPath(filter.field, path);
+      const buildContainment = (val: any) => {
+        const containment = buildJsonPathContainment(
+          fieldName,
+          segments,
+          val,
+          parameterManager,
+        );
+        Object.assign(parameters, containment.parameters);
+        return containment.queryFragment;
       };
 
       if (isAllOperator && !this.not) {
         // Optimization for ALL (positive): combine values into one array structure
-        const structure = buildStructure(valuesToSearch);
-        const paramName = parameterManager.generateParamName();
-        parameters[paramName] = JSON.stringify(structure);
-        pathConditions.push(`${fieldName} @> :${paramName}::jsonb`);
+        pathConditions.push(buildContainment(valuesToSearch));
       } else if (isAllOperator && this.not) {
         // Optimization for NOT ALL: NOT (field @> values)
         // This means "it does not contain ALL of them" (it might contain some, but not all)
-        const structure = buildStructure(valuesToSearch);
-        const paramName = parameterManager.generateParamName();
-        parameters[paramName] = JSON.stringify(structure);
-        pathConditions.push(`NOT (${fieldName} @> :${paramName}::jsonb)`);
+        pathConditions.push(`NOT (${buildContainment(valuesToSearch)})`);
       } else {
         const singlePathValueConditions = valuesToSearch.map((value) => {
-          const paramName = parameterManager.generateParamName();
           // Wrap value in array to check containment in array
-          const structure = buildStructure([value]);
-          parameters[paramName] = JSON.stringify(structure);
-
-          const condition = `${fieldName} @> :${paramName}::jsonb`;
+          const condition = buildContainment([value]);
           return this.not ? `NOT (${condition})` : condition;
         });
 
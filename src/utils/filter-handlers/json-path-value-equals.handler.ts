@@ -2,6 +2,7 @@ import { Filter, FilterOperator } from '@nulledexp/translatable-criteria';
 import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
 import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+import { buildJsonPathExpression, parseJsonPath } from '../json-path.js';
 
 export class JsonPathValueEqualsHandler implements IFilterOperatorHandler {
   public build(
@@ -29,14 +30,17 @@ export class JsonPathValueEqualsHandler implements IFilterOperatorHandler {
       const paramName = parameterManager.generateParamName();
       const jsonValue = (filter.value as Record<string, any>)[path];
 
-      // Convert dot notation to Postgres path array
-      // "a.b.c" -> "{a,b,c}"
-      const pathParts = path.split('.');
-      const pgPath = `{${pathParts.join(',')}}`;
-
-      const condition = `${fieldName} #>> '${pgPath}' ${op} :${paramName}`;
-
-      conditions.push(condition);
+      // "a.b.c" -> ['a', 'b', 'c'], bound as the text[] path of #>>
+      const { expression, parameters: pathParameters } =
+        buildJsonPathExpression(
+          fieldName,
+          parseJsonPath(filter.field, path),
+          parameterManager,
+          true,
+        );
+
+      conditions.push(`${expression} ${op} :${paramName}`);
+      Object.assign(parameters, pathParameters);
       parameters[paramName] = String(jsonValue);
     }
 
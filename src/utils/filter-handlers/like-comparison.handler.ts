@@ -3,14 +3,32 @@ import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-build
 import type { Filter } from '@nulledexp/translatable-criteria';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
 
+/**
+ * Escapes the LIKE wildcards (`%`, `_`) and the escape character (`\`) of a value,
+ * so that it is matched literally in a pattern with `ESCAPE '\'`.
+ * @param value The value to escape.
+ * @returns The escaped value.
+ */
+export function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
 /**
  * Handles LIKE based comparison operators and their NOT counterparts.
  */
 export class LikeComparisonHandler implements IFilterOperatorHandler {
+  /**
+   * @param pattern Builds the pattern from the value (escaped first when `literal`).
+   * @param not True if the operator is a NOT operator, false otherwise.
+   * @param useIlike True to match case-insensitively with ILIKE.
+   * @param literal True to match the value literally: its wildcards are escaped, and the
+   * condition gets an `ESCAPE '\'` clause. False for raw patterns, whose wildcards are kept.
+   */
   constructor(
     private pattern: (value: any) => string,
     private not: boolean = false,
     private useIlike: boolean = false,
+    private literal: boolean = false,
   ) {}
 
   /**
@@ -23,9 +41,12 @@ export class LikeComparisonHandler implements IFilterOperatorHandler {
   ): TypeOrmConditionFragment {
     const paramName = parameterManager.generateParamName();
     const operator = this.useIlike ? 'ILIKE' : 'LIKE';
+    const value = this.literal
+      ? escapeLikePattern(String(filter.value))
+      : filter.value;
     return {
-      queryFragment: `${fieldName} ${this.not ? 'NOT ' : ''}${operator} :${paramName}`,
-      parameters: { [paramName]: this.pattern(filter.value) },
+      queryFragment: `${fieldName} ${this.not ? 'NOT ' : ''}${operator} :${paramName}${this.literal ? ` ESCAPE '\\'` : ''}`,
+      parameters: { [paramName]: this.pattern(value) },
     };
   }
 }
@@ -1,24 +1,415 @@
 import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
 import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
-import type { Filter } from '@nulledexp/translatable-criteria';
+import {
+  type Filter,
+  FilterOperator,
+  type FilterPrimitive,
+} from '@nulledexp/translatable-criteria';
 import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+import { InvalidFilterValueError } from '../translation-error.js';
 
 /**
- * Handles the MATCHES_REGEX operator.
+ * The PostgreSQL pattern matching operators: POSIX regular expressions (`~`, case-insensitive `~*`,
+ * and their negations `!~`, `!~*`) and SQL regular expressions (`SIMILAR TO`, `NOT SIMILAR TO`).
+ */
+export type RegexOperator =
+  '~' | '~*' | '!~' | '!~*' | 'SIMILAR TO' | 'NOT SIMILAR TO';
+
+const REGEX_OPERATORS: ReadonlyArray<RegexOperator> = [
+  '~',
+  '~*',
+  '!~',
+  '!~*',
+  'SIMILAR TO',
+  'NOT SIMILAR TO',
+];
+
+/**
+ * A MATCHES_REGEX filter primitive carrying the pattern operator it is matched with.
+ */
+type RegexFilterPrimitive<TField extends string> = FilterPrimitive<
+  TField,
+  FilterOperator.MATCHES_REGEX
+> & { regexOperator: RegexOperator };
+
+/**
+ * Creates a MATCHES_REGEX filter matched with one of the PostgreSQL pattern operators.
+ * FilterOperator has no operator for the other modes, and criteria reject unknown operators,
+ * so the operator is kept on the filter primitive, where the built-in MATCHES_REGEX handler reads it.
+ * @param field The filtered field.
+ * @param pattern The pattern.
+ * @param operator The pattern operator.
+ * @returns The filter primitive, for `where`, `andWhere` or `orWhere`.
+ * @example
+ * criteria.where(regexFilter('email', '@example\\.com$', '~*'));
+ */
+export function regexFilter<TField extends string>(
+  field: TField,
+  pattern: string,
+  operator: RegexOperator,
+): FilterPrimitive<TField, FilterOperator.MATCHES_REGEX> {
+  const primitive: RegexFilterPrimitive<TField> = {
+    field,
+    operator: FilterOperator.MATCHES_REGEX,
+    value: pattern,
+    regexOperator: operator,
+  };
+  return primitive;
+}
+
+/**
+ * The longest pattern accepted, so user-supplied patterns cannot make PostgreSQL compile huge expressions.
+ */
+const MAX_PATTERN_LENGTH = 1000;
+
+/**
+ * The largest repetition count of a `{m,n}` bound (RE_DUP_MAX in PostgreSQL).
+ */
+const MAX_REPETITION_COUNT = 255;
+
+/**
+ * Finds the first of the common syntax errors PostgreSQL raises when compiling a pattern:
+ * unbalanced parentheses or brackets, reversed ranges, and quantifiers without an operand or with an invalid bound.
+ * POSIX patterns may start with a `***:` or `***=` director and embedded options, and use `(?#...)` comments,
+ * non-capturing groups and lookaround constraints. In SIMILAR TO patterns, `%` and `_` are wildcards
+ * and `^`, `$` and `.` are ordinary characters. PostgreSQL still checks what is not covered here.
+ * @param pattern The pattern.
+ * @param similar True for a SIMILAR TO pattern, false for a POSIX regular expression.
+ * @returns A description of the error, or undefined if none is found.
+ */
+function findSyntaxError(
+  pattern: string,
+  similar: boolean,
+): string | undefined {
+  const chars = [...pattern];
+  let index = 0;
+  let expanded = false;
+  if (!similar) {
+    if (pattern.startsWith('***=')) {
+      return undefined;
+    }
+    if (pattern.startsWith('***:')) {
+      index = 4;
+    }
+    const options = /^\(\?([a-z]*)\)/.exec(chars.slice(index).join(''));
+    if (options) {
+      const flags = options[1]!;
+      if (/[^bceimnpqstwx]/.test(flags)) {
+        return 'invalid embedded options';
+      }
+      if (flags.includes('q')) {
+        return undefined;
+      }
+      expanded = flags.includes('x');
+      index += options[0].length;
+    }
+  }
+
+  let depth = 0;
+  // Whether the previous item can be quantified, was quantified, or was made non-greedy by a `?`.
+  let operand: 'none' | 'atom' | 'quantified' | 'lazy' = 'none';
+  const quantify = (lazyMark: boolean): boolean => {
+    if (operand === 'atom') {
+      operand = 'quantified';
+    } else if (lazyMark && operand === 'quantified') {
+      operand = 'lazy';
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  while (index < chars.length) {
+    const char = chars[index++]!;
+    if (expanded && /\s/.test(char)) {
+      continue;
+    }
+    if (expanded && char === '#') {
+      while (index < chars.length && chars[index] !== '\n') {
+        index++;
+      }
+      continue;
+    }
+    switch (char) {
+      case '\\':
+        if (index >= chars.length) {
+          return 'a trailing backslash';
+        }
+        index++;
+        operand = 'atom';
+        break;
+      case '(':
+        if (!similar && chars[index] === '?') {
+          if (chars[index + 1] === '#') {
+            const end = chars.indexOf(')', index);
+            if (end < 0) {
+              return 'unbalanced parentheses';
+            }
+            index = end + 1;
+            break;
+          }
+          const prefix = ['?:', '?=', '?!', '?<=', '?<!'].find(
+            (candidate) =>
+              chars.slice(index, index + candidate.length).join('') ===
+              candidate,
+          );
+          if (!prefix) {
+            return 'a quantifier without an operand';
+          }
+          index += prefix.length;
+        }
+        depth++;
+        operand = 'none';
+        break;
+      case ')':
+        if (depth === 0) {
+          return 'unbalanced parentheses';
+        }
+        depth--;
+        operand = 'atom';
+        break;
+      case '[': {
+        const bracket = readBracketExpression(chars, index);
+        if ('error' in bracket) {
+          return bracket.error;
+        }
+        index = bracket.end;
+        operand = 'atom';
+        break;
+      }
+      case '*':
+      case '+':
+      case '?':
+        if (!quantify(char === '?')) {
+          return 'a quantifier without an operand';
+        }
+        break;
+      case '{': {
+        if (!/\d/.test(chars[index] ?? '')) {
+          operand = 'atom';
+          break;
+        }
+        const end = chars.indexOf('}', index);
+        const bound = chars.slice(index, end < 0 ? undefined : end).join('');
+        const counts = /^(\d+)(,(\d*))?$/.exec(bound);
+        const min = Number(counts?.[1]);
+        const max =
+          counts?.[2] === undefined ? min : Number(counts[3] || Infinity);
+        if (
+          end < 0 ||
+          !counts ||
+          min > max ||
+          min > MAX_REPETITION_COUNT ||
+          (max !== Infinity && max > MAX_REPETITION_COUNT)
+        ) {
+          return `the invalid bound '{${bound}${end < 0 ? '' : '}'}'`;
+        }
+        if (!quantify(false)) {
+          return 'a quantifier without an operand';
+        }
+        index = end + 1;
+        break;
+      }
+      case '|':
+        operand = 'none';
+        break;
+      case '^':
+      case '$':
+        operand = similar ? 'atom' : 'none';
+        break;
+      case '%':
+        // `%` stands for `.*`, which can only be made non-greedy.
+        operand = similar ? 'quantified' : 'atom';
+        break;
+      default:
+        operand = 'atom';
+    }
+  }
+  return depth > 0 ? 'unbalanced parentheses' : undefined;
+}
+
+/**
+ * Reads a bracket expression, from the character after its `[` to its `]`,
+ * checking that it is closed and that its ranges do not run backwards.
+ * @returns The index after the closing `]`, or a description of the error.
+ */
+function readBracketExpression(
+  chars: string[],
+  start: number,
+): { end: number } | { error: string } {
+  let index = start;
+  if (chars[index] === '^') {
+    index++;
+  }
+  // Reads one element, returning the character it stands for, if it stands for a single character,
+  // or whether it is a character class.
+  const readElement = (): { char?: string; isClass?: boolean } | undefined => {
+    const char = chars[index];
+    if (char === undefined) {
+      return undefined;
+    }
+    if (char === '[' && ['.', '=', ':'].includes(chars[index + 1] ?? '')) {
+      const delimiter = chars[index + 1];
+      for (let end = index + 2; end < chars.length - 1; end++) {
+        if (chars[end] === delimiter && chars[end + 1] === ']') {
+          const name = chars.slice(index + 2, end);
+          index = end + 2;
+          return {
+            char: delimiter === '.' && name.length === 1 ? name[0] : undefined,
+            isClass: delimiter === ':',
+          };
+        }
+      }
+      return undefined;
+    }
+    if (char === '\\') {
+      const escaped = chars[index + 1];
+      if (escaped === undefined) {
+        return undefined;
+      }
+      index += 2;
+      return {
+        char: /[A-Za-z0-9]/.test(escaped) ? undefined : escaped,
+        isClass: /[dswDSW]/.test(escaped),
+      };
+    }
+    index++;
+    return { char };
+  };
+
+  let first = true;
+  while (index < chars.length) {
+    if (chars[index] === ']' && !first) {
+      return { end: index + 1 };
+    }
+    first = false;
+    const rangeStart = readElement();
+    if (!rangeStart) {
+      break;
+    }
+    if (
+      chars[index] !== '-' ||
+      chars[index + 1] === undefined ||
+      chars[index + 1] === ']'
+    ) {
+      continue;
+    }
+    index++;
+    const rangeEnd = readElement();
+    if (!rangeEnd) {
+      break;
+    }
+    if (rangeStart.isClass || rangeEnd.isClass) {
+      return { error: 'a range bounded by a character class' };
+    }
+    if (
+      rangeStart.char !== undefined &&
+      rangeEnd.char !== undefined &&
+      rangeStart.char.codePointAt(0)! > rangeEnd.char.codePointAt(0)!
+    ) {
+      return {
+        error: `the reversed range '${rangeStart.char}-${rangeEnd.char}'`,
+      };
+    }
+  }
+  return { error: 'unbalanced brackets' };
+}
+
+/**
+ * Handles the MATCHES_REGEX operator, `~` by default.
+ * FilterOperator has no other pattern operators, so the other modes are picked per filter with regexFilter,
+ * which the built-in handler follows, or per schema or field by registering a handler for MATCHES_REGEX
+ * through the `operatorHandlers` translator option. The operator of a regexFilter takes precedence.
+ * Patterns are checked for their length, characters and common syntax errors before the query is sent,
+ * following the PostgreSQL dialect rather than JavaScript's.
+ * @example
+ * new TypeOrmPostgresTranslator({
+ *   operatorHandlers: [{ operator: FilterOperator.MATCHES_REGEX, handler: new RegexComparisonHandler('~*'), field: 'email' }],
+ * });
  */
 export class RegexComparisonHandler implements IFilterOperatorHandler {
+  constructor(private operatorString: RegexOperator = '~') {}
+
   /**
    * @inheritdoc
+   * @throws InvalidFilterValueError if the value is not a string, is too long, has characters PostgreSQL rejects
+   * or has a syntax error.
    */
   public build(
     fieldName: string,
     filter: Filter<string, any>,
     parameterManager: TypeOrmParameterManager,
   ): TypeOrmConditionFragment {
+    const operatorString = this.resolveOperator(filter);
+    this.validatePattern(filter, operatorString);
     const paramName = parameterManager.generateParamName();
     return {
-      queryFragment: `${fieldName} ~ :${paramName}`,
+      queryFragment: `${fieldName} ${operatorString} :${paramName}`,
       parameters: { [paramName]: filter.value },
     };
   }
+
+  /**
+   * Resolves the pattern operator of a filter: the one set by regexFilter, or the operator of the handler.
+   * @throws InvalidFilterValueError if the filter carries an unknown operator.
+   */
+  private resolveOperator(filter: Filter<string, any>): RegexOperator {
+    const { regexOperator } = filter.toPrimitive() as Partial<
+      RegexFilterPrimitive<string>
+    >;
+    if (regexOperator === undefined) {
+      return this.operatorString;
+    }
+    if (!REGEX_OPERATORS.includes(regexOperator)) {
+      throw new InvalidFilterValueError(
+        `Invalid pattern operator for the field '${filter.field}': '${String(regexOperator)}'.`,
+        filter.field,
+        filter.value,
+      );
+    }
+    return regexOperator;
+  }
+
+  /**
+   * Checks the pattern is a string of at most MAX_PATTERN_LENGTH characters, without the NUL character
+   * or unpaired surrogates, which PostgreSQL text cannot hold, and without the syntax errors findSyntaxError finds.
+   */
+  private validatePattern(
+    filter: Filter<string, any>,
+    operatorString: RegexOperator,
+  ): void {
+    const pattern: unknown = filter.value;
+    if (typeof pattern !== 'string') {
+      throw new InvalidFilterValueError(
+        `The pattern of the field '${filter.field}' must be a string.`,
+        filter.field,
+        pattern,
+      );
+    }
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      throw new InvalidFilterValueError(
+        `The pattern of the field '${filter.field}' must be at most ${MAX_PATTERN_LENGTH} characters.`,
+        filter.field,
+        pattern,
+      );
+    }
+    if (/\u0000|\p{Cs}/u.test(pattern)) {
+      throw new InvalidFilterValueError(
+        `Invalid pattern for the field '${filter.field}': '${pattern}'.`,
+        filter.field,
+        pattern,
+      );
+    }
+    const syntaxError = findSyntaxError(
+      pattern,
+      operatorString.endsWith('SIMILAR TO'),
+    );
+    if (syntaxError) {
+      throw new InvalidFilterValueError(
+        `Invalid pattern for the field '${filter.field}': ${syntaxError} in '${pattern}'.`,
+        filter.field,
+        pattern,
+      );
+    }
+  }
 }
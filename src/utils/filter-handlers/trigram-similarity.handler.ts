@@ -0,0 +1,97 @@
+import type { IFilterOperatorHandler } from './filter-operator-handler.interface.js';
+import type { TypeOrmConditionFragment } from '../type-orm-filter-fragment-builder.js';
+import type { Filter } from '@nulledexp/translatable-criteria';
+import type { TypeOrmParameterManager } from '../type-orm-parameter-manager.js';
+
+/**
+ * The pg_trgm similarity functions: of the whole field, of its most similar word sequence,
+ * or of its most similar sequence of whole words.
+ */
+export type TrigramFunction =
+  'similarity' | 'word_similarity' | 'strict_word_similarity';
+
+/**
+ * The pg_trgm expressions of each similarity function, given the field and the placeholder of the value.
+ * `match` uses the index-backed operator and its `pg_trgm.*_threshold` setting,
+ * `score` is the similarity (0 to 1) and `distance` the index-backed distance (1 - score).
+ */
+export const TRIGRAM_EXPRESSIONS: Record<
+  TrigramFunction,
+  {
+    match: (field: string, value: string) => string;
+    score: (field: string, value: string) => string;
+    distance: (field: string, value: string) => string;
+  }
+> = {
+  similarity: {
+    match: (field, value) => `${field} % ${value}`,
+    score: (field, value) => `similarity(${field}, ${value})`,
+    distance: (field, value) => `${field} <-> ${value}`,
+  },
+  word_similarity: {
+    match: (field, value) => `${value} <% ${field}`,
+    score: (field, value) => `word_similarity(${value}, ${field})`,
+    distance: (field, value) => `${value} <<-> ${field}`,
+  },
+  strict_word_similarity: {
+    match: (field, value) => `${value} <<% ${field}`,
+    score: (field, value) => `strict_word_similarity(${value}, ${field})`,
+    distance: (field, value) => `${value} <<<-> ${field}`,
+  },
+};
+
+/**
+ * Handles a text comparison as a pg_trgm fuzzy match, tolerant to typos:
+ * `field % :value` (or its word variants), or `similarity(field, :value) > :threshold` when a threshold is given.
+ * Not registered by default: register it for an operator (e.g. CONTAINS) on the fields that should be fuzzy matched.
+ * Requires the pg_trgm extension (`CREATE EXTENSION pg_trgm`).
+ */
+export class TrigramSimilarityHandler implements IFilterOperatorHandler {
+  /**
+   * Constructs a new TrigramSimilarityHandler.
+   * @param trigramFunction The similarity function.
+   * @param threshold The similarity the rows must exceed. When left out, the index-backed operator is used,
+   * with the threshold of the `pg_trgm.similarity_threshold` (or `word_similarity_threshold`) setting.
+   * @param not True if the operator is a NOT operator, false otherwise.
+   * @throws Error if the threshold is not between 0 and 1.
+   */
+  constructor(
+    private trigramFunction: TrigramFunction = 'similarity',
+    private threshold?: number,
+    private not: boolean = false,
+  ) {
+    if (threshold !== undefined && !(threshold >= 0 && threshold <= 1)) {
+      throw new Error(
+        `The similarity threshold must be between 0 and 1, got ${threshold}.`,
+      );
+    }
+  }
+
+  /**
+   * @inheritdoc
+   */
+  public build(
+    fieldName: string,
+    filter: Filter<string, any>,
+    parameterManager: TypeOrmParameterManager,
+  ): TypeOrmConditionFragment {
+    const valueParam = parameterManager.generateParamName();
+    const expressions = TRIGRAM_EXPRESSIONS[this.trigramFunction];
+    const parameters: Record<string, unknown> = {
+      [valueParam]: filter.value,
+    };
+
+    let condition: string;
+    if (this.threshold === undefined) {
+      condition = expressions.match(fieldName, `:${valueParam}`);
+    } else {
+      const thresholdParam = parameterManager.generateParamName();
+      parameters[thresholdParam] = this.threshold;
+      condition = `${expressions.score(fieldName, `:${valueParam}`)} > :${thresholdParam}`;
+    }
+    return {
+      queryFragment: this.not ? `NOT (${condition})` : condition,
+      parameters,
+    };
+  }
+}
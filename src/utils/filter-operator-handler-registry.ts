@@ -0,0 +1,283 @@
+import { FilterOperator } from '@nulledexp/translatable-criteria';
+import type { IFilterOperatorHandler } from './filter-handlers/filter-operator-handler.interface.js';
+import { BasicComparisonHandler } from './filter-handlers/basic-comparison.handler.js';
+import { LikeComparisonHandler } from './filter-handlers/like-comparison.handler.js';
+import { InComparisonHandler } from './filter-handlers/in-comparison.handler.js';
+import { NullComparisonHandler } from './filter-handlers/null-comparison.handler.js';
+import { BetweenComparisonHandler } from './filter-handlers/between-comparison.handler.js';
+import { RegexComparisonHandler } from './filter-handlers/regex-comparison.handler.js';
+import { SetContainsHandler } from './filter-handlers/set-contains.handler.js';
+import { SetContainsAnyAllHandler } from './filter-handlers/set-contains-any-all.handler.js';
+import { JsonContainsHandler } from './filter-handlers/json-contains.handler.js';
+import { ArrayContainsElementHandler } from './filter-handlers/array-contains-element.handler.js';
+import { ArrayContainsAnyAllElementsHandler } from './filter-handlers/array-contains-any-all-elements.handler.js';
+import { ArrayEqualsHandler } from './filter-handlers/array-equals.handler.js';
+import { JsonPathValueEqualsHandler } from './filter-handlers/json-path-value-equals.handler.js';
+import { JsonContainsAnyAllHandler } from './filter-handlers/json-contains-any-all.handler.js';
+import { ArrayEqualsStrictHandler } from './filter-handlers/array-equals-strict.handler.js';
+
+/**
+ * Restricts a handler registration to the filters of a schema (`sourceName`),
+ * to a field name (`field`), or to a field of a schema (both).
+ */
+export type OperatorHandlerScope = {
+  sourceName?: string;
+  field?: string;
+};
+
+/**
+ * A handler registration, as accepted by the `operatorHandlers` translator option.
+ */
+export type OperatorHandlerRegistration = OperatorHandlerScope & {
+  operator: FilterOperator;
+  handler: IFilterOperatorHandler;
+};
+
+/**
+ * Maps each FilterOperator to the IFilterOperatorHandler that renders it.
+ * It is created with the built-in handlers, which can be overridden for every filter
+ * or only for the filters of a schema and/or field.
+ */
+export class FilterOperatorHandlerRegistry {
+  private readonly _handlers = new Map<
+    FilterOperator,
+    IFilterOperatorHandler
+  >();
+  private readonly _scopedHandlers: OperatorHandlerRegistration[] = [];
+
+  /**
+   * @param registrations Handlers registered on top of the built-in ones.
+   */
+  constructor(registrations: ReadonlyArray<OperatorHandlerRegistration> = []) {
+    this.registerBuiltInHandlers();
+    for (const { operator, handler, ...scope } of registrations) {
+      this.register(operator, handler, scope);
+    }
+  }
+
+  /**
+   * Registers a handler for an operator, replacing any handler previously registered for the same scope.
+   * @param operator The operator the handler renders.
+   * @param handler The handler.
+   * @param scope Restricts the handler to a schema and/or field. Without a scope, the handler is used for every filter.
+   * @returns The registry, for chaining.
+   */
+  public register(
+    operator: FilterOperator,
+    handler: IFilterOperatorHandler,
+    scope: OperatorHandlerScope = {},
+  ): this {
+    if (scope.sourceName === undefined && scope.field === undefined) {
+      this._handlers.set(operator, handler);
+      return this;
+    }
+
+    const existingIndex = this._scopedHandlers.findIndex(
+      (registration) =>
+        registration.operator === operator &&
+        registration.sourceName === scope.sourceName &&
+        registration.field === scope.field,
+    );
+    const registration = { ...scope, operator, handler };
+    if (existingIndex >= 0) {
+      this._scopedHandlers[existingIndex] = registration;
+    } else {
+      this._scopedHandlers.push(registration);
+    }
+    return this;
+  }
+
+  /**
+   * Resolves the handler for a filter. Scoped handlers take precedence, from the most specific
+   * (schema and field) to the least specific (field only), over the handler registered for every filter.
+   * @param operator The filter operator.
+   * @param field The filtered field.
+   * @param sourceName The source name of the filtered schema, if known.
+   * @returns The handler, or undefined if none is registered for the operator.
+   */
+  public resolve(
+    operator: FilterOperator,
+    field: string,
+    sourceName?: string,
+  ): IFilterOperatorHandler | undefined {
+    const candidates = this._scopedHandlers.filter(
+      (registration) =>
+        registration.operator === operator &&
+        (registration.sourceName === undefined ||
+          registration.sourceName === sourceName) &&
+        (registration.field === undefined || registration.field === field),
+    );
+    const bySpecificity = (registration: OperatorHandlerScope) =>
+      (registration.sourceName !== undefined ? 2 : 0) +
+      (registration.field !== undefined ? 1 : 0);
+    const [mostSpecific] = candidates.sort(
+      (a, b) => bySpecificity(b) - bySpecificity(a),
+    );
+
+    return mostSpecific?.handler ?? this._handlers.get(operator);
+  }
+
+  /**
+   * Lists the operators that have at least one registered handler.
+   */
+  public get registeredOperators(): FilterOperator[] {
+    return [
+      ...new Set([
+        ...this._handlers.keys(),
+        ...this._scopedHandlers.map((registration) => registration.operator),
+      ]),
+    ];
+  }
+
+  /**
+   * Registers the built-in handlers for every FilterOperator.
+   * @private
+   */
+  private registerBuiltInHandlers(): void {
+    this.register(FilterOperator.EQUALS, new BasicComparisonHandler('='));
+    this.register(FilterOperator.NOT_EQUALS, new BasicComparisonHandler('!='));
+    this.register(FilterOperator.GREATER_THAN, new BasicComparisonHandler('>'));
+    this.register(
+      FilterOperator.GREATER_THAN_OR_EQUALS,
+      new BasicComparisonHandler('>='),
+    );
+    this.register(FilterOperator.LESS_THAN, new BasicComparisonHandler('<'));
+    this.register(
+      FilterOperator.LESS_THAN_OR_EQUALS,
+      new BasicComparisonHandler('<='),
+    );
+
+    this.register(FilterOperator.LIKE, new LikeComparisonHandler((v) => v));
+    this.register(
+      FilterOperator.NOT_LIKE,
+      new LikeComparisonHandler((v) => v, true),
+    );
+    this.register(
+      FilterOperator.CONTAINS,
+      new LikeComparisonHandler((v) => `%${v}%`, false, true, true),
+    );
+    this.register(
+      FilterOperator.NOT_CONTAINS,
+      new LikeComparisonHandler((v) => `%${v}%`, true, true, true),
+    );
+    this.register(
+      FilterOperator.STARTS_WITH,
+      new LikeComparisonHandler((v) => `${v}%`, false, true, true),
+    );
+    this.register(
+      FilterOperator.ENDS_WITH,
+      new LikeComparisonHandler((v) => `%${v}`, false, true, true),
+    );
+    this.register(
+      FilterOperator.ILIKE,
+      new LikeComparisonHandler((v) => v, false, true),
+    );
+    this.register(
+      FilterOperator.NOT_ILIKE,
+      new LikeComparisonHandler((v) => v, true, true),
+    );
+
+    this.register(FilterOperator.IN, new InComparisonHandler());
+    this.register(FilterOperator.NOT_IN, new InComparisonHandler(true));
+
+    this.register(FilterOperator.IS_NULL, new NullComparisonHandler());
+    this.register(FilterOperator.IS_NOT_NULL, new NullComparisonHandler(true));
+
+    this.register(FilterOperator.BETWEEN, new BetweenComparisonHandler());
+    this.register(
+      FilterOperator.NOT_BETWEEN,
+      new BetweenComparisonHandler(true),
+    );
+
+    this.register(FilterOperator.MATCHES_REGEX, new RegexComparisonHandler());
+
+    this.register(FilterOperator.SET_CONTAINS, new SetContainsHandler());
+    this.register(
+      FilterOperator.SET_NOT_CONTAINS,
+      new SetContainsHandler(true),
+    );
+
+    this.register(
+      FilterOperator.SET_CONTAINS_ANY,
+      new SetContainsAnyAllHandler(),
+    );
+    this.register(
+      FilterOperator.SET_NOT_CONTAINS_ANY,
+      new SetContainsAnyAllHandler(true),
+    );
+    this.register(
+      FilterOperator.SET_CONTAINS_ALL,
+      new SetContainsAnyAllHandler(),
+    );
+    this.register(
+      FilterOperator.SET_NOT_CONTAINS_ALL,
+      new SetContainsAnyAllHandler(true),
+    );
+
+    this.register(FilterOperator.JSON_CONTAINS, new JsonContainsHandler());
+    this.register(FilterOperator.JSON_NOT_CONTAINS, new JsonContainsHandler());
+
+    this.register(
+      FilterOperator.JSON_PATH_VALUE_EQUALS,
+      new JsonPathValueEqualsHandler(),
+    );
+    this.register(
+      FilterOperator.JSON_PATH_VALUE_NOT_EQUALS,
+      new JsonPathValueEqualsHandler(),
+    );
+
+    this.register(
+      FilterOperator.JSON_CONTAINS_ANY,
+      new JsonContainsAnyAllHandler(),
+    );
+    this.register(
+      FilterOperator.JSON_NOT_CONTAINS_ANY,
+      new JsonContainsAnyAllHandler(true),
+    );
+    this.register(
+      FilterOperator.JSON_CONTAINS_ALL,
+      new JsonContainsAnyAllHandler(),
+    );
+    this.register(
+      FilterOperator.JSON_NOT_CONTAINS_ALL,
+      new JsonContainsAnyAllHandler(true),
+    );
+    this.register(
+      FilterOperator.ARRAY_CONTAINS_ELEMENT,
+      new ArrayContainsElementHandler(),
+    );
+    this.register(
+      FilterOperator.ARRAY_NOT_CONTAINS_ELEMENT,
+      new ArrayContainsElementHandler(),
+    );
+    this.register(
+      FilterOperator.ARRAY_CONTAINS_ANY_ELEMENT,
+      new ArrayContainsAnyAllElementsHandler(),
+    );
+    this.register(
+      FilterOperator.ARRAY_NOT_CONTAINS_ANY_ELEMENT,
+      new ArrayContainsAnyAllElementsHandler(true),
+    );
+    this.register(
+      FilterOperator.ARRAY_CONTAINS_ALL_ELEMENTS,
+      new ArrayContainsAnyAllElementsHandler(),
+    );
+    this.register(
+      FilterOperator.ARRAY_NOT_CONTAINS_ALL_ELEMENTS,
+      new ArrayContainsAnyAllElementsHandler(true),
+    );
+    this.register(FilterOperator.ARRAY_EQUALS, new ArrayEqualsHandler());
+    this.register(
+      FilterOperator.ARRAY_NOT_EQUALS,
+      new ArrayEqualsHandler(true),
+    );
+    this.register(
+      FilterOperator.ARRAY_EQUALS_STRICT,
+      new ArrayEqualsStrictHandler(),
+    );
+    this.register(
+      FilterOperator.ARRAY_NOT_EQUALS_STRICT,
+      new ArrayEqualsStrictHandler(true),
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  OrderDirection,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { FullTextSearchHandler } from './filter-handlers/full-text-search.handler.js';
+import type {
+  FieldNameFormatter,
+  TypeOrmConditionFragment,
+} from './type-orm-filter-fragment-builder.js';
+import type { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import { type ComputedOrder, createComputedOrder } from './computed-order.js';
+
+/**
+ * A PostgreSQL full-text search over the rows of a root criteria.
+ */
+export type FullTextSearch = {
+  /** The search, in websearch syntax: words, quoted phrases, `or`, and `-` to exclude words. */
+  query: string;
+  /**
+   * The text fields of the schema whose words are searched, as one document.
+   * Defaults to the stored tsvector column declared as `tsvector_field` in the schema metadata.
+   */
+  fields?: ReadonlyArray<string>;
+  /** The text search configuration (e.g. `english`, `spanish`). Defaults to `simple`. */
+  config?: string;
+  /**
+   * When true, the rows are ordered by their `ts_rank_cd` rank, most relevant first,
+   * at this point of the orderBy sequence. The rank is selected as `<alias>_search_rank`.
+   */
+  orderByRank?: boolean;
+};
+
+type FullTextSearchExtension = {
+  search: FullTextSearch;
+  handler: FullTextSearchHandler;
+  /** The searched fields, or undefined to search the stored tsvector column. */
+  fields?: ReadonlyArray<string>;
+  vectorField?: string;
+  /** The rank ordering, kept at its place in the sequence when the search is set again. */
+  rankOrder?: ComputedOrder;
+};
+
+/**
+ * The name of the selected search rank, `<alias>_search_rank`.
+ */
+export const SEARCH_RANK_NAME = 'search_rank';
+
+const fullTextSearches = new WeakMap<
+  RootCriteria<any>,
+  FullTextSearchExtension
+>();
+
+/**
+ * Filters a root criteria by a PostgreSQL full-text search:
+ * `to_tsvector(config, document) @@ websearch_to_tsquery(config, :query)`, AND-ed with its root filters.
+ * When the search has no fields, the stored tsvector column declared as `tsvector_field`
+ * in the schema metadata is matched instead (`vector @@ websearch_to_tsquery(config, :query)`).
+ * @param criteria The root criteria.
+ * @param search The search, its fields, configuration and rank ordering.
+ * @returns The same criteria.
+ * @throws Error if a field is not defined in the schema, there are no fields and the schema declares no tsvector column,
+ * the configuration name is invalid, or the rank name is already used.
+ * @example
+ * setFullTextSearch(criteria, { query: 'typeorm -mysql', fields: ['title', 'body'], config: 'english', orderByRank: true });
+ */
+export function setFullTextSearch<TCriteria extends RootCriteria<any>>(
+  criteria: TCriteria,
+  search: FullTextSearch,
+): TCriteria {
+  const fields = search.fields?.length ? search.fields : undefined;
+  fields?.forEach((field) => {
+    if (!criteria.schema.fields.includes(field)) {
+      throw new Error(
+        `The field '${field}' is not defined in the schema '${criteria.sourceName}'.`,
+      );
+    }
+  });
+  const vectorField: unknown = criteria.schema.metadata?.tsvector_field;
+  if (!fields && typeof vectorField !== 'string') {
+    throw new Error(
+      `A full-text search needs fields, since the schema '${criteria.sourceName}' declares no tsvector_field in its metadata.`,
+    );
+  }
+
+  const handler = new FullTextSearchHandler(search.config, false, !fields);
+  const previousRankOrder = fullTextSearches.get(criteria)?.rankOrder;
+  const rankOrder =
+    search.orderByRank && !previousRankOrder
+      ? createComputedOrder(
+          criteria,
+          SEARCH_RANK_NAME,
+          OrderDirection.DESC,
+          false,
+        )
+      : previousRankOrder;
+  fullTextSearches.set(criteria, {
+    search,
+    handler,
+    ...(fields ? { fields } : { vectorField: vectorField as string }),
+    ...(rankOrder ? { rankOrder } : {}),
+  });
+  return criteria;
+}
+
+/**
+ * Gets the full-text search of a root criteria.
+ * @param criteria The root criteria.
+ * @returns The search set with `setFullTextSearch`, or undefined.
+ */
+export function getFullTextSearch(
+  criteria: RootCriteria<any>,
+): Readonly<FullTextSearch> | undefined {
+  return fullTextSearches.get(criteria)?.search;
+}
+
+/**
+ * Builds the condition of the full-text search of a root criteria.
+ * @param criteria The root criteria.
+ * @param alias The alias of the root criteria.
+ * @param formatField Formats an alias-qualified field for the query.
+ * @param parameterManager The parameter manager to generate unique parameter names.
+ * @returns The condition and its parameters, or undefined if the criteria has no search.
+ */
+export function buildFullTextSearchCondition(
+  criteria: RootCriteria<any>,
+  alias: string,
+  formatField: FieldNameFormatter,
+  parameterManager: TypeOrmParameterManager,
+): TypeOrmConditionFragment | undefined {
+  const extension = fullTextSearches.get(criteria);
+  if (!extension) {
+    return undefined;
+  }
+  return extension.handler.buildMatch(
+    searchedDocument(extension, alias, formatField),
+    extension.search.query,
+    parameterManager,
+  );
+}
+
+/**
+ * Builds the rank ordering of the full-text search of a root criteria.
+ * @param criteria The root criteria.
+ * @param alias The alias of the root criteria.
+ * @param formatField Formats an alias-qualified field for the query.
+ * @param parameterManager The parameter manager to generate unique parameter names.
+ * @returns The ordering with its `ts_rank_cd` expression and parameters,
+ * or undefined if the criteria is not ordered by its search rank.
+ */
+export function buildFullTextSearchRank(
+  criteria: RootCriteria<any>,
+  alias: string,
+  formatField: FieldNameFormatter,
+  parameterManager: TypeOrmParameterManager,
+): (TypeOrmConditionFragment & { order: ComputedOrder }) | undefined {
+  const extension = fullTextSearches.get(criteria);
+  if (!extension?.search.orderByRank || !extension.rankOrder) {
+    return undefined;
+  }
+  return {
+    order: extension.rankOrder,
+    ...extension.handler.buildRank(
+      searchedDocument(extension, alias, formatField),
+      extension.search.query,
+      parameterManager,
+    ),
+  };
+}
+
+/**
+ * Checks whether a root criteria is ordered by its full-text search rank.
+ * @param criteria The root criteria.
+ * @returns True if `setFullTextSearch` was called with `orderByRank`.
+ */
+export function isOrderedBySearchRank(criteria: RootCriteria<any>): boolean {
+  return fullTextSearches.get(criteria)?.search.orderByRank === true;
+}
+
+/**
+ * The searched text, with the fields concatenated and NULL fields read as empty text,
+ * or the stored tsvector column.
+ */
+function searchedDocument(
+  extension: FullTextSearchExtension,
+  alias: string,
+  formatField: FieldNameFormatter,
+): string {
+  if (!extension.fields) {
+    return formatField(alias, extension.vectorField!);
+  }
+  if (extension.fields.length === 1) {
+    return formatField(alias, extension.fields[0]!);
+  }
+  return `(${extension.fields
+    .map((field) => `coalesce(${formatField(alias, field)}, '')`)
+    .join(` || ' ' || `)})`;
+}
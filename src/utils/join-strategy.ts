@@ -0,0 +1,209 @@
+import {
+  type CriteriaSchema,
+  Filter,
+  FilterOperator,
+  type FilterValue,
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  OuterJoinCriteria,
+  type PivotJoin,
+  SelectType,
+  type SimpleJoin,
+} from '@nulledexp/translatable-criteria';
+import { hasComputedOrders } from './computed-order.js';
+
+type JoinCriteria =
+  InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>;
+
+/**
+ * How a join criteria is translated.
+ * - `join`: a JOIN clause, whose type is given by the join criteria (default).
+ * - `exists`: a correlated `EXISTS (SELECT 1 ...)` condition, which keeps the parent rows having a match.
+ * - `not_exists`: a correlated `NOT EXISTS (SELECT 1 ...)` condition, which keeps the parent rows having none.
+ * - `lateral`: a `JOIN LATERAL (...)` subquery, which joins the related rows in the order of the join criteria,
+ *   limited by its take and skip (e.g. the 3 latest posts of each user). Only for one_to_many and many_to_many relations.
+ *
+ * `exists` and `not_exists` never multiply the parent rows, so take/skip keep counting root entities.
+ */
+export type JoinStrategy = 'join' | 'exists' | 'not_exists' | 'lateral';
+
+/**
+ * The strategies set on join criteria. Criteria without an entry are joined.
+ */
+const joinStrategies = new WeakMap<JoinCriteria, JoinStrategy>();
+
+/**
+ * Sets how a join criteria is translated.
+ * A criteria translated as an `exists` or `not_exists` subquery selects nothing, so it cannot have orderings or a cursor.
+ * Inside the subquery, its inner child joins (and children translated as subqueries)
+ * become nested subqueries; its LEFT and FULL OUTER child joins filter nothing, so they are left out.
+ * @param criteria The join criteria.
+ * @param strategy The join strategy.
+ * @returns The same criteria.
+ */
+export function setJoinStrategy<TCriteria extends JoinCriteria>(
+  criteria: TCriteria,
+  strategy: JoinStrategy,
+): TCriteria {
+  joinStrategies.set(criteria, strategy);
+  return criteria;
+}
+
+/**
+ * Gets how a join criteria is translated.
+ * @param criteria The join criteria.
+ * @returns The strategy set with `setJoinStrategy`, or `join` if none was set.
+ */
+export function getJoinStrategy(criteria: JoinCriteria): JoinStrategy {
+  return joinStrategies.get(criteria) ?? 'join';
+}
+
+/**
+ * The operators a relation count can be compared with.
+ */
+export type RelationCountOperator =
+  | FilterOperator.EQUALS
+  | FilterOperator.NOT_EQUALS
+  | FilterOperator.GREATER_THAN
+  | FilterOperator.GREATER_THAN_OR_EQUALS
+  | FilterOperator.LESS_THAN
+  | FilterOperator.LESS_THAN_OR_EQUALS
+  | FilterOperator.BETWEEN
+  | FilterOperator.NOT_BETWEEN
+  | FilterOperator.IN
+  | FilterOperator.NOT_IN;
+
+const RELATION_COUNT_OPERATORS: ReadonlySet<FilterOperator> = new Set([
+  FilterOperator.EQUALS,
+  FilterOperator.NOT_EQUALS,
+  FilterOperator.GREATER_THAN,
+  FilterOperator.GREATER_THAN_OR_EQUALS,
+  FilterOperator.LESS_THAN,
+  FilterOperator.LESS_THAN_OR_EQUALS,
+  FilterOperator.BETWEEN,
+  FilterOperator.NOT_BETWEEN,
+  FilterOperator.IN,
+  FilterOperator.NOT_IN,
+]);
+
+/**
+ * The relation count conditions set on join criteria, as filters on a `count` field.
+ */
+const relationCounts = new WeakMap<
+  JoinCriteria,
+  Filter<'count', RelationCountOperator>
+>();
+
+/**
+ * Sets a condition on the number of related rows of a join criteria.
+ * The join is translated as a correlated `(SELECT COUNT(*) ...)` subquery compared with the operator,
+ * and replaces its join strategy. The filters of the criteria (and its inner child joins)
+ * restrict which related rows are counted, like in `exists` subqueries.
+ * @param criteria The join criteria.
+ * @param operator The comparison operator.
+ * @param value The number (or numbers) the count is compared with.
+ * @returns The same criteria.
+ * @throws Error if the operator cannot compare counts, or a value is not a number.
+ * @example
+ * // Users with more than 3 posts
+ * criteria.join('posts', setRelationCount(postsJoin, FilterOperator.GREATER_THAN, 3));
+ */
+export function setRelationCount<
+  TCriteria extends JoinCriteria,
+  Operator extends RelationCountOperator,
+>(
+  criteria: TCriteria,
+  operator: Operator,
+  value: FilterValue<Operator>,
+): TCriteria {
+  if (!RELATION_COUNT_OPERATORS.has(operator)) {
+    throw new Error(
+      `The relation count of '${criteria.sourceName}' cannot be compared with the operator ${operator}.`,
+    );
+  }
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  if (values.some((item) => typeof item !== 'number')) {
+    throw new Error(
+      `The relation count of '${criteria.sourceName}' must be compared with numbers.`,
+    );
+  }
+  relationCounts.set(
+    criteria,
+    new Filter({ field: 'count', operator, value }) as Filter<
+      'count',
+      RelationCountOperator
+    >,
+  );
+  return criteria;
+}
+
+/**
+ * Gets the relation count condition of a join criteria.
+ * @param criteria The join criteria.
+ * @returns The condition set with `setRelationCount`, as a filter on a `count` field, if any.
+ */
+export function getRelationCount(
+  criteria: JoinCriteria,
+): Filter<'count', RelationCountOperator> | undefined {
+  return relationCounts.get(criteria);
+}
+
+/**
+ * Checks whether a join criteria is translated as a subquery condition instead of a JOIN clause:
+ * it has a relation count condition, or its strategy is `exists` or `not_exists`.
+ * @param criteria The join criteria.
+ */
+export function isSubqueryJoin(criteria: JoinCriteria): boolean {
+  const strategy = getJoinStrategy(criteria);
+  return (
+    relationCounts.has(criteria) ||
+    strategy === 'exists' ||
+    strategy === 'not_exists'
+  );
+}
+
+/**
+ * Checks that a join criteria can be translated as a subquery.
+ * @param criteria The join criteria.
+ * @throws Error if the criteria has orderings (including orderings by relation aggregates or similarity) or a cursor.
+ */
+export function assertSubqueryJoin(criteria: JoinCriteria): void {
+  if (
+    criteria.orders.length > 0 ||
+    hasComputedOrders(criteria) ||
+    criteria.cursor !== undefined
+  ) {
+    throw new Error(
+      `The join criteria of '${criteria.sourceName}' is translated as ${relationCounts.has(criteria) ? 'a COUNT' : 'an EXISTS'} subquery, so it cannot have orderings or a cursor.`,
+    );
+  }
+}
+
+/**
+ * Checks that a join criteria can be translated as a LATERAL join.
+ * @param criteria The join criteria.
+ * @param parameters The join parameters.
+ * @throws Error if the join is a FULL OUTER join, its relation is not one_to_many or many_to_many,
+ * or it selects ID_ONLY (relation ids are loaded without the take of the join).
+ */
+export function assertLateralJoin(
+  criteria: JoinCriteria,
+  parameters:
+    | PivotJoin<CriteriaSchema, CriteriaSchema>
+    | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+): void {
+  if (
+    criteria instanceof OuterJoinCriteria ||
+    (parameters.relation_type !== 'one_to_many' &&
+      parameters.relation_type !== 'many_to_many')
+  ) {
+    throw new Error(
+      `The join '${parameters.relation_alias}' cannot be a LATERAL join: only INNER and LEFT joins of one_to_many and many_to_many relations are supported.`,
+    );
+  }
+  if (parameters.join_options?.select === SelectType.ID_ONLY) {
+    throw new Error(
+      `The LATERAL join '${parameters.relation_alias}' cannot select ID_ONLY, since relation ids are loaded without its take.`,
+    );
+  }
+}
@@ -0,0 +1,109 @@
+import type { TypeOrmConditionFragment } from './type-orm-filter-fragment-builder.js';
+import type { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import { InvalidFilterValueError } from './translation-error.js';
+
+/**
+ * The largest array index Postgres accepts in a JSON path (a 32-bit integer).
+ */
+const MAX_ARRAY_INDEX = 2147483647;
+
+/**
+ * Checks whether a JSON path segment is an array index (e.g. the `0` of `items.0.sku`).
+ * @param segment The path segment.
+ * @returns True if the segment is a non-negative integer without leading zeros.
+ */
+export function isArrayIndexSegment(segment: string): boolean {
+  return (
+    /^(0|[1-9][0-9]*)$/.test(segment) && Number(segment) <= MAX_ARRAY_INDEX
+  );
+}
+
+/**
+ * Splits a dot-notation JSON path (e.g. `details.ip_address` or `items.0.sku`) into its segments.
+ * Segments are bound as query parameters, so they can hold any character but the dot;
+ * digit-only segments are array indexes.
+ * @param field The field of the filter, for the error.
+ * @param path The dot-notation path.
+ * @returns The segments of the path.
+ * @throws InvalidFilterValueError if the path has an empty segment, a NUL character,
+ * or a digit-only segment that is not a valid array index.
+ */
+export function parseJsonPath(field: string, path: string): string[] {
+  const segments = path.split('.');
+  const isValid = segments.every(
+    (segment) =>
+      segment.length > 0 &&
+      !segment.includes('\u0000') &&
+      (!/^[0-9]+$/.test(segment) || isArrayIndexSegment(segment)),
+  );
+  if (!isValid) {
+    throw new InvalidFilterValueError(
+      `Invalid JSON path for the field '${field}': '${path}'.`,
+      field,
+      path,
+    );
+  }
+  return segments;
+}
+
+/**
+ * Builds the expression of the value at a JSON path, with the path bound as a `text[]` parameter.
+ * @param fieldName The JSON column.
+ * @param segments The segments of the path.
+ * @param parameterManager The parameter manager.
+ * @param asText True to extract the value as text (`#>>`), false to keep it as JSON (`#>`).
+ * @returns The expression and the path parameter.
+ */
+export function buildJsonPathExpression(
+  fieldName: string,
+  segments: string[],
+  parameterManager: TypeOrmParameterManager,
+  asText: boolean = false,
+): { expression: string; parameters: Record<string, string[]> } {
+  const paramName = parameterManager.generateParamName();
+  return {
+    expression: `${fieldName} ${asText ? '#>>' : '#>'} :${paramName}::text[]`,
+    parameters: { [paramName]: segments },
+  };
+}
+
+/**
+ * Builds the condition of a JSON column containing a value at a path.
+ * Paths of object keys are matched with a nested structure (`col @> '{"a":{"b":value}}'`), which JSON indexes can serve.
+ * Paths with array indexes cannot be expressed as a structure, so the value at the path is extracted
+ * and matched instead, NULL-safe so a missing path does not contain the value.
+ * @param fieldName The JSON column.
+ * @param segments The segments of the path, empty to match the column itself.
+ * @param value The contained value.
+ * @param parameterManager The parameter manager.
+ * @returns The containment condition and its parameters.
+ */
+export function buildJsonPathContainment(
+  fieldName: string,
+  segments: string[],
+  value: unknown,
+  parameterManager: TypeOrmParameterManager,
+): TypeOrmConditionFragment {
+  if (segments.some(isArrayIndexSegment)) {
+    const { expression, parameters } = buildJsonPathExpression(
+      fieldName,
+      segments,
+      parameterManager,
+    );
+    const paramName = parameterManager.generateParamName();
+    return {
+      queryFragment: `coalesce(${expression} @> :${paramName}::jsonb, false)`,
+      parameters: { ...parameters, [paramName]: JSON.stringify(value) },
+    };
+  }
+
+  let structure = value;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    structure = { [segments[i]!]: structure };
+  }
+  const paramName = parameterManager.generateParamName();
+  return {
+    queryFragment: `${fieldName} @> :${paramName}::jsonb`,
+    parameters: { [paramName]: JSON.stringify(structure) },
+  };
+}
@@ -0,0 +1,194 @@
+import type {
+  Cursor,
+  FilterOperator,
+  FilterPrimitive,
+  InnerJoinCriteria,
+  LeftJoinCriteria,
+  OrderDirection,
+  OuterJoinCriteria,
+  RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { getRelationAggregateOrders } from './relation-aggregate-order.js';
+
+type CursorOperator = FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN;
+
+type CursorCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * A field of a keyset cursor and the value of the row the cursor points to.
+ */
+export type KeysetCursorField = Omit<
+  FilterPrimitive<string, CursorOperator>,
+  'operator'
+>;
+
+/**
+ * Options for setKeysetCursor.
+ */
+export type KeysetCursorOptions = {
+  /**
+   * Fetch the page before the cursor instead of the page after it.
+   * The query is ordered the other way round, so its rows must be passed to `restorePageOrder`.
+   */
+  before?: boolean;
+};
+
+type CursorExtension = {
+  fields: ReadonlyArray<FilterPrimitive<string, CursorOperator>>;
+  before: boolean;
+};
+
+/**
+ * What a keyset cursor adds to the criteria Cursor it extends: all its fields, including those beyond
+ * the first two (`Criteria.setCursor` holds at most two) and relation aggregates, and the page direction.
+ * Keying by the Cursor instance drops them as soon as the criteria cursor is replaced.
+ */
+const cursorExtensions = new WeakMap<
+  Cursor<string, CursorOperator>,
+  CursorExtension
+>();
+
+/**
+ * Sets a keyset cursor with any number of fields on a criteria.
+ * The first two schema fields are set with `criteria.setCursor`, so the cursor keeps its place in the
+ * sequence of cursors of the query; the translator takes all the fields from the keyset cursor.
+ * Fields can also be the names of relation aggregates the criteria is ordered by (see `orderByRelationAggregate`).
+ * @param criteria The root or join criteria.
+ * @param fields The ordered fields and the values of the row the cursor points to, in ordering sequence.
+ * @param operator GREATER_THAN to fetch rows after the cursor in ascending order, LESS_THAN in descending order.
+ * @param order The order direction of the cursor.
+ * @param options Keyset cursor options.
+ * @returns The same criteria.
+ * @throws Error if no field is given, a field is repeated or is neither defined in the schema nor a relation aggregate,
+ * or only relation aggregates are given (they are not unique, so they cannot locate a row on their own).
+ */
+export function setKeysetCursor<TCriteria extends CursorCriteria>(
+  criteria: TCriteria,
+  fields: ReadonlyArray<KeysetCursorField>,
+  operator: CursorOperator,
+  order: OrderDirection,
+  options: KeysetCursorOptions = {},
+): TCriteria {
+  if (fields.length === 0) {
+    throw new Error('A keyset cursor must have at least one field.');
+  }
+  const fieldNames = fields.map(({ field }) => field);
+  const repeatedField = fieldNames.find(
+    (field, index) => fieldNames.indexOf(field) !== index,
+  );
+  if (repeatedField !== undefined) {
+    throw new Error(
+      `Keyset cursor fields must be different, but '${repeatedField}' is repeated.`,
+    );
+  }
+  const aggregateNames = getRelationAggregateOrders(criteria).map(
+    ({ order }) => order.field,
+  );
+  for (const field of fieldNames) {
+    if (
+      !criteria.schema.fields.includes(field) &&
+      !aggregateNames.includes(field)
+    ) {
+      throw new Error(
+        `The field '${field}' is not defined in the schema '${criteria.sourceName}'.`,
+      );
+    }
+  }
+  const [firstSchemaField, secondSchemaField] = fields.filter(({ field }) =>
+    criteria.schema.fields.includes(field),
+  );
+  if (!firstSchemaField) {
+    throw new Error(
+      `A keyset cursor must have at least one field of the schema '${criteria.sourceName}', besides relation aggregates.`,
+    );
+  }
+
+  const criteriaCursorFields:
+    | readonly [KeysetCursorField]
+    | readonly [KeysetCursorField, KeysetCursorField] = secondSchemaField
+    ? [firstSchemaField, secondSchemaField]
+    : [firstSchemaField];
+  criteria.setCursor(criteriaCursorFields, operator, order);
+  cursorExtensions.set(criteria.cursor!, {
+    fields: fields.map(({ field, value }) => ({ field, operator, value })),
+    before: options.before ?? false,
+  });
+  return criteria;
+}
+
+/**
+ * Gets all the fields of a criteria cursor, including those set beyond the second
+ * and the relation aggregates set by `setKeysetCursor`.
+ * @param cursor The criteria cursor.
+ * @returns The cursor fields, in ordering sequence.
+ */
+export function getCursorFields(
+  cursor: Cursor<string, CursorOperator>,
+): ReadonlyArray<FilterPrimitive<string, CursorOperator>> {
+  return cursorExtensions.get(cursor)?.fields ?? cursor.filters;
+}
+
+/**
+ * Checks whether a criteria cursor fetches the page before it.
+ * @param cursor The criteria cursor.
+ * @returns True if the cursor was set by `setKeysetCursor` with the `before` option.
+ */
+export function isBeforeCursor(
+  cursor: Cursor<string, CursorOperator>,
+): boolean {
+  return cursorExtensions.get(cursor)?.before ?? false;
+}
+
+/**
+ * Puts the rows of a page fetched before a cursor back in the order of the criteria.
+ * Such pages are queried in the reverse order, so that the rows nearest to the cursor are taken first.
+ * @param criteria The criteria the rows were fetched with.
+ * @param rows The fetched rows.
+ * @returns The rows in criteria order: reversed if the criteria pages before its cursor, as given otherwise.
+ */
+export function restorePageOrder<TRow>(
+  criteria: RootCriteria<any>,
+  rows: ReadonlyArray<TRow>,
+): TRow[] {
+  return pagesBeforeCursor(criteria) ? [...rows].reverse() : [...rows];
+}
+
+/**
+ * Checks whether a criteria or any of its joins has a cursor that fetches the page before it.
+ * @param criteria The root or join criteria.
+ * @returns True if a cursor of the criteria tree was set with the `before` option.
+ */
+export function pagesBeforeCursor(criteria: CursorCriteria): boolean {
+  return (
+    (criteria.cursor !== undefined && isBeforeCursor(criteria.cursor)) ||
+    criteria.joins.some((joinDetail) => pagesBeforeCursor(joinDetail.criteria))
+  );
+}
+
+/**
+ * Checks whether a criteria or any of its joins has a cursor.
+ * @param criteria The root or join criteria.
+ * @returns True if a cursor is set in the criteria tree.
+ */
+export function hasCursor(criteria: CursorCriteria): boolean {
+  return (
+    criteria.cursor !== undefined ||
+    criteria.joins.some((joinDetail) => hasCursor(joinDetail.criteria))
+  );
+}
+
+/**
+ * Checks whether a criteria or any of its joins has orderings.
+ * @param criteria The root or join criteria.
+ * @returns True if an `orderBy` is set in the criteria tree.
+ */
+export function hasOrderings(criteria: CursorCriteria): boolean {
+  return (
+    criteria.orders.length > 0 ||
+    criteria.joins.some((joinDetail) => hasOrderings(joinDetail.criteria))
+  );
+}
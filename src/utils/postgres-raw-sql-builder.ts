@@ -0,0 +1,778 @@
+import type { DataSource, ObjectLiteral } from 'typeorm';
+import {
+  type CriteriaSchema,
+  type FieldOfSchema,
+  type FilterGroup,
+  InnerJoinCriteria,
+  LeftJoinCriteria,
+  type OuterJoinCriteria,
+  type PivotJoin,
+  type RootCriteria,
+  SelectType,
+  type SimpleJoin,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import {
+  type TypeOrmConditionFragment,
+  TypeOrmFilterFragmentBuilder,
+} from './type-orm-filter-fragment-builder.js';
+import { TypeOrmConditionBuilder } from './type-orm-condition-builder.js';
+import { QueryState } from './query-state.js';
+import { FilterOperatorHandlerRegistry } from './filter-operator-handler-registry.js';
+import {
+  assertLateralJoin,
+  assertSubqueryJoin,
+  getJoinStrategy,
+  getRelationCount,
+  isSubqueryJoin,
+} from './join-strategy.js';
+import { getRelationAggregateOrders } from './relation-aggregate-order.js';
+import { type ComputedOrder, hasComputedOrders } from './computed-order.js';
+import { buildSimilarityOrders } from './similarity-order.js';
+import {
+  buildFullTextSearchCondition,
+  buildFullTextSearchRank,
+} from './full-text-search.js';
+import { AGGREGATE_EXPRESSIONS } from './type-orm-aggregation-applier.js';
+
+/**
+ * A raw PostgreSQL query with positional (`$1..$n`) placeholders,
+ * ready to be passed to a `pg` client as `client.query(sql, values)`.
+ */
+export type RawSqlQuery = {
+  sql: string;
+  values: unknown[];
+};
+
+type JoinCriteria =
+  InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>;
+
+/**
+ * The rows a related rows subquery selects from: the source of the relation target and its filters.
+ */
+type RelatedRows = {
+  sourceName: string;
+  rootFilterGroup?: FilterGroup<any>;
+};
+
+/**
+ * Builds a raw PostgreSQL SELECT statement from a RootCriteria, without a SelectQueryBuilder.
+ * Table names are taken from the CriteriaSchema, and column names too unless a DataSource is given,
+ * in which case fields are mapped to the columns of the entity mapped to each `source_name`.
+ * Filter, ON and cursor conditions are built with the same handlers used by the QueryBuilder translation.
+ */
+export class PostgresRawSqlBuilder {
+  private _parameterManager: TypeOrmParameterManager;
+  private _conditionBuilder: TypeOrmConditionBuilder;
+  private _queryState: QueryState;
+  private _usedAliases: Set<string> = new Set<string>();
+  private _selects: Set<string> = new Set<string>();
+  private _joins: string[] = [];
+  private _subqueryConditions: string[] = [];
+  /** The index in `_joins` of the LEFT and FULL join clauses, by alias, whose ON clause receives their subquery children. */
+  private _outerJoinIndexes = new Map<string, number>();
+  private _parameters: ObjectLiteral = {};
+
+  /**
+   * @param _handlerRegistry Resolves the handler of each filter operator.
+   * @param _dataSource An initialized DataSource whose entity metadata maps fields to column names.
+   */
+  constructor(
+    private _handlerRegistry: FilterOperatorHandlerRegistry = new FilterOperatorHandlerRegistry(),
+    private _dataSource?: DataSource,
+  ) {
+    this._parameterManager = new TypeOrmParameterManager();
+    this._queryState = new QueryState();
+    this._conditionBuilder = new TypeOrmConditionBuilder(
+      this._parameterManager,
+      new TypeOrmFilterFragmentBuilder(
+        this._parameterManager,
+        (alias, field) => this.quoteFieldPath(alias, field),
+        _handlerRegistry,
+        (alias) => this._queryState.getAliasSourceName(alias),
+      ),
+    );
+  }
+
+  /**
+   * Builds the SQL statement and its positional values.
+   * @param criteria The RootCriteria to translate.
+   * @returns The SQL string and the values matching its `$n` placeholders.
+   */
+  public build<RootCriteriaSchema extends CriteriaSchema>(
+    criteria: RootCriteria<RootCriteriaSchema>,
+  ): RawSqlQuery {
+    this._usedAliases.add(criteria.alias);
+    this._queryState.registerAliasSourceName(
+      criteria.alias,
+      criteria.sourceName,
+    );
+    this.addSelectedFields(criteria.alias, criteria.select);
+    this._queryState.collectCursor(criteria.alias, criteria.cursor);
+    this._queryState.recordOrderBy(criteria.orders, criteria.alias);
+    this.recordRelationAggregateOrders(criteria, criteria.alias);
+    const searchRank = buildFullTextSearchRank(
+      criteria,
+      criteria.alias,
+      (alias, field) => this.quoteFieldPath(alias, field),
+      this._parameterManager,
+    );
+    this.recordExpressionOrders(searchRank ? [searchRank] : [], criteria.alias);
+    this.recordSimilarityOrders(criteria, criteria.alias);
+
+    this.buildJoins(criteria, criteria.alias);
+
+    const whereConditions: string[] = [];
+    const rootCondition = this._conditionBuilder.buildConditionStringFromGroup(
+      criteria.rootFilterGroup,
+      criteria.alias,
+    );
+    if (rootCondition) {
+      whereConditions.push(`(${rootCondition.conditionString})`);
+      Object.assign(this._parameters, rootCondition.parameters);
+    }
+    const searchCondition = buildFullTextSearchCondition(
+      criteria,
+      criteria.alias,
+      (alias, field) => this.quoteFieldPath(alias, field),
+      this._parameterManager,
+    );
+    if (searchCondition) {
+      whereConditions.push(`(${searchCondition.queryFragment})`);
+      Object.assign(this._parameters, searchCondition.parameters);
+    }
+    whereConditions.push(...this._subqueryConditions);
+
+    const cursorParts = this._queryState
+      .processAndValidateCursors()
+      .map((part) => {
+        if (part.isExpression) {
+          return part;
+        }
+        const [alias, ...fieldParts] = part.field.split('.');
+        return {
+          ...part,
+          field: this.quoteFieldPath(alias!, fieldParts.join('.')),
+        };
+      });
+    if (cursorParts.length > 0) {
+      const cursorCondition =
+        this._conditionBuilder.buildCursorCondition(cursorParts);
+      whereConditions.push(`(${cursorCondition.queryFragment})`);
+      Object.assign(this._parameters, cursorCondition.parameters);
+    }
+    if (this._queryState.isPaginatingBackward()) {
+      this._queryState
+        .getOrderBy()
+        .filter(([, order]) => !this._queryState.getOrderExpression(order))
+        .forEach(([alias, order]) =>
+          this._selects.add(this.selectField(alias, String(order.field))),
+        );
+    }
+
+    const fromClauses = [
+      `FROM ${this.quoteIdentifier(criteria.sourceName)} ${this.quoteIdentifier(criteria.alias)}`,
+      ...this._joins,
+    ];
+    const limitClauses: string[] = [];
+    if (criteria.take > 0) {
+      limitClauses.push(`LIMIT ${criteria.take}`);
+    }
+    if (criteria.skip > 0 && !criteria.cursor) {
+      limitClauses.push(`OFFSET ${criteria.skip}`);
+    }
+    const pagesRootRows = limitClauses.length > 0 && this._joins.length > 0;
+    if (pagesRootRows) {
+      whereConditions.push(
+        this.buildRootPageCondition(
+          criteria,
+          fromClauses,
+          [...whereConditions],
+          limitClauses,
+        ),
+      );
+    }
+
+    const clauses = [
+      `SELECT ${this._selects.size > 0 ? Array.from(this._selects).join(', ') : '1'}`,
+      ...fromClauses,
+    ];
+    if (whereConditions.length > 0) {
+      clauses.push(`WHERE ${whereConditions.join(' AND ')}`);
+    }
+
+    const orderBy = this.buildOrderBy();
+    if (orderBy) {
+      clauses.push(orderBy);
+    }
+    if (!pagesRootRows) {
+      clauses.push(...limitClauses);
+    }
+
+    const sql =
+      this._queryState.isPaginatingBackward() &&
+      this._queryState.getOrderBy().length > 0
+        ? this.restorePageOrder(clauses.join(' '))
+        : clauses.join(' ');
+    return this.toPositionalParameters(sql, this._parameters);
+  }
+
+  /**
+   * Builds the condition restricting a query with joins to a page of root rows.
+   * Joins can repeat a root row, so `take` and `skip` are applied to the distinct root identifiers,
+   * ranked by their first row in the criteria order, like the `take` and `skip` of TypeORM.
+   */
+  private buildRootPageCondition(
+    criteria: RootCriteria<any>,
+    fromClauses: string[],
+    whereConditions: string[],
+    limitClauses: string[],
+  ): string {
+    const identifier = this.quoteFieldPath(
+      criteria.alias,
+      String(criteria.identifierField),
+    );
+    const rows = [
+      `SELECT ${identifier} AS "id", ROW_NUMBER() OVER (${this.buildOrderBy(true) ?? ''}) AS "row_number"`,
+      ...fromClauses,
+    ];
+    if (whereConditions.length > 0) {
+      rows.push(`WHERE ${whereConditions.join(' AND ')}`);
+    }
+    return `${identifier} IN (SELECT "page_rows"."id" FROM (${rows.join(' ')}) "page_rows" GROUP BY "page_rows"."id" ORDER BY MIN("page_rows"."row_number") ${limitClauses.join(' ')})`;
+  }
+
+  /**
+   * Recursively builds the JOIN clauses and selections of a criteria's joins.
+   * The condition of a join translated as a subquery is AND-ed to the ON clause of its parent join
+   * when the parent is a LEFT or FULL join, as in the QueryBuilder translation, and to the WHERE clause otherwise.
+   */
+  private buildJoins(
+    criteria: RootCriteria<any> | JoinCriteria,
+    parentAlias: string,
+  ): void {
+    for (const joinDetail of criteria.joins) {
+      const joinCriteria = joinDetail.criteria;
+      const parameters = {
+        ...joinDetail.parameters,
+        parent_alias: parentAlias,
+      };
+
+      if (isSubqueryJoin(joinCriteria)) {
+        const condition = this.buildSubqueryCondition(joinCriteria, parameters);
+        const outerJoinIndex = this._outerJoinIndexes.get(parentAlias);
+        if (outerJoinIndex !== undefined) {
+          this._joins[outerJoinIndex] += ` AND ${condition}`;
+        } else {
+          this._subqueryConditions.push(condition);
+        }
+        continue;
+      }
+
+      if (
+        getJoinStrategy(joinCriteria) !== 'lateral' &&
+        this.canOptimizeJoin(joinCriteria, parameters)
+      ) {
+        this._selects.add(
+          this.selectField(
+            parentAlias,
+            String((parameters as SimpleJoin<any, any>).local_field),
+          ),
+        );
+        continue;
+      }
+
+      const joinAlias = this.resolveUniqueAlias(parameters.relation_alias);
+      this._queryState.registerAliasSourceName(
+        joinAlias,
+        joinCriteria.sourceName,
+      );
+      if (getJoinStrategy(joinCriteria) === 'lateral') {
+        this._joins.push(
+          this.buildLateralJoin(joinCriteria, parameters, joinAlias),
+        );
+      } else {
+        this.buildJoinClauses(joinCriteria, parameters, joinAlias);
+      }
+      if (!(joinCriteria instanceof InnerJoinCriteria)) {
+        this._outerJoinIndexes.set(joinAlias, this._joins.length - 1);
+      }
+
+      this.handleSelection(joinCriteria, parameters, joinAlias);
+      this._queryState.collectCursor(joinAlias, joinCriteria.cursor);
+      this._queryState.recordOrderBy(joinCriteria.orders, joinAlias);
+      this.recordRelationAggregateOrders(joinCriteria, joinAlias);
+      this.recordSimilarityOrders(joinCriteria, joinAlias);
+
+      this.buildJoins(joinCriteria, joinAlias);
+    }
+  }
+
+  /**
+   * Builds the JOIN clauses of a joined criteria, with its filters in the ON condition.
+   * many_to_many relations are joined through their pivot table.
+   */
+  private buildJoinClauses(
+    joinCriteria: JoinCriteria,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    joinAlias: string,
+  ): void {
+    const parentAlias = parameters.parent_alias;
+    const joinKeyword =
+      joinCriteria instanceof InnerJoinCriteria
+        ? 'INNER JOIN'
+        : joinCriteria instanceof LeftJoinCriteria
+          ? 'LEFT JOIN'
+          : 'FULL OUTER JOIN';
+
+    const onCondition = this._conditionBuilder.buildConditionStringFromGroup(
+      joinCriteria.rootFilterGroup,
+      joinAlias,
+    );
+    if (onCondition) {
+      Object.assign(this._parameters, onCondition.parameters);
+    }
+    const extraOnCondition = onCondition
+      ? ` AND (${onCondition.conditionString})`
+      : '';
+    const target = `${this.quoteIdentifier(joinCriteria.sourceName)} ${this.quoteIdentifier(joinAlias)}`;
+
+    if (parameters.relation_type === 'many_to_many') {
+      const pivotParameters = parameters as PivotJoin<any, any>;
+      const pivotAlias = this.resolveUniqueAlias(`${parentAlias}_${joinAlias}`);
+      this._joins.push(
+        `${joinKeyword} ${this.quoteIdentifier(pivotParameters.pivot_source_name)} ${this.quoteIdentifier(pivotAlias)} ON ${this.quoteFieldPath(pivotAlias, pivotParameters.local_field.pivot_field)} = ${this.quoteFieldPath(parentAlias, String(pivotParameters.local_field.reference))}`,
+        `${joinKeyword} ${target} ON ${this.quoteFieldPath(joinAlias, String(pivotParameters.relation_field.reference))} = ${this.quoteFieldPath(pivotAlias, pivotParameters.relation_field.pivot_field)}${extraOnCondition}`,
+      );
+    } else {
+      const simpleParameters = parameters as SimpleJoin<any, any>;
+      this._joins.push(
+        `${joinKeyword} ${target} ON ${this.quoteFieldPath(joinAlias, String(simpleParameters.relation_field))} = ${this.quoteFieldPath(parentAlias, String(simpleParameters.local_field))}${extraOnCondition}`,
+      );
+    }
+  }
+
+  /**
+   * Builds the `(SELECT COUNT(*) ...)` or `[NOT] EXISTS (SELECT 1 ...)` condition of a join criteria
+   * translated as a subquery, mirroring the QueryBuilder translation: its filters go to the WHERE clause
+   * of the subquery, and its INNER child joins, or children translated as subqueries, become nested conditions.
+   */
+  private buildSubqueryCondition(
+    criteria: JoinCriteria,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+  ): string {
+    assertSubqueryJoin(criteria);
+
+    const subqueryAlias = this.resolveUniqueAlias(
+      `${parameters.parent_alias}_${parameters.relation_alias}`,
+    );
+    const relationCount = getRelationCount(criteria);
+    const { from, conditions } = this.buildRelatedRowsQuery(
+      criteria,
+      parameters,
+      subqueryAlias,
+    );
+    const clauses = [`SELECT ${relationCount ? 'COUNT(*)' : '1'}`, ...from];
+
+    for (const joinDetail of criteria.joins) {
+      if (
+        !(joinDetail.criteria instanceof InnerJoinCriteria) &&
+        !isSubqueryJoin(joinDetail.criteria)
+      ) {
+        continue;
+      }
+      conditions.push(
+        this.buildSubqueryCondition(joinDetail.criteria, {
+          ...joinDetail.parameters,
+          parent_alias: subqueryAlias,
+        }),
+      );
+    }
+
+    clauses.push(`WHERE ${conditions.join(' AND ')}`);
+    if (relationCount) {
+      const { queryFragment, parameters: countParams } =
+        new TypeOrmFilterFragmentBuilder(
+          this._parameterManager,
+          () => `(${clauses.join(' ')})`,
+          this._handlerRegistry,
+          () => criteria.sourceName,
+        ).build(relationCount, subqueryAlias);
+      Object.assign(this._parameters, countParams);
+      return queryFragment;
+    }
+    const keyword =
+      getJoinStrategy(criteria) === 'not_exists' ? 'NOT EXISTS' : 'EXISTS';
+    return `${keyword} (${clauses.join(' ')})`;
+  }
+
+  /**
+   * Records the relation aggregate orderings of a criteria, mirroring the QueryBuilder translation:
+   * each aggregate is computed by a correlated subquery over the rows related to the alias,
+   * and selected as `<alias>_<name>`.
+   */
+  private recordRelationAggregateOrders(
+    criteria: RootCriteria<any> | JoinCriteria,
+    alias: string,
+  ): void {
+    for (const {
+      order,
+      aggregate,
+      sourceName,
+      parameters,
+    } of getRelationAggregateOrders(criteria)) {
+      const subqueryAlias = this.resolveUniqueAlias(
+        `${alias}_${parameters.relation_alias}`,
+      );
+      const { from, conditions } = this.buildRelatedRowsQuery(
+        { sourceName },
+        { ...parameters, parent_alias: alias },
+        subqueryAlias,
+      );
+      const aggregatedField =
+        aggregate.field === undefined
+          ? '*'
+          : this.quoteFieldPath(subqueryAlias, aggregate.field);
+      const expression = `(${[
+        `SELECT ${AGGREGATE_EXPRESSIONS[aggregate.function](aggregatedField)}`,
+        ...from,
+        `WHERE ${conditions.join(' AND ')}`,
+      ].join(' ')})`;
+
+      this._queryState.recordOrderExpression(order, expression, alias);
+      this._selects.add(
+        `${expression} AS ${this.quoteIdentifier(`${alias}_${order.field}`)}`,
+      );
+    }
+  }
+
+  /**
+   * Records the similarity orderings of a criteria under its alias.
+   */
+  private recordSimilarityOrders(
+    criteria: RootCriteria<any> | JoinCriteria,
+    alias: string,
+  ): void {
+    this.recordExpressionOrders(
+      buildSimilarityOrders(
+        criteria,
+        alias,
+        (currentAlias, field) => this.quoteFieldPath(currentAlias, field),
+        this._parameterManager,
+      ),
+      alias,
+    );
+  }
+
+  /**
+   * Records orderings by computed expressions (a search rank or similarities),
+   * each selected as `<alias>_<name>` like the QueryBuilder translation.
+   */
+  private recordExpressionOrders(
+    orders: ReadonlyArray<TypeOrmConditionFragment & { order: ComputedOrder }>,
+    alias: string,
+  ): void {
+    for (const { order, queryFragment, parameters } of orders) {
+      Object.assign(this._parameters, parameters);
+      this._queryState.recordOrderExpression(order, queryFragment, alias);
+      this._selects.add(
+        `${queryFragment} AS ${this.quoteIdentifier(`${alias}_${order.field}`)}`,
+      );
+    }
+  }
+
+  /**
+   * Builds the FROM clauses and WHERE conditions of a subquery over the rows related to the parent alias,
+   * restricted by the filters of the related rows, if any.
+   */
+  private buildRelatedRowsQuery(
+    relatedRows: RelatedRows,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    subqueryAlias: string,
+  ): { from: string[]; conditions: string[] } {
+    const parentAlias = parameters.parent_alias;
+    this._queryState.registerAliasSourceName(
+      subqueryAlias,
+      relatedRows.sourceName,
+    );
+    const from = [
+      `FROM ${this.quoteIdentifier(relatedRows.sourceName)} ${this.quoteIdentifier(subqueryAlias)}`,
+    ];
+    const conditions: string[] = [];
+
+    if (parameters.relation_type === 'many_to_many') {
+      const pivotParameters = parameters as PivotJoin<any, any>;
+      const pivotAlias = this.resolveUniqueAlias(`${subqueryAlias}_pivot`);
+      from.push(
+        `INNER JOIN ${this.quoteIdentifier(pivotParameters.pivot_source_name)} ${this.quoteIdentifier(pivotAlias)} ON ${this.quoteFieldPath(pivotAlias, pivotParameters.relation_field.pivot_field)} = ${this.quoteFieldPath(subqueryAlias, String(pivotParameters.relation_field.reference))}`,
+      );
+      conditions.push(
+        `${this.quoteFieldPath(pivotAlias, pivotParameters.local_field.pivot_field)} = ${this.quoteFieldPath(parentAlias, String(pivotParameters.local_field.reference))}`,
+      );
+    } else {
+      const simpleParameters = parameters as SimpleJoin<any, any>;
+      conditions.push(
+        `${this.quoteFieldPath(subqueryAlias, String(simpleParameters.relation_field))} = ${this.quoteFieldPath(parentAlias, String(simpleParameters.local_field))}`,
+      );
+    }
+
+    const filterCondition =
+      relatedRows.rootFilterGroup &&
+      this._conditionBuilder.buildConditionStringFromGroup(
+        relatedRows.rootFilterGroup,
+        subqueryAlias,
+      );
+    if (filterCondition) {
+      conditions.push(`(${filterCondition.conditionString})`);
+      Object.assign(this._parameters, filterCondition.parameters);
+    }
+    return { from, conditions };
+  }
+
+  /**
+   * Builds the `[LEFT|INNER] JOIN LATERAL (...) ON TRUE` clause of a join criteria set to the `lateral` strategy,
+   * mirroring the QueryBuilder translation: the subquery is ordered by the criteria orderings and limited by its take and skip.
+   */
+  private buildLateralJoin(
+    criteria: JoinCriteria,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    joinAlias: string,
+  ): string {
+    assertLateralJoin(criteria, parameters);
+
+    const { from, conditions } = this.buildRelatedRowsQuery(
+      criteria,
+      parameters,
+      joinAlias,
+    );
+    const clauses = [
+      `SELECT ${this.quoteIdentifier(joinAlias)}.*`,
+      ...from,
+      `WHERE ${conditions.join(' AND ')}`,
+    ];
+    if (criteria.orders.length > 0) {
+      const orderBy = criteria.orders.map(
+        (order) =>
+          `${this.quoteFieldPath(joinAlias, String(order.field))} ${order.direction} ${order.nullsFirst ? 'NULLS FIRST' : 'NULLS LAST'}`,
+      );
+      clauses.push(`ORDER BY ${orderBy.join(', ')}`);
+    }
+    if (criteria.take > 0) {
+      clauses.push(`LIMIT ${criteria.take}`);
+    }
+    if (criteria.skip > 0) {
+      clauses.push(`OFFSET ${criteria.skip}`);
+    }
+
+    const joinKeyword =
+      criteria instanceof InnerJoinCriteria ? 'INNER JOIN' : 'LEFT JOIN';
+    return `${joinKeyword} LATERAL (${clauses.join(' ')}) ${this.quoteIdentifier(joinAlias)} ON TRUE`;
+  }
+
+  /**
+   * Checks if the JOIN can be skipped, mirroring the QueryBuilder translation:
+   * owning-side SimpleJoins selecting only the ID, without filters, orders or child joins.
+   */
+  private canOptimizeJoin(
+    criteria: JoinCriteria,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+  ): boolean {
+    if (
+      parameters.relation_type === 'many_to_many' ||
+      !(
+        criteria instanceof InnerJoinCriteria ||
+        criteria instanceof LeftJoinCriteria
+      )
+    ) {
+      return false;
+    }
+
+    const selectType =
+      parameters.join_options?.select ?? SelectType.FULL_ENTITY;
+    if (
+      selectType !== SelectType.ID_ONLY ||
+      criteria.rootFilterGroup.items.length > 0 ||
+      criteria.joins.length > 0 ||
+      criteria.orders.length > 0 ||
+      hasComputedOrders(criteria)
+    ) {
+      return false;
+    }
+
+    return parameters.local_field !== parameters.parent_identifier;
+  }
+
+  /**
+   * Adds the selected columns of a joined criteria according to its SelectType.
+   */
+  private handleSelection(
+    criteria: JoinCriteria,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    joinAlias: string,
+  ): void {
+    const selectType =
+      parameters.join_options?.select ?? SelectType.FULL_ENTITY;
+
+    switch (selectType) {
+      case SelectType.FULL_ENTITY:
+        this.addSelectedFields(joinAlias, criteria.select);
+        break;
+
+      case SelectType.ID_ONLY:
+        this.addSelectedFields(joinAlias, [criteria.identifierField]);
+        break;
+
+      case SelectType.NO_SELECTION:
+        // Join used for filtering only
+        break;
+    }
+  }
+
+  /**
+   * Adds `"alias"."field" AS "alias_field"` selections, following TypeORM's raw result naming.
+   */
+  private addSelectedFields(
+    alias: string,
+    fields: ReadonlyArray<FieldOfSchema<any>>,
+  ): void {
+    fields.forEach((field) =>
+      this._selects.add(this.selectField(alias, String(field))),
+    );
+  }
+
+  private selectField(alias: string, field: string): string {
+    return `${this.quoteFieldPath(alias, field)} AS ${this.quoteIdentifier(`${alias}_${this.columnName(alias, field)}`)}`;
+  }
+
+  /**
+   * Builds the ORDER BY clause from the collected orders, sorted by their sequence ID.
+   * Computed orderings are applied by the name of their selected column, or by their expression
+   * where the selected columns are not visible (e.g. in a window).
+   */
+  private buildOrderBy(inlineExpressions: boolean = false): string | undefined {
+    this._queryState.sortOrderByWithSequentialId();
+    const orderBy = this._queryState.getOrderBy().map(([alias, order]) => {
+      const { direction, nullsFirst } =
+        this._queryState.resolveOrderPlacement(order);
+      const expression = this._queryState.getOrderExpression(order);
+      const orderedColumn = expression
+        ? inlineExpressions
+          ? expression
+          : this.quoteIdentifier(`${alias}_${order.field}`)
+        : this.quoteFieldPath(alias, String(order.field));
+      return `${orderedColumn} ${direction} ${nullsFirst ? 'NULLS FIRST' : 'NULLS LAST'}`;
+    });
+
+    return orderBy.length > 0 ? `ORDER BY ${orderBy.join(', ')}` : undefined;
+  }
+
+  /**
+   * Wraps a query paginating backward, which is ordered the other way round,
+   * to return its rows in the order of the criteria. The ordered fields are selected,
+   * so the outer query orders by their output columns.
+   */
+  private restorePageOrder(sql: string): string {
+    const orderBy = this._queryState.getOrderBy().map(([alias, order]) => {
+      const column = this._queryState.getOrderExpression(order)
+        ? String(order.field)
+        : this.columnName(alias, String(order.field));
+      return `${this.quoteIdentifier(`${alias}_${column}`)} ${order.direction} ${order.nullsFirst ? 'NULLS FIRST' : 'NULLS LAST'}`;
+    });
+    return `SELECT * FROM (${sql}) ${this.quoteIdentifier('page')} ORDER BY ${orderBy.join(', ')}`;
+  }
+
+  /**
+   * Resolves a unique alias to avoid collisions, using the same suffixes as the QueryBuilder translation.
+   */
+  private resolveUniqueAlias(baseAlias: string): string {
+    let uniqueAlias = baseAlias;
+    let counter = 0;
+    while (this._usedAliases.has(uniqueAlias)) {
+      counter++;
+      uniqueAlias = `${baseAlias}_${counter}`;
+    }
+    this._usedAliases.add(uniqueAlias);
+    return uniqueAlias;
+  }
+
+  /**
+   * Replaces `:name` and `:...name` placeholders with `$n` positional placeholders.
+   * Spread placeholders are expanded into one placeholder per array element,
+   * and repeated names reuse the same position. Only names of the parameter map are replaced,
+   * and string literals, quoted identifiers and `::` casts are left as they are.
+   */
+  private toPositionalParameters(
+    sql: string,
+    parameters: ObjectLiteral,
+  ): RawSqlQuery {
+    const values: unknown[] = [];
+    const positions = new Map<string, string>();
+
+    const positionalSql = sql.replace(
+      /(?<![\w$])[Ee]'(?:[^'\\]|\\.|'')*'|'(?:[^']|'')*'|"(?:[^"]|"")*"|::|:(\.\.\.)?(\w+)/g,
+      (token, spread: string | undefined, name: string | undefined): string => {
+        if (
+          name === undefined ||
+          !Object.prototype.hasOwnProperty.call(parameters, name)
+        ) {
+          return token;
+        }
+
+        const key = `${spread ?? ''}${name}`;
+        const existing = positions.get(key);
+        if (existing) {
+          return existing;
+        }
+
+        const value = parameters[name];
+        const items = spread && Array.isArray(value) ? value : [value];
+        const position = items
+          .map((item) => {
+            values.push(item);
+            return `$${values.length}`;
+          })
+          .join(', ');
+
+        positions.set(key, position);
+        return position;
+      },
+    );
+
+    return { sql: positionalSql, values };
+  }
+
+  private quoteFieldPath(alias: string, field: string): string {
+    return `${this.quoteIdentifier(alias)}.${this.quoteIdentifier(this.columnName(alias, field))}`;
+  }
+
+  /**
+   * Resolves the column name of a field: the database name of its column in the entity
+   * mapped to the source of the alias when a DataSource is given, otherwise the field itself.
+   * Pivot table aliases have no source, so their `pivot_field`s are already column names.
+   */
+  private columnName(alias: string, field: string): string {
+    const sourceName = this._queryState.getAliasSourceName(alias);
+    const metadata = this._dataSource?.entityMetadatas.find(
+      (entityMetadata) =>
+        entityMetadata.tableName === sourceName &&
+        entityMetadata.tableType !== 'junction',
+    );
+    return metadata?.findColumnWithPropertyPath(field)?.databaseName ?? field;
+  }
+
+  private quoteIdentifier(identifier: string): string {
+    return `"${identifier.replace(/"/g, '""')}"`;
+  }
+}
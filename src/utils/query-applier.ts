@@ -11,46 +11,69 @@ export class QueryApplier<T extends ObjectLiteral> {
    * Constructs a new QueryApplier instance.
    * @param _conditionBuilder The TypeOrmConditionBuilder instance for building conditions.
    * @param _queryState The QueryState instance for accessing collected query state.
+   * @param _append If true, selects and orderings are added to the existing ones instead of replacing them.
    */
   constructor(
     private _conditionBuilder: TypeOrmConditionBuilder,
     private _queryState: QueryState,
+    private _append: boolean = false,
   ) {}
 
   /**
    * Applies collected select fields to the query builder.
+   * In append mode, they are added to the existing selection.
+   * The expressions of relation aggregate orderings are selected as `<alias>_<name>`, the column they are ordered by.
    * @param qb The TypeORM SelectQueryBuilder.
    */
   public applySelects(qb: SelectQueryBuilder<T>): void {
     if (this._queryState.getSelects().size > 0) {
-      qb.select(Array.from(this._queryState.getSelects().values()));
+      const selects = Array.from(this._queryState.getSelects().values());
+      if (this._append) {
+        qb.addSelect(selects);
+      } else {
+        qb.select(selects);
+      }
+    }
+
+    for (const [alias, orderInstance] of this._queryState.getOrderBy()) {
+      const expression = this._queryState.getOrderExpression(orderInstance);
+      if (expression) {
+        qb.addSelect(expression, `${alias}_${orderInstance.field}`);
+      }
     }
   }
 
   /**
    * Applies collected order-by clauses to the query builder.
    * This includes both explicit order-by clauses and those derived from cursor pagination.
+   * When paginating backward, each ordering is inverted, including its null placement.
+   * Relation aggregate orderings are applied by the name of their selected column (see `applySelects`).
+   * In append mode, they are added after the existing orderings.
    * @param qb The TypeORM SelectQueryBuilder.
    */
   public applyOrderBy(qb: SelectQueryBuilder<T>): void {
     this._queryState.sortOrderByWithSequentialId();
-    let isFirstOverallOrderByApplied = false;
+    let isFirstOverallOrderByApplied = this._append;
 
     for (const [alias, orderInstance] of this._queryState.getOrderBy()) {
-      const fieldPath = `${alias}.${String(orderInstance.field)}`;
+      const fieldPath = this._queryState.getOrderExpression(orderInstance)
+        ? `${alias}_${orderInstance.field}`
+        : `${alias}.${String(orderInstance.field)}`;
+      const { direction, nullsFirst } =
+        this._queryState.resolveOrderPlacement(orderInstance);
 
       if (!isFirstOverallOrderByApplied) {
         qb.orderBy(
           fieldPath,
-          orderInstance.direction,
-          orderInstance.nullsFirst ? 'NULLS FIRST' : 'NULLS LAST',
+          direction,
+          nullsFirst ? 'NULLS FIRST' : 'NULLS LAST',
         );
         isFirstOverallOrderByApplied = true;
       } else {
         qb.addOrderBy(
           fieldPath,
-          orderInstance.direction,
-          orderInstance.nullsFirst ? 'NULLS FIRST' : 'NULLS LAST',
+          direction,
+          nullsFirst ? 'NULLS FIRST' : 'NULLS LAST',
         );
       }
     }
@@ -60,20 +83,26 @@ export class QueryApplier<T extends ObjectLiteral> {
    * Applies collected cursor conditions to the query builder.
    * This method constructs the WHERE clause for keyset pagination.
    * @param qb The TypeORM SelectQueryBuilder.
+   * @param otherSide True to keep the rows the cursors skip past instead (`(<condition>) IS NOT TRUE`).
    */
-  public applyCursors(qb: SelectQueryBuilder<T>): void {
+  public applyCursors(
+    qb: SelectQueryBuilder<T>,
+    otherSide: boolean = false,
+  ): void {
     if (this._queryState.cursorWasApplied()) {
       return;
     }
 
-    const combinedFilters = this._queryState.processAndValidateCursors();
+    const cursorParts = this._queryState.processAndValidateCursors();
 
-    if (combinedFilters.length > 0) {
+    if (cursorParts.length > 0) {
       const cursorCondition =
-        this._conditionBuilder.buildCursorCondition(combinedFilters);
+        this._conditionBuilder.buildCursorCondition(cursorParts);
       const cursorBracket = new Brackets((bracketQb) => {
         bracketQb.where(
-          cursorCondition.queryFragment,
+          otherSide
+            ? `(${cursorCondition.queryFragment}) IS NOT TRUE`
+            : cursorCondition.queryFragment,
           cursorCondition.parameters,
         );
       });
@@ -3,10 +3,44 @@ import {
   type Cursor,
   FilterOperator,
   type FilterPrimitive,
-  type ICriteriaBase,
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type OuterJoinCriteria,
+  type RootCriteria,
   type Order,
   type FieldOfSchema,
+  OrderDirection,
 } from '@nulledexp/translatable-criteria';
+import { getCursorFields, isBeforeCursor } from './keyset-cursor.js';
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * An ordering recorded for a query: a criteria ordering, or a computed ordering
+ * (a relation aggregate or a search rank) whose field is the name of the computed value.
+ */
+export type RecordedOrder = Pick<
+  Order<string>,
+  'field' | 'direction' | 'nullsFirst' | 'sequenceId'
+>;
+
+/**
+ * A field of the combined cursor of a query, with the ordering it is paginated by.
+ */
+export type CursorPart = {
+  /** The alias-qualified field name, or the SQL expression of a relation aggregate. */
+  field: string;
+  /** Set if the field is the SQL expression of a relation aggregate. */
+  isExpression?: boolean;
+  /** The value of the field in the row the cursor points to. */
+  value: FilterPrimitive<string, FilterOperator.GREATER_THAN>['value'];
+  direction: OrderDirection;
+  nullsFirst: boolean;
+};
 
 /**
  * Manages and holds the mutable state of a query being built.
@@ -14,7 +48,11 @@ import {
  */
 export class QueryState {
   private _selects: Set<string> = new Set<string>([]);
-  private _orderBy: Array<[string, Order<any>]> = [];
+  private _orderBy: Array<[string, RecordedOrder]> = [];
+  private _orderExpressions: Map<RecordedOrder, string> = new Map<
+    RecordedOrder,
+    string
+  >();
   private _queryHasWhereClauses: boolean = false;
   private _collectedCursors: Array<
     [
@@ -23,6 +61,11 @@ export class QueryState {
     ]
   > = [];
   private _cursorWasApplied: boolean = false;
+  private _aliasSourceNames: Map<string, string> = new Map<string, string>();
+  private _criteriaAliases: Map<AnyCriteria, string> = new Map<
+    AnyCriteria,
+    string
+  >();
 
   /**
    * Resets all internal state properties to their initial values.
@@ -30,9 +73,48 @@ export class QueryState {
   public reset(): void {
     this._selects.clear();
     this._orderBy = [];
+    this._orderExpressions.clear();
     this._queryHasWhereClauses = false;
     this._collectedCursors = [];
     this._cursorWasApplied = false;
+    this._aliasSourceNames.clear();
+    this._criteriaAliases.clear();
+  }
+
+  /**
+   * Records the source name of the schema behind a query alias.
+   * @param alias The alias used in the query.
+   * @param sourceName The source name of the aliased schema.
+   */
+  public registerAliasSourceName(alias: string, sourceName: string): void {
+    this._aliasSourceNames.set(alias, sourceName);
+  }
+
+  /**
+   * Gets the source name of the schema behind a query alias.
+   * @param alias The alias used in the query.
+   * @returns The source name, or undefined if the alias was not registered.
+   */
+  public getAliasSourceName(alias: string): string | undefined {
+    return this._aliasSourceNames.get(alias);
+  }
+
+  /**
+   * Records the query alias a root or join criteria was applied with.
+   * @param criteria The criteria.
+   * @param alias The alias used in the query.
+   */
+  public registerCriteriaAlias(criteria: AnyCriteria, alias: string): void {
+    this._criteriaAliases.set(criteria, alias);
+  }
+
+  /**
+   * Gets the query alias a root or join criteria was applied with.
+   * @param criteria The criteria.
+   * @returns The alias, or undefined if the criteria was not applied.
+   */
+  public getCriteriaAlias(criteria: AnyCriteria): string | undefined {
+    return this._criteriaAliases.get(criteria);
   }
 
   /**
@@ -52,77 +134,111 @@ export class QueryState {
   }
 
   /**
-   * Processes and validates all collected cursors, combining their filters.
-   * Throws an error if cursor parts are inconsistent or too many fields are combined.
-   * @returns An array of combined filter primitives for the cursor.
+   * Combines the fields of all collected cursors into the keyset of the query, in cursor sequence.
+   * Each field takes the direction and null placement of the ordering recorded for it,
+   * so fields can be ordered in different directions. Fields without an ordering fall back
+   * to the direction of their cursor operator, with nulls last.
+   * When paginating backward, directions and null placements are inverted like the ORDER BY.
+   * @returns The parts of the combined cursor, with alias-qualified field names.
+   * @throws Error if some cursors fetch the page before them and others the page after them.
    */
-  public processAndValidateCursors(): FilterPrimitive<
-    string,
-    FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-  >[] {
+  public processAndValidateCursors(): CursorPart[] {
+    this._collectedCursors.sort((a, b) => a[1].sequenceId - b[1].sequenceId);
+
+    const isBackward = this.isPaginatingBackward();
     if (
-      this._collectedCursors.length === 0 ||
-      this._collectedCursors[0] === undefined
+      this._collectedCursors.some(
+        ([, cursor]) => isBeforeCursor(cursor) !== isBackward,
+      )
     ) {
-      return [];
+      throw new Error(
+        'All parts of a composite cursor must fetch the page on the same side of the cursor.',
+      );
     }
 
-    this._collectedCursors.sort((a, b) => a[1].sequenceId - b[1].sequenceId);
-
-    const commonDirection = this._collectedCursors[0][1].order;
-    const commonOperator = this._collectedCursors[0][1].operator;
-
-    const combinedFilters: FilterPrimitive<
-      string,
-      FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-    >[] = [];
-
+    const combinedParts: CursorPart[] = [];
     for (const [alias, cursor] of this._collectedCursors) {
-      if (cursor.order !== commonDirection) {
-        throw new Error(
-          'All parts of a composite cursor must have the same order direction.',
-        );
-      }
-      if (cursor.operator !== commonOperator) {
-        throw new Error(
-          'All parts of a composite cursor must have the same operator.',
-        );
-      }
-
-      for (const filter of cursor.filters) {
-        combinedFilters.push({
-          operator: filter.operator,
-          field: `${alias}.${filter.field}`,
+      for (const filter of getCursorFields(cursor)) {
+        const order = this._orderBy.find(
+          ([orderAlias, orderInstance]) =>
+            orderAlias === alias && orderInstance.field === filter.field,
+        )?.[1];
+        const placement = order
+          ? this.resolveOrderPlacement(order)
+          : this.resolvePlacement(
+              filter.operator === FilterOperator.GREATER_THAN
+                ? OrderDirection.ASC
+                : OrderDirection.DESC,
+              false,
+            );
+        const expression = order && this._orderExpressions.get(order);
+        combinedParts.push({
+          ...(expression
+            ? { field: expression, isExpression: true }
+            : { field: `${alias}.${filter.field}` }),
           value: filter.value,
+          ...placement,
         });
       }
     }
 
-    if (combinedFilters.length > 2) {
-      throw new Error(
-        'A combined cursor cannot have more than two fields in total.',
-      );
-    }
+    return combinedParts;
+  }
 
-    return combinedFilters;
+  /**
+   * Checks whether the collected cursors fetch the page before them.
+   * The query is then ordered the other way round, so the rows nearest to the cursor are taken first.
+   * @returns True if any collected cursor was set with the `before` option.
+   */
+  public isPaginatingBackward(): boolean {
+    return this._collectedCursors.some(([, cursor]) => isBeforeCursor(cursor));
+  }
+
+  /**
+   * Gets the direction and null placement an order is applied with,
+   * inverted if the query paginates backward.
+   * @param order The order.
+   * @returns The direction and null placement to apply.
+   */
+  public resolveOrderPlacement(order: RecordedOrder): {
+    direction: OrderDirection;
+    nullsFirst: boolean;
+  } {
+    return this.resolvePlacement(order.direction, order.nullsFirst);
+  }
+
+  private resolvePlacement(
+    direction: OrderDirection,
+    nullsFirst: boolean,
+  ): { direction: OrderDirection; nullsFirst: boolean } {
+    if (!this.isPaginatingBackward()) {
+      return { direction, nullsFirst };
+    }
+    return {
+      direction:
+        direction === OrderDirection.ASC
+          ? OrderDirection.DESC
+          : OrderDirection.ASC,
+      nullsFirst: !nullsFirst,
+    };
   }
 
   /**
    * Resolves and adds select fields from a criteria, including those from orders and cursors.
+   * Cursor fields naming relation aggregates are left out, since they are not columns.
    * @param alias The alias of the entity.
    * @param criteria The criteria object.
    */
-  public resolveSelects<TCriteriaSchema extends CriteriaSchema>(
-    alias: string,
-    criteria: ICriteriaBase<TCriteriaSchema>,
-  ): void {
+  public resolveSelects(alias: string, criteria: AnyCriteria): void {
     criteria.orders.forEach((order) =>
       this._selects.add(`${alias}.${String(order.field)}`),
     );
     if (criteria.cursor) {
-      criteria.cursor.filters.forEach((filter) => {
-        this._selects.add(`${alias}.${String(filter.field)}`);
-      });
+      getCursorFields(criteria.cursor)
+        .filter((filter) => criteria.schema.fields.includes(filter.field))
+        .forEach((filter) => {
+          this._selects.add(`${alias}.${String(filter.field)}`);
+        });
     }
     criteria.select.forEach((field) =>
       this._selects.add(`${alias}.${String(field)}`),
@@ -143,6 +259,30 @@ export class QueryState {
     });
   }
 
+  /**
+   * Records the ordering by a computed value (a relation aggregate or a search rank), with the SQL expression computing it.
+   * @param order The computed ordering.
+   * @param expression The SQL expression of the value, correlated to the alias.
+   * @param alias The alias of the entity.
+   */
+  public recordOrderExpression(
+    order: RecordedOrder,
+    expression: string,
+    alias: string,
+  ): void {
+    this._orderBy.push([alias, order]);
+    this._orderExpressions.set(order, expression);
+  }
+
+  /**
+   * Gets the SQL expression of a computed ordering.
+   * @param order A collected ordering.
+   * @returns The expression, or undefined if the ordering is by a field.
+   */
+  public getOrderExpression(order: RecordedOrder): string | undefined {
+    return this._orderExpressions.get(order);
+  }
+
   /**
    * Sorts the collected order-by clauses by their sequence ID.
    */
@@ -178,7 +318,7 @@ export class QueryState {
    * Gets the collected order-by clauses.
    * @returns An array of order-by clauses.
    */
-  public getOrderBy(): Array<[string, Order<any>]> {
+  public getOrderBy(): Array<[string, RecordedOrder]> {
     return this._orderBy;
   }
 
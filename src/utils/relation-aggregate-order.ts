@@ -0,0 +1,165 @@
+import {
+  type CriteriaSchema,
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type OrderDirection,
+  type OuterJoinCriteria,
+  type PivotJoin,
+  type RootCriteria,
+  type SimpleJoin,
+} from '@nulledexp/translatable-criteria';
+import type { AggregateFunction } from './type-orm-aggregation-applier.js';
+import { type ComputedOrder, createComputedOrder } from './computed-order.js';
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * The aggregate functions a relation can be ordered by.
+ * Counts are compared as `bigint`, and sums and averages as double precision numbers.
+ */
+export type RelationAggregateFunction = Exclude<AggregateFunction, 'ARRAY_AGG'>;
+
+/**
+ * An aggregate over the rows related to each row of a criteria.
+ */
+export type RelationAggregate = {
+  /** The alias of the relation in the schema of the criteria (e.g. `posts`). */
+  relation: string;
+  function: RelationAggregateFunction;
+  /**
+   * The aggregated field of the related rows. Only `COUNT` can leave it out, to count rows (`COUNT(*)`).
+   */
+  field?: string;
+};
+
+/**
+ * An ordering by a relation aggregate, with the join parameters of its relation.
+ */
+export type RelationAggregateOrder = {
+  /** The ordering, whose field is the name of the aggregate. */
+  order: ComputedOrder;
+  aggregate: RelationAggregate;
+  /** The source name of the related rows. */
+  sourceName: string;
+  /** The join parameters of the relation, with the criteria alias as parent alias. */
+  parameters:
+    | PivotJoin<CriteriaSchema, CriteriaSchema>
+    | SimpleJoin<CriteriaSchema, CriteriaSchema>;
+};
+
+/**
+ * The relation aggregate orderings of each criteria, in the sequence they were set.
+ */
+const relationAggregateOrders = new WeakMap<
+  AnyCriteria,
+  RelationAggregateOrder[]
+>();
+
+/**
+ * Orders a criteria by an aggregate over its related rows, without joining them (e.g. users by their number of posts).
+ * The aggregate is translated as a correlated `(SELECT COUNT(*) ...)` subquery, selected as `<alias>_<name>`
+ * and ordered by that column. The ordering takes its place among the `orderBy` calls of the criteria tree,
+ * and its name can be used as a field of `setKeysetCursor`.
+ * @param criteria The root or join criteria.
+ * @param name The name of the aggregate: a field of `setKeysetCursor`, and the suffix of its output column.
+ * @param aggregate The relation and aggregate function.
+ * @param direction The order direction.
+ * @param nullsFirst Whether NULL aggregates (e.g. the MAX of no rows) come first.
+ * @returns The same criteria.
+ * @throws Error if the name is not an identifier or is already used, the relation is not defined in the schema,
+ * or the function requires a field.
+ * @example
+ * // Users with the most posts first
+ * orderByRelationAggregate(criteria, 'postCount', { relation: 'posts', function: 'COUNT' }, OrderDirection.DESC);
+ */
+export function orderByRelationAggregate<TCriteria extends AnyCriteria>(
+  criteria: TCriteria,
+  name: string,
+  aggregate: RelationAggregate,
+  direction: OrderDirection,
+  nullsFirst: boolean = false,
+): TCriteria {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(
+      `The relation aggregate name '${name}' must only contain letters, digits and underscores.`,
+    );
+  }
+  const relation = criteria.schema.relations.find(
+    (schemaRelation: CriteriaSchema['relations'][number]) =>
+      schemaRelation.relation_alias === aggregate.relation,
+  );
+  if (!relation) {
+    throw new Error(
+      `The relation '${aggregate.relation}' is not defined in the schema '${criteria.sourceName}'.`,
+    );
+  }
+  if (aggregate.field === undefined && aggregate.function !== 'COUNT') {
+    throw new Error(
+      `The aggregate function ${aggregate.function} requires a field.`,
+    );
+  }
+
+  const baseParameters = {
+    join_options: {},
+    parent_alias: criteria.alias,
+    parent_source_name: criteria.sourceName,
+    relation_alias: relation.relation_alias,
+    parent_identifier: criteria.identifierField,
+    join_metadata: relation.metadata ?? {},
+    parent_schema_metadata: criteria.schema.metadata ?? {},
+  };
+  const parameters =
+    relation.relation_type === 'many_to_many'
+      ? {
+          ...baseParameters,
+          relation_type: relation.relation_type,
+          pivot_source_name: relation.pivot_source_name,
+          local_field: relation.local_field,
+          relation_field: relation.relation_field,
+        }
+      : {
+          ...baseParameters,
+          relation_type: relation.relation_type,
+          local_field: relation.local_field,
+          relation_field: relation.relation_field,
+        };
+
+  const orders = relationAggregateOrders.get(criteria) ?? [];
+  orders.push({
+    order: createComputedOrder(criteria, name, direction, nullsFirst),
+    aggregate,
+    sourceName: relation.target_source_name,
+    parameters: parameters as RelationAggregateOrder['parameters'],
+  });
+  relationAggregateOrders.set(criteria, orders);
+  return criteria;
+}
+
+/**
+ * Gets the relation aggregate orderings of a criteria.
+ * @param criteria The root or join criteria.
+ * @returns The orderings set with `orderByRelationAggregate`, in the sequence they were set.
+ */
+export function getRelationAggregateOrders(
+  criteria: AnyCriteria,
+): ReadonlyArray<RelationAggregateOrder> {
+  return relationAggregateOrders.get(criteria) ?? [];
+}
+
+/**
+ * Checks whether a criteria or any of its joins is ordered by a relation aggregate.
+ * @param criteria The root or join criteria.
+ * @returns True if `orderByRelationAggregate` was called in the criteria tree.
+ */
+export function hasRelationAggregateOrders(criteria: AnyCriteria): boolean {
+  return (
+    getRelationAggregateOrders(criteria).length > 0 ||
+    criteria.joins.some((joinDetail) =>
+      hasRelationAggregateOrders(joinDetail.criteria),
+    )
+  );
+}
@@ -0,0 +1,138 @@
+import {
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type OrderDirection,
+  type OuterJoinCriteria,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import {
+  TRIGRAM_EXPRESSIONS,
+  type TrigramFunction,
+} from './filter-handlers/trigram-similarity.handler.js';
+import type {
+  FieldNameFormatter,
+  TypeOrmConditionFragment,
+} from './type-orm-filter-fragment-builder.js';
+import type { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import { type ComputedOrder, createComputedOrder } from './computed-order.js';
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * The pg_trgm similarity of a field to a value.
+ */
+export type Similarity = {
+  /** The text field of the schema of the criteria. */
+  field: string;
+  /** The text the field is compared with. */
+  value: string;
+  /** The similarity function. Defaults to `similarity`. */
+  function?: TrigramFunction;
+  /**
+   * When true, the rows are ordered by the trigram distance (`<->`, `<<->` or `<<<->`, i.e. 1 - similarity)
+   * instead of the similarity, so that GiST trigram indexes can return the nearest rows first.
+   * Order by distance ascending to get the most similar rows first.
+   */
+  distance?: boolean;
+};
+
+type SimilarityOrder = {
+  order: ComputedOrder;
+  similarity: Similarity;
+};
+
+/**
+ * The similarity orderings of each criteria, in the sequence they were set.
+ */
+const similarityOrders = new WeakMap<AnyCriteria, SimilarityOrder[]>();
+
+/**
+ * Orders a criteria by the pg_trgm similarity of a field to a value (e.g. users by how closely their name matches a search).
+ * The similarity (or distance) is selected as `<alias>_<name>` and ordered by that column.
+ * The ordering takes its place among the `orderBy` calls of the criteria tree.
+ * Requires the pg_trgm extension.
+ * @param criteria The root or join criteria.
+ * @param name The name of the similarity: the suffix of its output column.
+ * @param similarity The field, value and similarity function.
+ * @param direction The order direction: DESC for the most similar rows first, or ASC when ordering by distance.
+ * @param nullsFirst Whether NULL similarities (of NULL fields) come first.
+ * @returns The same criteria.
+ * @throws Error if the name is not an identifier or is already used, or the field is not defined in the schema.
+ * @example
+ * // Closest usernames first, through a GiST trigram index
+ * orderBySimilarity(criteria, 'nameDistance', { field: 'username', value: 'jonh', distance: true }, OrderDirection.ASC);
+ */
+export function orderBySimilarity<TCriteria extends AnyCriteria>(
+  criteria: TCriteria,
+  name: string,
+  similarity: Similarity,
+  direction: OrderDirection,
+  nullsFirst: boolean = false,
+): TCriteria {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(
+      `The similarity name '${name}' must only contain letters, digits and underscores.`,
+    );
+  }
+  if (!criteria.schema.fields.includes(similarity.field)) {
+    throw new Error(
+      `The field '${similarity.field}' is not defined in the schema '${criteria.sourceName}'.`,
+    );
+  }
+
+  const order = createComputedOrder(criteria, name, direction, nullsFirst);
+  const orders = similarityOrders.get(criteria) ?? [];
+  orders.push({ order, similarity });
+  similarityOrders.set(criteria, orders);
+  return criteria;
+}
+
+/**
+ * Builds the similarity orderings of a criteria.
+ * @param criteria The root or join criteria.
+ * @param alias The alias of the criteria in the query.
+ * @param formatField Formats an alias-qualified field for the query.
+ * @param parameterManager The parameter manager to generate unique parameter names.
+ * @returns Each ordering with its similarity or distance expression and parameters, in the sequence they were set.
+ */
+export function buildSimilarityOrders(
+  criteria: AnyCriteria,
+  alias: string,
+  formatField: FieldNameFormatter,
+  parameterManager: TypeOrmParameterManager,
+): Array<TypeOrmConditionFragment & { order: ComputedOrder }> {
+  return (similarityOrders.get(criteria) ?? []).map(({ order, similarity }) => {
+    const paramName = parameterManager.generateParamName();
+    const expressions =
+      TRIGRAM_EXPRESSIONS[similarity.function ?? 'similarity'];
+    const expression = similarity.distance
+      ? expressions.distance
+      : expressions.score;
+    return {
+      order,
+      queryFragment: expression(
+        formatField(alias, similarity.field),
+        `:${paramName}`,
+      ),
+      parameters: { [paramName]: similarity.value },
+    };
+  });
+}
+
+/**
+ * Checks whether a criteria or any of its joins is ordered by similarity.
+ * @param criteria The root or join criteria.
+ * @returns True if `orderBySimilarity` was called in the criteria tree.
+ */
+export function hasSimilarityOrders(criteria: AnyCriteria): boolean {
+  return (
+    (similarityOrders.get(criteria)?.length ?? 0) > 0 ||
+    criteria.joins.some((joinDetail) =>
+      hasSimilarityOrders(joinDetail.criteria),
+    )
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * An error raised while translating a criteria, before its query reaches the database.
+ */
+export class TranslationError extends Error {
+  public override name = 'TranslationError';
+}
+
+/**
+ * A filter value that would make the database reject the query, such as an invalid JSON path.
+ */
+export class InvalidFilterValueError extends TranslationError {
+  public override name = 'InvalidFilterValueError';
+
+  /**
+   * @param message The reason the value is invalid.
+   * @param field The field of the filter.
+   * @param value The invalid value.
+   */
+  constructor(
+    message: string,
+    public readonly field: string,
+    public readonly value: unknown,
+  ) {
+    super(message);
+  }
+}
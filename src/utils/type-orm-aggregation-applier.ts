@@ -0,0 +1,289 @@
+import type { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import {
+  Filter,
+  type FilterOperator,
+  type FilterPrimitive,
+  type InnerJoinCriteria,
+  type LeftJoinCriteria,
+  type OuterJoinCriteria,
+  type RootCriteria,
+} from '@nulledexp/translatable-criteria';
+import { TypeOrmFilterFragmentBuilder } from './type-orm-filter-fragment-builder.js';
+import type { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import type { FilterOperatorHandlerRegistry } from './filter-operator-handler-registry.js';
+import type { QueryState } from './query-state.js';
+
+/**
+ * The aggregate functions of an aggregation.
+ * Counts are returned as `bigint`, or `integer` as chosen by `Aggregation.countType`,
+ * and sums and averages as double precision numbers.
+ */
+export type AggregateFunction =
+  'COUNT' | 'COUNT_DISTINCT' | 'SUM' | 'AVG' | 'MIN' | 'MAX' | 'ARRAY_AGG';
+
+/**
+ * An aggregate of an aggregation.
+ */
+export type Aggregate = {
+  function: AggregateFunction;
+  /**
+   * The aggregated field: a field of the root criteria (e.g. `views`), or of a join,
+   * prefixed by the relation aliases leading to it (e.g. `publisher.username`).
+   * Only `COUNT` can leave it out, to count rows (`COUNT(*)`).
+   */
+  field?: string;
+};
+
+/**
+ * The grouped aggregates to select from a criteria.
+ * Group and aggregate names are the column names of the result rows, so they must be different.
+ */
+export type Aggregation<
+  TGroupName extends string = string,
+  TAggregateName extends string = string,
+> = {
+  /** The fields to group by, by name. Fields are given as in `Aggregate.field`. */
+  groupBy?: Readonly<Record<TGroupName, string>>;
+  /** The aggregates to select, by name. */
+  aggregates?: Readonly<Record<TAggregateName, Aggregate>>;
+  /**
+   * Conditions on the aggregates, by name. They are AND-ed in the HAVING clause
+   * and built by the filter operator handlers, like the criteria filters.
+   */
+  having?: ReadonlyArray<
+    FilterPrimitive<NoInfer<TAggregateName>, FilterOperator>
+  >;
+  /**
+   * The SQL type of the counts. `bigint` (default) never overflows, and the pg driver returns it as a string
+   * unless the DataSource sets `parseInt8`. `integer` is returned as a number, for counts known to stay
+   * below 2,147,483,647, beyond which the query fails.
+   */
+  countType?: AggregateCountType;
+};
+
+/**
+ * The SQL type of the counts of an aggregation.
+ */
+export type AggregateCountType = 'bigint' | 'integer';
+
+type AggregateValue<
+  TFunction extends AggregateFunction,
+  TCount,
+> = TFunction extends 'COUNT' | 'COUNT_DISTINCT'
+  ? TCount
+  : TFunction extends 'SUM' | 'AVG'
+    ? number | null
+    : TFunction extends 'ARRAY_AGG'
+      ? unknown[]
+      : unknown;
+
+/**
+ * A raw result row of an aggregation, with a column per group and aggregate name.
+ */
+export type AggregateRow<TAggregation extends Aggregation<any, any>> = {
+  [TGroupName in keyof NonNullable<TAggregation['groupBy']>]: unknown;
+} & {
+  [
+    TAggregateName in keyof NonNullable<TAggregation['aggregates']>
+  ]: AggregateValue<
+    NonNullable<TAggregation['aggregates']>[TAggregateName]['function'],
+    TAggregation extends { countType: 'integer' } ? number : string
+  >;
+};
+
+type AnyCriteria =
+  | RootCriteria<any>
+  | InnerJoinCriteria<any>
+  | LeftJoinCriteria<any>
+  | OuterJoinCriteria<any>;
+
+/**
+ * Builds the SQL expression of each aggregate function over a field name (or `*`).
+ * Counts keep the `bigint` type of COUNT.
+ */
+export const AGGREGATE_EXPRESSIONS: Record<
+  AggregateFunction,
+  (fieldName: string) => string
+> = {
+  COUNT: (fieldName) => `COUNT(${fieldName})`,
+  COUNT_DISTINCT: (fieldName) => `COUNT(DISTINCT ${fieldName})`,
+  SUM: (fieldName) => `SUM(${fieldName})::double precision`,
+  AVG: (fieldName) => `AVG(${fieldName})::double precision`,
+  MIN: (fieldName) => `MIN(${fieldName})`,
+  MAX: (fieldName) => `MAX(${fieldName})`,
+  ARRAY_AGG: (fieldName) => `ARRAY_AGG(${fieldName})`,
+};
+
+/**
+ * Applies an aggregation to a TypeORM SelectQueryBuilder whose criteria (filters and joins)
+ * was already translated: it replaces the selection by the groups and aggregates,
+ * and adds the GROUP BY and HAVING clauses.
+ */
+export class TypeOrmAggregationApplier<T extends ObjectLiteral> {
+  /**
+   * @param _queryState The QueryState of the translation, used to resolve the aliases of the joins.
+   * @param _parameterManager The parameter manager of the translation.
+   * @param _handlerRegistry Resolves the handler of each HAVING operator.
+   */
+  constructor(
+    private _queryState: QueryState,
+    private _parameterManager: TypeOrmParameterManager,
+    private _handlerRegistry: FilterOperatorHandlerRegistry,
+  ) {}
+
+  /**
+   * Applies the aggregation to the query builder.
+   * @param qb The TypeORM SelectQueryBuilder.
+   * @param criteria The translated root criteria.
+   * @param aggregation The aggregation to apply.
+   * @throws Error if the aggregation is empty, reuses a name, or references an unknown field, relation or aggregate.
+   */
+  public apply(
+    qb: SelectQueryBuilder<T>,
+    criteria: RootCriteria<any>,
+    aggregation: Aggregation,
+  ): void {
+    const groupBy = Object.entries(aggregation.groupBy ?? {});
+    const aggregates = Object.entries(aggregation.aggregates ?? {});
+    if (groupBy.length === 0 && aggregates.length === 0) {
+      throw new Error(
+        'An aggregation must have at least one group or aggregate.',
+      );
+    }
+    const repeatedName = groupBy.find(([name]) =>
+      aggregates.some(([aggregateName]) => aggregateName === name),
+    )?.[0];
+    if (repeatedName !== undefined) {
+      throw new Error(
+        `The name '${repeatedName}' is used by both a group and an aggregate.`,
+      );
+    }
+
+    const selections: Array<[string, string]> = [];
+    const groupFields: string[] = [];
+    for (const [name, field] of groupBy) {
+      const fieldName = this.resolveFieldName(criteria, field);
+      groupFields.push(fieldName);
+      selections.push([fieldName, name]);
+    }
+    const aggregateExpressions = new Map<string, string>();
+    for (const [name, aggregate] of aggregates) {
+      const expression = this.buildAggregateExpression(
+        criteria,
+        aggregate,
+        aggregation.countType ?? 'bigint',
+      );
+      aggregateExpressions.set(name, expression);
+      selections.push([expression, name]);
+    }
+
+    selections.forEach(([selection, name], index) =>
+      index === 0 ? qb.select(selection, name) : qb.addSelect(selection, name),
+    );
+    groupFields.forEach((fieldName, index) =>
+      index === 0 ? qb.groupBy(fieldName) : qb.addGroupBy(fieldName),
+    );
+    this.applyHaving(qb, criteria, aggregation, aggregateExpressions);
+  }
+
+  /**
+   * Adds the HAVING conditions, with the aggregate expressions in place of the field names.
+   */
+  private applyHaving(
+    qb: SelectQueryBuilder<T>,
+    criteria: RootCriteria<any>,
+    aggregation: Aggregation,
+    aggregateExpressions: Map<string, string>,
+  ): void {
+    const fragmentBuilder = new TypeOrmFilterFragmentBuilder(
+      this._parameterManager,
+      (_alias, name) => {
+        const expression = aggregateExpressions.get(name);
+        if (expression === undefined) {
+          throw new Error(
+            `The HAVING condition references the unknown aggregate '${name}'.`,
+          );
+        }
+        return expression;
+      },
+      this._handlerRegistry,
+      () => criteria.sourceName,
+    );
+
+    for (const filter of aggregation.having ?? []) {
+      const { queryFragment, parameters } = fragmentBuilder.build(
+        new Filter(filter),
+        criteria.alias,
+      );
+      qb.andHaving(queryFragment, parameters);
+    }
+  }
+
+  private buildAggregateExpression(
+    criteria: RootCriteria<any>,
+    aggregate: Aggregate,
+    countType: AggregateCountType,
+  ): string {
+    if (aggregate.field === undefined && aggregate.function !== 'COUNT') {
+      throw new Error(
+        `The aggregate function ${aggregate.function} requires a field.`,
+      );
+    }
+    const expression = AGGREGATE_EXPRESSIONS[aggregate.function](
+      aggregate.field === undefined
+        ? '*'
+        : this.resolveFieldName(criteria, aggregate.field),
+    );
+    const isCount =
+      aggregate.function === 'COUNT' || aggregate.function === 'COUNT_DISTINCT';
+    return isCount ? `${expression}::${countType}` : expression;
+  }
+
+  /**
+   * Resolves a field, prefixed by the relation aliases leading to its criteria,
+   * to the `alias.field` name of the query.
+   */
+  private resolveFieldName(criteria: RootCriteria<any>, path: string): string {
+    const segments = path.split('.');
+    const field = segments.pop()!;
+    const fieldCriteria = this.findJoinedCriteria(criteria, segments, path);
+
+    if (!fieldCriteria.schema.fields.includes(field)) {
+      throw new Error(
+        `The field '${field}' is not defined in the schema '${fieldCriteria.sourceName}'.`,
+      );
+    }
+    const alias = this._queryState.getCriteriaAlias(fieldCriteria);
+    if (alias === undefined) {
+      throw new Error(`Cannot resolve '${path}': its join was not applied.`);
+    }
+    return `${alias}.${field}`;
+  }
+
+  /**
+   * Follows a sequence of relation aliases from a criteria down its joins.
+   */
+  private findJoinedCriteria(
+    criteria: AnyCriteria,
+    relationAliases: ReadonlyArray<string>,
+    path: string,
+  ): AnyCriteria {
+    const [relationAlias, ...nextRelationAliases] = relationAliases;
+    if (relationAlias === undefined) {
+      return criteria;
+    }
+    const joinDetail = criteria.joins.find(
+      (join) => join.parameters.relation_alias === relationAlias,
+    );
+    if (!joinDetail) {
+      throw new Error(
+        `Cannot resolve '${path}': the criteria of '${criteria.sourceName}' has no join '${relationAlias}'.`,
+      );
+    }
+    return this.findJoinedCriteria(
+      joinDetail.criteria,
+      nextRelationAliases,
+      path,
+    );
+  }
+}
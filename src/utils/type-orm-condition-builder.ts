@@ -9,13 +9,13 @@ import type {
   TypeOrmConditionFragment,
   TypeOrmFilterFragmentBuilder,
 } from './type-orm-filter-fragment-builder.js';
+import type { CursorPart } from './query-state.js';
 import {
   Filter,
-  FilterOperator,
   type IFilterExpression,
   LogicalOperator,
   FilterGroup,
-  type FilterPrimitive,
+  OrderDirection,
 } from '@nulledexp/translatable-criteria';
 
 /**
@@ -35,158 +35,100 @@ export class TypeOrmConditionBuilder {
   ) {}
 
   /**
-   * Builds the complete WHERE condition for keyset pagination based on the provided filters.
-   * It dispatches to the appropriate helper based on the number of fields in the cursor.
-   * @param filters An array of processed and combined filter primitives for the cursor.
+   * Builds the WHERE condition for keyset pagination: the rows after the cursor in the query ordering.
+   * A row comes after the cursor if it is after the cursor value at some field and equals the cursor
+   * at every previous field. Each field is compared according to its own direction and null placement.
+   *
+   * When no cursor value is NULL and all the fields share a direction, the non-null part of that
+   * condition is written as a row-value comparison, e.g. `(a, b, c) > (:a, :b, :c)`, so PostgreSQL
+   * can use a composite index on the ordered fields. Rows with a NULL at a NULLS LAST field are added separately.
+   * @param parts The parts of the combined cursor, in ordering sequence.
    * @returns A TypeOrmConditionFragment representing the cursor's WHERE clause.
-   * @throws Error if the number of cursor fields is not 1 or 2.
+   * @throws Error if the cursor has no fields.
    */
-  public buildCursorCondition(
-    filters: FilterPrimitive<
-      string,
-      FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-    >[],
-  ): TypeOrmConditionFragment {
-    if (filters.length === 1) {
-      return this._buildSingleFieldCursorCondition(filters[0]!);
+  public buildCursorCondition(parts: CursorPart[]): TypeOrmConditionFragment {
+    if (parts.length === 0) {
+      throw new Error(
+        'Cursor pagination requires at least one field. This should have been caught by validation.',
+      );
     }
-    if (filters.length === 2) {
-      return this._buildCompositeCursorCondition(filters[0]!, filters[1]!);
-    }
-
-    throw new Error(
-      `Cursor pagination is only supported for 1 or 2 fields, but received ${filters.length}. This should have been caught by validation.`,
-    );
-  }
 
-  /**
-   * Builds the WHERE condition for a cursor with a single field.
-   * @param filter The single filter primitive for the cursor.
-   * @returns A TypeOrmConditionFragment.
-   */
-  private _buildSingleFieldCursorCondition(
-    filter: FilterPrimitive<
-      string,
-      FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-    >,
-  ): TypeOrmConditionFragment {
-    const op = filter.operator === FilterOperator.GREATER_THAN ? '>' : '<';
-    const fieldName = filter.field;
-    const { value } = filter;
+    const parameters: ObjectLiteral = {};
+    const placeholders = parts.map(({ value }) => {
+      if (value === null) {
+        return null;
+      }
+      const paramName = this._parameterManager.generateParamName();
+      parameters[paramName] = value;
+      return `:${paramName}`;
+    });
+    const equalsCursorBefore = (index: number) =>
+      parts
+        .slice(0, index)
+        .map(({ field }, prefixIndex) =>
+          placeholders[prefixIndex] === null
+            ? `${field} IS NULL`
+            : `${field} = ${placeholders[prefixIndex]}`,
+        );
 
-    if (value === null) {
-      const query = op === '>' ? `${fieldName} IS NOT NULL` : '1=0';
-      return { queryFragment: `(${query})`, parameters: {} };
+    const alternatives: string[] = [];
+    const direction = parts[0]!.direction;
+    if (
+      parts.length > 1 &&
+      placeholders.every((placeholder) => placeholder !== null) &&
+      parts.every((part) => part.direction === direction)
+    ) {
+      // A row-value comparison is NULL as soon as it reaches a NULL field, which leaves out
+      // the rows with a NULL at a NULLS FIRST field, as expected, but also those at a NULLS LAST field.
+      alternatives.push(
+        `(${parts.map(({ field }) => field).join(', ')}) ${this.afterOperator(direction)} (${placeholders.join(', ')})`,
+      );
+      parts.forEach(({ field, nullsFirst }, index) => {
+        if (!nullsFirst) {
+          alternatives.push(
+            `(${[...equalsCursorBefore(index), `${field} IS NULL`].join(' AND ')})`,
+          );
+        }
+      });
+    } else {
+      parts.forEach((part, index) => {
+        const afterCursor = this.afterCursorValue(
+          part,
+          placeholders[index] ?? null,
+        );
+        if (afterCursor) {
+          alternatives.push(
+            `(${[...equalsCursorBefore(index), afterCursor].join(' AND ')})`,
+          );
+        }
+      });
     }
 
-    const paramName = this._parameterManager.generateParamName();
-    const query = `${fieldName} ${op} :${paramName}`;
-    return { queryFragment: `(${query})`, parameters: { [paramName]: value } };
-  }
-
-  /**
-   * Builds the WHERE condition for a composite cursor with two fields.
-   * It delegates to ascending or descending specific helpers based on the operator.
-   * @param filter1 The first filter primitive (primary sort key).
-   * @param filter2 The second filter primitive (tie-breaker).
-   * @returns A TypeOrmConditionFragment.
-   */
-  private _buildCompositeCursorCondition(
-    filter1: FilterPrimitive<
-      string,
-      FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-    >,
-    filter2: FilterPrimitive<
-      string,
-      FilterOperator.GREATER_THAN | FilterOperator.LESS_THAN
-    >,
-  ): TypeOrmConditionFragment {
-    const op = filter1.operator === FilterOperator.GREATER_THAN ? '>' : '<';
-
-    if (op === '>') {
-      return this._buildCompositeAscending(filter1, filter2);
+    if (alternatives.length === 0) {
+      return { queryFragment: '(1=0)', parameters };
     }
-    return this._buildCompositeDescending(filter1, filter2);
+    return { queryFragment: `(${alternatives.join(' OR ')})`, parameters };
   }
 
   /**
-   * Builds the specific WHERE clause for a two-field ascending ('>') cursor.
-   * Handles null values according to PostgreSQL's `NULLS LAST` behavior for ASC.
-   * @param filter1 The primary sort key filter.
-   * @param filter2 The tie-breaker filter.
-   * @returns A TypeOrmConditionFragment.
+   * Builds the condition matching the values of a field that sort after the cursor value.
+   * @param part The cursor part of the field.
+   * @param placeholder The parameter placeholder of the cursor value, or null if the value is NULL.
+   * @returns The condition, or undefined if no value sorts after the cursor value.
    */
-  private _buildCompositeAscending(
-    filter1: FilterPrimitive<string, any>,
-    filter2: FilterPrimitive<string, any>,
-  ): TypeOrmConditionFragment {
-    const field1Name = filter1.field;
-    const { value: value1 } = filter1;
-    const field2Name = filter2.field;
-    const { value: value2 } = filter2;
-    const parameters: ObjectLiteral = {};
-
-    if (value1 === null) {
-      // ASC (NULLS LAST): NULL is the "largest" value.
-      // If cursor is NULL, we only want other NULLs that are "greater" in the tie-breaker.
-      const paramName2 = this._parameterManager.generateParamName();
-      parameters[paramName2] = value2;
-      const query = `(${field1Name} IS NULL AND ${field2Name} > :${paramName2})`;
-      return { queryFragment: query, parameters };
+  private afterCursorValue(
+    { field, direction, nullsFirst }: CursorPart,
+    placeholder: string | null,
+  ): string | undefined {
+    if (placeholder === null) {
+      return nullsFirst ? `${field} IS NOT NULL` : undefined;
     }
-
-    // ASC (NULLS LAST): Value1 is NOT NULL.
-    // We want:
-    // 1. Values greater than value1
-    // 2. Values equal to value1 AND tie-breaker > value2
-    // 3. NULLs (since they are "larger" than any value)
-    const paramName1 = this._parameterManager.generateParamName();
-    const paramName2 = this._parameterManager.generateParamName();
-    parameters[paramName1] = value1;
-    parameters[paramName2] = value2;
-    const query = `((${field1Name} > :${paramName1}) OR (${field1Name} = :${paramName1} AND ${field2Name} > :${paramName2}) OR (${field1Name} IS NULL))`;
-    return { queryFragment: query, parameters };
+    const comparison = `${field} ${this.afterOperator(direction)} ${placeholder}`;
+    return nullsFirst ? comparison : `(${comparison} OR ${field} IS NULL)`;
   }
 
-  /**
-   * Builds the specific WHERE clause for a two-field descending ('<') cursor.
-   * Handles null values according to PostgreSQL's `NULLS LAST` behavior for DESC.
-   * @param filter1 The primary sort key filter.
-   * @param filter2 The tie-breaker filter.
-   * @returns A TypeOrmConditionFragment.
-   */
-  private _buildCompositeDescending(
-    filter1: FilterPrimitive<string, any>,
-    filter2: FilterPrimitive<string, any>,
-  ): TypeOrmConditionFragment {
-    const field1Name = filter1.field;
-    const { value: value1 } = filter1;
-    const field2Name = filter2.field;
-    const { value: value2 } = filter2;
-    const parameters: ObjectLiteral = {};
-
-    if (value1 === null) {
-      // DESC (NULLS LAST): NULL is the "smallest" value.
-      // If cursor is NULL, we want "smaller" values.
-      // 1. Other NULLs with tie-breaker < value2
-      // 2. Nothing else (NULL is smallest)
-      const paramName2 = this._parameterManager.generateParamName();
-      parameters[paramName2] = value2;
-      const query = `(${field1Name} IS NULL AND ${field2Name} < :${paramName2})`;
-      return { queryFragment: query, parameters };
-    }
-
-    // DESC (NULLS LAST): Value1 is NOT NULL.
-    // We want:
-    // 1. Values smaller than value1
-    // 2. Values equal to value1 AND tie-breaker < value2
-    // 3. NULLs (since they are "smaller" than any value)
-    const paramName1 = this._parameterManager.generateParamName();
-    const paramName2 = this._parameterManager.generateParamName();
-    parameters[paramName1] = value1;
-    parameters[paramName2] = value2;
-    const query = `((${field1Name} < :${paramName1}) OR (${field1Name} = :${paramName1} AND ${field2Name} < :${paramName2}) OR (${field1Name} IS NULL))`;
-    return { queryFragment: query, parameters };
+  private afterOperator(direction: OrderDirection): '>' | '<' {
+    return direction === OrderDirection.ASC ? '>' : '<';
   }
 
   /**
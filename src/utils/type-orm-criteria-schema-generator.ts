@@ -0,0 +1,259 @@
+import type {
+  DataSource,
+  EntityMetadata,
+  EntityTarget,
+  ObjectLiteral,
+} from 'typeorm';
+import type {
+  CriteriaSchema,
+  JoinRelationType,
+} from '@nulledexp/translatable-criteria';
+
+/**
+ * Options for TypeOrmCriteriaSchemaGenerator.
+ */
+export type CriteriaSchemaGeneratorOptions = {
+  /**
+   * Schema aliases by entity name. Entities without an entry use their table name as alias.
+   */
+  aliases?: Record<string, string>;
+};
+
+type GeneratedRelation = CriteriaSchema['relations'][number];
+type ColumnMetadata = EntityMetadata['columns'][number];
+type RelationMetadata = EntityMetadata['relations'][number];
+
+/**
+ * Derives CriteriaSchemas from the entity metadata of a TypeORM DataSource,
+ * so that schemas do not drift from the entities they describe.
+ * - `source_name` is the table name and `fields` are the entity's (non-virtual) column property paths.
+ * - `identifier_field` is the single primary column.
+ * - `relations` are built from the join columns of the owning side, and many_to_many
+ *   relations take their pivot table and fields from the `joinTable`.
+ */
+export class TypeOrmCriteriaSchemaGenerator {
+  /**
+   * @param dataSource An initialized DataSource.
+   * @param options Generator options.
+   */
+  constructor(
+    private readonly dataSource: DataSource,
+    private readonly options: CriteriaSchemaGeneratorOptions = {},
+  ) {}
+
+  /**
+   * Generates the CriteriaSchema of an entity.
+   * The schema is typed as a plain CriteriaSchema, since its names are only known at runtime,
+   * so typed joins need the module rendered by `toTypeScript` (or the `generate-criteria-schemas` script).
+   * @param target The entity (class, EntitySchema or name).
+   * @returns The generated schema.
+   * @throws Error if the entity does not have exactly one primary column,
+   * or if one of its relations uses composite join columns.
+   */
+  public generate(target: EntityTarget<ObjectLiteral>): CriteriaSchema {
+    return this.generateFromMetadata(this.dataSource.getMetadata(target));
+  }
+
+  /**
+   * Generates the CriteriaSchemas of all the entities of the DataSource, except junction tables.
+   * Like `generate`, the schemas are typed as plain CriteriaSchemas.
+   * @returns The generated schemas by entity name.
+   */
+  public generateAll(): Record<string, CriteriaSchema> {
+    const schemas: Record<string, CriteriaSchema> = {};
+    for (const metadata of this.dataSource.entityMetadatas) {
+      if (metadata.tableType === 'junction') {
+        continue;
+      }
+      schemas[metadata.name] = this.generateFromMetadata(metadata);
+    }
+    return schemas;
+  }
+
+  /**
+   * Renders a generated schema as a TypeScript module exporting `<Name>Schema`
+   * as a `GetTypedCriteriaSchema` constant and as its type.
+   * @param entityName The entity name, used to name the exported schema.
+   * @param schema The schema to render.
+   * @returns The module source.
+   */
+  public static toTypeScript(
+    entityName: string,
+    schema: CriteriaSchema,
+  ): string {
+    const constantName = `${TypeOrmCriteriaSchemaGenerator.toPascalCase(entityName)}Schema`;
+    return [
+      `import { GetTypedCriteriaSchema } from '@nulledexp/translatable-criteria';`,
+      '',
+      `export const ${constantName} = GetTypedCriteriaSchema(${TypeOrmCriteriaSchemaGenerator.toLiteral(schema, '')});`,
+      `export type ${constantName} = typeof ${constantName};`,
+      '',
+    ].join('\n');
+  }
+
+  private generateFromMetadata(metadata: EntityMetadata): CriteriaSchema {
+    if (metadata.primaryColumns.length !== 1) {
+      throw new Error(
+        `Entity '${metadata.name}' must have exactly one primary column to derive a CriteriaSchema, found ${metadata.primaryColumns.length}.`,
+      );
+    }
+
+    return {
+      source_name: metadata.tableName,
+      alias: this.options.aliases?.[metadata.name] ?? metadata.tableName,
+      identifier_field: metadata.primaryColumns[0]!.propertyPath,
+      fields: metadata.columns
+        .filter((column) => !column.isVirtual)
+        .map((column) => column.propertyPath),
+      relations: metadata.relations.map((relation) =>
+        this.generateRelation(metadata, relation),
+      ),
+    };
+  }
+
+  private generateRelation(
+    metadata: EntityMetadata,
+    relation: RelationMetadata,
+  ): GeneratedRelation {
+    const relationType = relation.relationType.replace(
+      /-/g,
+      '_',
+    ) as JoinRelationType;
+    const relationAlias = relation.propertyPath;
+    const targetSourceName = relation.inverseEntityMetadata.tableName;
+
+    if (relationType === 'many_to_many') {
+      const owningRelation = relation.isOwning
+        ? relation
+        : relation.inverseRelation;
+      if (!owningRelation?.junctionEntityMetadata) {
+        throw new Error(
+          `Relation '${metadata.name}.${relation.propertyPath}' has no join table on its owning side.`,
+        );
+      }
+      const [localColumn, relatedColumn] = relation.isOwning
+        ? [owningRelation.joinColumns, owningRelation.inverseJoinColumns]
+        : [owningRelation.inverseJoinColumns, owningRelation.joinColumns];
+
+      return {
+        relation_alias: relationAlias,
+        relation_type: 'many_to_many',
+        target_source_name: targetSourceName,
+        pivot_source_name: owningRelation.junctionEntityMetadata.tableName,
+        local_field: this.toPivotField(metadata, relation, localColumn),
+        relation_field: this.toPivotField(metadata, relation, relatedColumn),
+      };
+    }
+
+    if (relation.isOwning) {
+      const joinColumn = this.singleJoinColumn(
+        metadata,
+        relation,
+        relation.joinColumns,
+      );
+      return {
+        relation_alias: relationAlias,
+        relation_type: relationType,
+        target_source_name: targetSourceName,
+        local_field: this.fieldOfColumn(metadata, joinColumn),
+        relation_field: joinColumn.referencedColumn!.propertyPath,
+      };
+    }
+
+    const inverseJoinColumn = this.singleJoinColumn(
+      metadata,
+      relation,
+      relation.inverseRelation?.joinColumns ?? [],
+    );
+    return {
+      relation_alias: relationAlias,
+      relation_type: relationType,
+      target_source_name: targetSourceName,
+      local_field: inverseJoinColumn.referencedColumn!.propertyPath,
+      relation_field: this.fieldOfColumn(
+        relation.inverseEntityMetadata,
+        inverseJoinColumn,
+      ),
+    };
+  }
+
+  private toPivotField(
+    metadata: EntityMetadata,
+    relation: RelationMetadata,
+    joinColumns: ColumnMetadata[],
+  ): { pivot_field: string; reference: string } {
+    const joinColumn = this.singleJoinColumn(metadata, relation, joinColumns);
+    return {
+      pivot_field: joinColumn.databaseName,
+      reference: joinColumn.referencedColumn!.propertyPath,
+    };
+  }
+
+  private singleJoinColumn(
+    metadata: EntityMetadata,
+    relation: RelationMetadata,
+    joinColumns: ColumnMetadata[],
+  ): ColumnMetadata {
+    if (joinColumns.length !== 1 || !joinColumns[0]!.referencedColumn) {
+      throw new Error(
+        `Relation '${metadata.name}.${relation.propertyPath}' must be joined through exactly one column to derive a CriteriaSchema, found ${joinColumns.length}.`,
+      );
+    }
+    return joinColumns[0]!;
+  }
+
+  /**
+   * Resolves the schema field of a join column: the non-virtual column mapped to the same
+   * database column, or the database column name if the entity does not declare one.
+   */
+  private fieldOfColumn(
+    metadata: EntityMetadata,
+    joinColumn: ColumnMetadata,
+  ): string {
+    const declaredColumn = metadata.columns.find(
+      (column) =>
+        !column.isVirtual && column.databaseName === joinColumn.databaseName,
+    );
+    return declaredColumn?.propertyPath ?? joinColumn.databaseName;
+  }
+
+  private static toPascalCase(name: string): string {
+    return name
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0]!.toUpperCase() + part.slice(1))
+      .join('');
+  }
+
+  /**
+   * Renders a JSON-like value as a TypeScript literal, with unquoted keys and single-quoted strings.
+   */
+  private static toLiteral(value: unknown, indent: string): string {
+    const nestedIndent = `${indent}  `;
+    if (typeof value === 'string') {
+      return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+    }
+    if (Array.isArray(value)) {
+      if (value.length === 0) {
+        return '[]';
+      }
+      const items = value.map(
+        (item) =>
+          `${nestedIndent}${TypeOrmCriteriaSchemaGenerator.toLiteral(item, nestedIndent)},`,
+      );
+      return `[\n${items.join('\n')}\n${indent}]`;
+    }
+    if (value !== null && typeof value === 'object') {
+      const entries = Object.entries(value)
+        .filter(([, entryValue]) => entryValue !== undefined)
+        .map(([key, entryValue]) => {
+          const renderedKey = /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key)
+            ? key
+            : TypeOrmCriteriaSchemaGenerator.toLiteral(key, '');
+          return `${nestedIndent}${renderedKey}: ${TypeOrmCriteriaSchemaGenerator.toLiteral(entryValue, nestedIndent)},`;
+        });
+      return `{\n${entries.join('\n')}\n${indent}}`;
+    }
+    return String(value);
+  }
+}
@@ -1,26 +1,87 @@
 import { type ObjectLiteral, type SelectQueryBuilder } from 'typeorm';
 import type { TypeOrmConditionBuilder } from './type-orm-condition-builder.js';
+import { TypeOrmFilterFragmentBuilder } from './type-orm-filter-fragment-builder.js';
+import type { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import type { FilterOperatorHandlerRegistry } from './filter-operator-handler-registry.js';
 import {
   type CriteriaSchema,
-  type InnerJoinCriteria,
+  type FilterGroup,
+  InnerJoinCriteria,
   type LeftJoinCriteria,
   type OuterJoinCriteria,
   type PivotJoin,
+  type RootCriteria,
   type SimpleJoin,
   SelectType,
 } from '@nulledexp/translatable-criteria';
 import { QueryState } from './query-state.js';
+import {
+  assertLateralJoin,
+  assertSubqueryJoin,
+  getJoinStrategy,
+  getRelationCount,
+  isSubqueryJoin,
+} from './join-strategy.js';
+import { getRelationAggregateOrders } from './relation-aggregate-order.js';
+import { hasComputedOrders } from './computed-order.js';
+import { AGGREGATE_EXPRESSIONS } from './type-orm-aggregation-applier.js';
+
+type JoinAttribute =
+  SelectQueryBuilder<any>['expressionMap']['joinAttributes'][number];
+
+/**
+ * Switches a join registered with `leftJoin` to a FULL OUTER join.
+ * TypeORM only exposes INNER and LEFT joins and types `JoinAttribute.direction` as `'LEFT' | 'INNER'`,
+ * but its SelectQueryBuilder renders the direction verbatim as `<direction> JOIN`, for the junction
+ * table join of many_to_many relations too. This is the only place relying on that internal;
+ * the outer join tests check the generated SQL, so a TypeORM upgrade that changes it is caught.
+ * @param joinAttribute The join attribute TypeORM registered for the LEFT join.
+ */
+export function setFullOuterJoinDirection(joinAttribute: JoinAttribute): void {
+  (joinAttribute as { direction: string }).direction = 'FULL OUTER';
+}
+
+/**
+ * The rows a related rows subquery selects from: the source of the relation target and its filters.
+ */
+type RelatedRows = {
+  sourceName: string;
+  rootFilterGroup?: FilterGroup<any>;
+};
 
 /**
  * Applies join logic to a TypeORM SelectQueryBuilder.
  * Handles ON conditions and field selection based on JoinOptions.
  */
 export class TypeOrmJoinApplier<T extends ObjectLiteral> {
+  private _optimizeJoins = true;
+  /** The LEFT and FULL joins created by the translator, by alias, whose ON clause receives their subquery children. */
+  private _outerJoinAttributes = new Map<string, JoinAttribute>();
+
+  /**
+   * @param _conditionBuilder Builds the ON (or WHERE) conditions of the joins.
+   * @param _queryState The QueryState of the translation.
+   * @param _parameterManager The parameter manager of the translation, used for relation count values.
+   * @param _handlerRegistry Resolves the handler of each relation count operator.
+   * @param _reuseExistingJoins Whether joins already on the query builder are reused
+   * instead of adding a second join of the same relation.
+   */
   constructor(
     private _conditionBuilder: TypeOrmConditionBuilder,
     private _queryState: QueryState,
+    private _parameterManager: TypeOrmParameterManager,
+    private _handlerRegistry: FilterOperatorHandlerRegistry,
+    private _reuseExistingJoins: boolean = false,
   ) {}
 
+  /**
+   * Joins ID_ONLY relations even when the foreign key of the parent would be enough,
+   * for queries that can read any field of the joined criteria (e.g. aggregations).
+   */
+  public disableJoinOptimization(): void {
+    this._optimizeJoins = false;
+  }
+
   /**
    * Applies INNER, LEFT or FULL join logic to the query builder.
    * Constructs the ON clause and handles field selection.
@@ -33,40 +94,502 @@ export class TypeOrmJoinApplier<T extends ObjectLiteral> {
    */
   public applyJoinLogic(
     qb: SelectQueryBuilder<T>,
-    joinType: 'inner' | 'left',
-    criteria: InnerJoinCriteria<any> | LeftJoinCriteria<any>,
+    joinType: 'inner' | 'left' | 'full',
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
     parameters:
       | PivotJoin<CriteriaSchema, CriteriaSchema>
       | SimpleJoin<CriteriaSchema, CriteriaSchema>,
   ): { usedAlias: string } {
-    if (this.canOptimizeJoin(criteria, parameters)) {
+    if (
+      joinType !== 'full' &&
+      this._optimizeJoins &&
+      this.canOptimizeJoin(criteria, parameters)
+    ) {
       this.applyOptimizedSelection(
         parameters as SimpleJoin<CriteriaSchema, CriteriaSchema>,
       );
       return { usedAlias: parameters.relation_alias };
     }
 
+    const isLateral = getJoinStrategy(criteria) === 'lateral';
+    const reusableJoin =
+      this._reuseExistingJoins && !isLateral
+        ? this.findReusableJoin(qb, joinType, criteria, parameters)
+        : undefined;
+    if (reusableJoin) {
+      const reusedAlias = reusableJoin.alias.name;
+      this._queryState.registerAliasSourceName(
+        reusedAlias,
+        criteria.sourceName,
+      );
+      this.attachToExistingJoin(qb, joinType, criteria, reusableJoin);
+      this.handleSelection(criteria, parameters, reusedAlias);
+      return { usedAlias: reusedAlias };
+    }
+
     const joinAlias = this.resolveUniqueAlias(qb, parameters.relation_alias);
+    this._queryState.registerAliasSourceName(joinAlias, criteria.sourceName);
     const targetTableNameOrRelationProperty = `${parameters.parent_alias}.${parameters.relation_alias}`;
 
+    if (isLateral) {
+      this.applyLateralJoin(qb, joinType, criteria, parameters, joinAlias);
+      this.recordOuterJoin(qb, joinType, joinAlias);
+      this.handleSelection(criteria, parameters, joinAlias);
+      return { usedAlias: joinAlias };
+    }
+
     const { onConditionClause, onConditionParams } = this.buildOnCondition(
       criteria,
       joinAlias,
     );
 
-    const joinMethod = joinType === 'inner' ? qb.innerJoin : qb.leftJoin;
+    if (joinType === 'full') {
+      this.applyFullOuterJoin(
+        qb,
+        targetTableNameOrRelationProperty,
+        joinAlias,
+        onConditionClause,
+        onConditionParams,
+      );
+    } else {
+      const joinMethod = joinType === 'inner' ? qb.innerJoin : qb.leftJoin;
+
+      joinMethod.call(
+        qb,
+        targetTableNameOrRelationProperty,
+        joinAlias,
+        onConditionClause,
+        onConditionParams,
+      );
+    }
+
+    this.recordOuterJoin(qb, joinType, joinAlias);
+    this.handleSelection(criteria, parameters, joinAlias);
+
+    return { usedAlias: joinAlias };
+  }
+
+  /**
+   * Applies a join criteria translated as a subquery as a correlated condition:
+   * `(SELECT COUNT(*) ...) <operator> <value>` if it has a relation count condition, otherwise
+   * `[NOT] EXISTS (SELECT 1 ...)` for the `exists` and `not_exists` strategies.
+   * The condition is AND-ed to the ON clause of its parent join when the parent is a LEFT or FULL join,
+   * so it only restricts the joined rows, and to the WHERE clause otherwise.
+   * The parent rows are filtered without being multiplied, and nothing is selected from the relation.
+   *
+   * @param qb The TypeORM SelectQueryBuilder.
+   * @param criteria The join criteria.
+   * @param parameters Join parameters (aliases, mappings, options).
+   * @throws Error if the criteria, or a criteria nested in its subquery, has orderings or a cursor.
+   */
+  public applySubqueryJoin(
+    qb: SelectQueryBuilder<T>,
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+  ): void {
+    const { condition, conditionParams } = this.buildSubqueryCondition(
+      qb,
+      qb,
+      criteria,
+      parameters,
+    );
+
+    const outerJoin = this._outerJoinAttributes.get(parameters.parent_alias);
+    if (outerJoin) {
+      outerJoin.condition = outerJoin.condition
+        ? `(${outerJoin.condition}) AND ${condition}`
+        : condition;
+      qb.setParameters(conditionParams);
+      return;
+    }
+
+    if (this._queryState.hasWhereClauses()) {
+      qb.andWhere(condition, conditionParams);
+    } else {
+      qb.where(condition, conditionParams);
+    }
+    this._queryState.setQueryHasWhereClauses(true);
+  }
+
+  /**
+   * Builds the relation count or `[NOT] EXISTS` condition of a join criteria, correlated to its parent alias.
+   * The subquery alias is prefixed by the parent alias, so nested subqueries never shadow their parents.
+   * The tables come from the entity metadata of the relation, like the tables of the JOIN clauses.
+   * Its filters go to the WHERE clause of the subquery, and its INNER child joins, or children
+   * set to a subquery strategy, become nested conditions. LEFT and FULL OUTER children filter nothing.
+   */
+  private buildSubqueryCondition(
+    qb: SelectQueryBuilder<T>,
+    parentQb: SelectQueryBuilder<any>,
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+  ): { condition: string; conditionParams: ObjectLiteral } {
+    assertSubqueryJoin(criteria);
 
-    joinMethod.call(
+    const subqueryAlias = this.resolveUniqueAlias(
       qb,
+      `${parameters.parent_alias}_${parameters.relation_alias}`,
+    );
+    const relationCount = getRelationCount(criteria);
+    const subQb = this.createRelatedRowsQuery(
+      qb,
+      parentQb,
+      criteria,
+      parameters,
+      subqueryAlias,
+    ).select(relationCount ? 'COUNT(*)' : '1');
+
+    for (const joinDetail of criteria.joins) {
+      if (
+        !(joinDetail.criteria instanceof InnerJoinCriteria) &&
+        !isSubqueryJoin(joinDetail.criteria)
+      ) {
+        continue;
+      }
+      const { condition, conditionParams } = this.buildSubqueryCondition(
+        qb,
+        subQb,
+        joinDetail.criteria,
+        { ...joinDetail.parameters, parent_alias: subqueryAlias },
+      );
+      subQb.andWhere(condition, conditionParams);
+    }
+
+    if (relationCount) {
+      const subQuery = subQb.getQuery();
+      const { queryFragment, parameters: countParams } =
+        new TypeOrmFilterFragmentBuilder(
+          this._parameterManager,
+          () => subQuery,
+          this._handlerRegistry,
+          () => criteria.sourceName,
+        ).build(relationCount, subqueryAlias);
+      return {
+        condition: queryFragment,
+        conditionParams: { ...subQb.getParameters(), ...countParams },
+      };
+    }
+
+    const keyword =
+      getJoinStrategy(criteria) === 'not_exists' ? 'NOT EXISTS' : 'EXISTS';
+    return {
+      condition: `${keyword} ${subQb.getQuery()}`,
+      conditionParams: subQb.getParameters(),
+    };
+  }
+
+  /**
+   * Records the relation aggregate orderings of a criteria, with their aggregates computed
+   * by correlated subqueries over the rows related to its alias.
+   * @param qb The TypeORM SelectQueryBuilder.
+   * @param criteria The root or join criteria.
+   * @param alias The alias the criteria was applied with.
+   * @throws Error if an aggregated field is not defined in the entity of its relation.
+   */
+  public recordRelationAggregateOrders(
+    qb: SelectQueryBuilder<T>,
+    criteria:
+      | RootCriteria<any>
+      | InnerJoinCriteria<any>
+      | LeftJoinCriteria<any>
+      | OuterJoinCriteria<any>,
+    alias: string,
+  ): void {
+    for (const {
+      order,
+      aggregate,
+      sourceName,
+      parameters,
+    } of getRelationAggregateOrders(criteria)) {
+      const subqueryAlias = this.resolveUniqueAlias(
+        qb,
+        `${alias}_${parameters.relation_alias}`,
+      );
+      const subQb = this.createRelatedRowsQuery(
+        qb,
+        qb,
+        { sourceName },
+        { ...parameters, parent_alias: alias },
+        subqueryAlias,
+      );
+      if (
+        aggregate.field !== undefined &&
+        !subQb.expressionMap.mainAlias!.metadata.findColumnWithPropertyPath(
+          aggregate.field,
+        )
+      ) {
+        throw new Error(
+          `The field '${aggregate.field}' is not defined in the entity of the relation '${parameters.relation_alias}'.`,
+        );
+      }
+      subQb.select(
+        AGGREGATE_EXPRESSIONS[aggregate.function](
+          aggregate.field === undefined
+            ? '*'
+            : `${subqueryAlias}.${aggregate.field}`,
+        ),
+      );
+      this._queryState.recordOrderExpression(order, subQb.getQuery(), alias);
+    }
+  }
+
+  /**
+   * Creates a subquery over the rows related to the parent alias through a relation,
+   * restricted by the filters of the related rows, if any. Its selection is left to the caller.
+   * The tables come from the entity metadata of the relation, like the tables of the JOIN clauses.
+   */
+  private createRelatedRowsQuery(
+    qb: SelectQueryBuilder<T>,
+    parentQb: SelectQueryBuilder<any>,
+    relatedRows: RelatedRows,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    subqueryAlias: string,
+  ): SelectQueryBuilder<any> {
+    const relation = parentQb.expressionMap.aliases
+      .find((alias) => alias.name === parameters.parent_alias)
+      ?.metadata.findRelationWithPropertyPath(parameters.relation_alias);
+    if (!relation) {
+      throw new Error(
+        `The relation '${parameters.relation_alias}' of alias '${parameters.parent_alias}' is not defined in the entity metadata.`,
+      );
+    }
+
+    this._queryState.registerAliasSourceName(
+      subqueryAlias,
+      relatedRows.sourceName,
+    );
+    const subQb = qb
+      .subQuery()
+      .from(relation.inverseEntityMetadata.target, subqueryAlias);
+
+    if (parameters.relation_type === 'many_to_many') {
+      const pivotAlias = this.resolveUniqueAlias(qb, `${subqueryAlias}_pivot`);
+      const pivotColumn = (pivotField: string) =>
+        `${qb.escape(pivotAlias)}.${qb.escape(pivotField)}`;
+      subQb
+        .innerJoin(
+          relation.junctionEntityMetadata?.tableName ??
+            parameters.pivot_source_name,
+          pivotAlias,
+          `${pivotColumn(parameters.relation_field.pivot_field)} = ${subqueryAlias}.${String(parameters.relation_field.reference)}`,
+        )
+        .where(
+          `${pivotColumn(parameters.local_field.pivot_field)} = ${parameters.parent_alias}.${String(parameters.local_field.reference)}`,
+        );
+    } else {
+      subQb.where(
+        `${subqueryAlias}.${String(parameters.relation_field)} = ${parameters.parent_alias}.${String(parameters.local_field)}`,
+      );
+    }
+
+    const filterCondition =
+      relatedRows.rootFilterGroup &&
+      this._conditionBuilder.buildConditionStringFromGroup(
+        relatedRows.rootFilterGroup,
+        subqueryAlias,
+      );
+    if (filterCondition) {
+      subQb.andWhere(
+        `(${filterCondition.conditionString})`,
+        filterCondition.parameters,
+      );
+    }
+    return subQb;
+  }
+
+  /**
+   * Joins a join criteria set to the `lateral` strategy as `[LEFT|INNER] JOIN LATERAL (...) ON TRUE`.
+   * The subquery selects the related rows matching the criteria filters, in the order of its orderings,
+   * limited by its take and skip. The join is registered on the entity of the relation and mapped
+   * to the relation property, so the rows are still hydrated into the parent entities.
+   */
+  private applyLateralJoin(
+    qb: SelectQueryBuilder<T>,
+    joinType: 'inner' | 'left' | 'full',
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+    joinAlias: string,
+  ): void {
+    assertLateralJoin(criteria, parameters);
+
+    const subQb = this.createRelatedRowsQuery(
+      qb,
+      qb,
+      criteria,
+      parameters,
+      joinAlias,
+    ).select(`${qb.escape(joinAlias)}.*`);
+    criteria.orders.forEach((order) =>
+      subQb.addOrderBy(
+        `${joinAlias}.${String(order.field)}`,
+        order.direction,
+        order.nullsFirst ? 'NULLS FIRST' : 'NULLS LAST',
+      ),
+    );
+    if (criteria.take > 0) {
+      subQb.limit(criteria.take);
+    }
+    if (criteria.skip > 0) {
+      subQb.offset(criteria.skip);
+    }
+
+    const target = subQb.expressionMap.mainAlias!.target;
+    if (joinType === 'inner') {
+      qb.innerJoin(target, joinAlias, 'TRUE', subQb.getParameters());
+    } else {
+      qb.leftJoin(target, joinAlias, 'TRUE', subQb.getParameters());
+    }
+
+    const joinAttribute = this.getJoinAttribute(qb, joinAlias);
+    joinAttribute.alias.subQuery = `LATERAL ${subQb.getQuery()}`;
+    joinAttribute.mapToProperty = `${parameters.parent_alias}.${parameters.relation_alias}`;
+    joinAttribute.isMappingMany = true;
+  }
+
+  /**
+   * Applies a FULL OUTER JOIN to the query builder.
+   * The join is registered as a LEFT join and switched by `setFullOuterJoinDirection`.
+   */
+  private applyFullOuterJoin(
+    qb: SelectQueryBuilder<T>,
+    targetTableNameOrRelationProperty: string,
+    joinAlias: string,
+    onConditionClause: string | undefined,
+    onConditionParams: ObjectLiteral,
+  ): void {
+    qb.leftJoin(
       targetTableNameOrRelationProperty,
       joinAlias,
       onConditionClause,
       onConditionParams,
     );
 
-    this.handleSelection(criteria, parameters, joinAlias);
+    const joinAttribute = this.getJoinAttribute(qb, joinAlias);
+    setFullOuterJoinDirection(joinAttribute);
+  }
 
-    return { usedAlias: joinAlias };
+  /**
+   * Records a LEFT or FULL join created by the translator, so its subquery children go to its ON clause.
+   */
+  private recordOuterJoin(
+    qb: SelectQueryBuilder<T>,
+    joinType: 'inner' | 'left' | 'full',
+    joinAlias: string,
+  ): void {
+    if (joinType !== 'inner') {
+      this._outerJoinAttributes.set(
+        joinAlias,
+        this.getJoinAttribute(qb, joinAlias),
+      );
+    }
+  }
+
+  /**
+   * Gets the join attribute TypeORM registered for a join alias.
+   * @throws Error if TypeORM did not register a join for the alias.
+   */
+  private getJoinAttribute(
+    qb: SelectQueryBuilder<T>,
+    joinAlias: string,
+  ): JoinAttribute {
+    const joinAttribute = qb.expressionMap.joinAttributes.find(
+      (attribute) => attribute.alias.name === joinAlias,
+    );
+    if (!joinAttribute) {
+      throw new Error(
+        `Join attribute for alias '${joinAlias}' was not registered by TypeORM.`,
+      );
+    }
+    return joinAttribute;
+  }
+
+  /**
+   * Finds a join already on the query builder for the same relation property of the same parent alias.
+   * FULL joins are never reused, and neither is an INNER join for a LEFT join criteria,
+   * since the existing join has already dropped the parent rows the LEFT join must keep.
+   * A LEFT join criteria with filters or subquery children is not attached to an existing LEFT join either:
+   * they belong in the ON condition, and a join the translator did not create is never modified.
+   */
+  private findReusableJoin(
+    qb: SelectQueryBuilder<T>,
+    joinType: 'inner' | 'left' | 'full',
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
+    parameters:
+      | PivotJoin<CriteriaSchema, CriteriaSchema>
+      | SimpleJoin<CriteriaSchema, CriteriaSchema>,
+  ): JoinAttribute | undefined {
+    if (
+      joinType === 'full' ||
+      (joinType === 'left' &&
+        (criteria.rootFilterGroup.items.length > 0 ||
+          criteria.joins.some((joinDetail) =>
+            isSubqueryJoin(joinDetail.criteria),
+          )))
+    ) {
+      return undefined;
+    }
+
+    const relationProperty = `${parameters.parent_alias}.${parameters.relation_alias}`;
+    return qb.expressionMap.joinAttributes.find(
+      (attribute) =>
+        attribute.entityOrProperty === relationProperty &&
+        (attribute.direction === 'LEFT' || joinType === 'inner'),
+    );
+  }
+
+  /**
+   * Applies an INNER join criteria to an existing join without modifying it: its filters are AND-ed
+   * to the WHERE clause, which for an INNER join is equivalent to its ON condition,
+   * and an existing LEFT join is restricted to the parent rows with a match.
+   * A LEFT join criteria is only attached to an existing LEFT join when it has no filters or subquery children, so nothing is added.
+   */
+  private attachToExistingJoin(
+    qb: SelectQueryBuilder<T>,
+    joinType: 'inner' | 'left' | 'full',
+    criteria:
+      InnerJoinCriteria<any> | LeftJoinCriteria<any> | OuterJoinCriteria<any>,
+    existingJoin: JoinAttribute,
+  ): void {
+    if (joinType !== 'inner') {
+      return;
+    }
+
+    const joinAlias = existingJoin.alias.name;
+    const { onConditionClause, onConditionParams } = this.buildOnCondition(
+      criteria,
+      joinAlias,
+    );
+    const conditions =
+      existingJoin.direction === 'LEFT'
+        ? [`${joinAlias}.${String(criteria.identifierField)} IS NOT NULL`]
+        : [];
+    if (onConditionClause) {
+      conditions.push(`(${onConditionClause})`);
+    }
+    if (conditions.length === 0) {
+      return;
+    }
+
+    const whereCondition = conditions.join(' AND ');
+    if (qb.expressionMap.wheres.length > 0) {
+      qb.andWhere(whereCondition, onConditionParams);
+    } else {
+      qb.where(whereCondition, onConditionParams);
+    }
+    this._queryState.setQueryHasWhereClauses(true);
   }
 
   /**
@@ -103,7 +626,7 @@ export class TypeOrmJoinApplier<T extends ObjectLiteral> {
       return false;
     }
 
-    if (criteria.orders.length > 0) {
+    if (criteria.orders.length > 0 || hasComputedOrders(criteria)) {
       return false;
     }
 
@@ -1,12 +1,59 @@
+import type { SelectQueryBuilder } from 'typeorm';
+
+/**
+ * Generates the parameter names of a translation as `<prefix>_<n>`.
+ * Names reported as reserved (e.g. already set on the target query builder) are skipped,
+ * so generated names never overwrite existing parameters.
+ */
 export class TypeOrmParameterManager {
   private paramCounter = 0;
 
-  constructor() {
+  /**
+   * @param prefix The prefix for generated names. Must be a valid parameter identifier.
+   * @param isReserved Returns true for names that are already in use and must be skipped.
+   * @throws Error if the prefix is not a valid parameter identifier.
+   */
+  constructor(
+    private readonly prefix: string = 'param',
+    private readonly isReserved: (name: string) => boolean = () => false,
+  ) {
+    TypeOrmParameterManager.assertValidPrefix(prefix);
     this.reset();
   }
 
+  /**
+   * Creates a parameter manager that skips the names already set on a query builder.
+   * @param qb The query builder the generated parameters are added to.
+   * @param prefix The prefix for generated names.
+   */
+  public static forQueryBuilder(
+    qb: SelectQueryBuilder<any>,
+    prefix: string = 'param',
+  ): TypeOrmParameterManager {
+    return new TypeOrmParameterManager(prefix, (name) =>
+      Object.prototype.hasOwnProperty.call(qb.expressionMap.parameters, name),
+    );
+  }
+
+  /**
+   * Validates a parameter name prefix.
+   * @param prefix The prefix to validate.
+   * @throws Error if the prefix is not a valid parameter identifier.
+   */
+  public static assertValidPrefix(prefix: string): void {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(
+        `Invalid parameter prefix '${prefix}': only letters, digits and underscores are allowed, and it cannot start with a digit.`,
+      );
+    }
+  }
+
   generateParamName(): string {
-    return `param_${this.paramCounter++}`;
+    let name = `${this.prefix}_${this.paramCounter++}`;
+    while (this.isReserved(name)) {
+      name = `${this.prefix}_${this.paramCounter++}`;
+    }
+    return name;
   }
 
   reset(): void {
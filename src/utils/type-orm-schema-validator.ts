@@ -0,0 +1,251 @@
+import type { DataSource, EntityMetadata } from 'typeorm';
+import type { CriteriaSchema } from '@nulledexp/translatable-criteria';
+
+/**
+ * The kind of a mismatch between a CriteriaSchema and the entity metadata.
+ */
+export type SchemaMismatchCode =
+  | 'UNKNOWN_SOURCE'
+  | 'UNKNOWN_FIELD'
+  | 'IDENTIFIER_NOT_PRIMARY'
+  | 'UNKNOWN_RELATION'
+  | 'RELATION_TYPE_MISMATCH'
+  | 'RELATION_TARGET_MISMATCH'
+  | 'UNKNOWN_JOIN_FIELD'
+  | 'PIVOT_SOURCE_MISMATCH'
+  | 'UNKNOWN_PIVOT_FIELD'
+  | 'PIVOT_REFERENCE_MISMATCH';
+
+/**
+ * A mismatch between a CriteriaSchema and the entity metadata of a DataSource.
+ */
+export type SchemaMismatch = {
+  /** The `source_name` of the schema. */
+  sourceName: string;
+  /** The `alias` of the schema. */
+  alias: string;
+  code: SchemaMismatchCode;
+  /** The schema property that does not match, e.g. `relations.permissions.pivot_source_name`. */
+  path: string;
+  message: string;
+};
+
+type SchemaRelation = CriteriaSchema['relations'][number];
+type AddMismatch = (
+  code: SchemaMismatchCode,
+  path: string,
+  message: string,
+) => void;
+
+/**
+ * Checks CriteriaSchemas against the entity metadata of an initialized DataSource.
+ * Schemas are matched to entities by `source_name` (the table name). The check covers:
+ * - every field and the identifier are columns, and the identifier is a primary column;
+ * - every `relation_alias` is a relation property with the same type and target table;
+ * - the `local_field` and `relation_field` of simple relations are columns of their entities;
+ * - `pivot_source_name`, and the `pivot_field` and `reference` of each side of many_to_many relations, match the join table.
+ */
+export class TypeOrmSchemaValidator {
+  /**
+   * @param dataSource An initialized DataSource.
+   */
+  constructor(private readonly dataSource: DataSource) {}
+
+  /**
+   * Validates CriteriaSchemas against the entity metadata.
+   * @param schemas The schemas to validate.
+   * @returns The mismatches found, empty if every schema matches.
+   */
+  public validate(schemas: ReadonlyArray<CriteriaSchema>): SchemaMismatch[] {
+    return schemas.flatMap((schema) => this.validateSchema(schema));
+  }
+
+  private validateSchema(schema: CriteriaSchema): SchemaMismatch[] {
+    const mismatches: SchemaMismatch[] = [];
+    const addMismatch: AddMismatch = (code, path, message) =>
+      mismatches.push({
+        sourceName: schema.source_name,
+        alias: schema.alias,
+        code,
+        path,
+        message,
+      });
+
+    const metadata = this.findEntityMetadata(schema.source_name);
+    if (!metadata) {
+      addMismatch(
+        'UNKNOWN_SOURCE',
+        'source_name',
+        `No entity is mapped to table '${schema.source_name}'.`,
+      );
+      return mismatches;
+    }
+
+    for (const field of schema.fields) {
+      if (!this.hasColumn(metadata, field)) {
+        addMismatch(
+          'UNKNOWN_FIELD',
+          `fields.${field}`,
+          `Field '${field}' is not a column of entity '${metadata.name}'.`,
+        );
+      }
+    }
+
+    if (
+      !metadata.primaryColumns.some(
+        (column) => column.propertyPath === schema.identifier_field,
+      )
+    ) {
+      addMismatch(
+        'IDENTIFIER_NOT_PRIMARY',
+        'identifier_field',
+        `Identifier '${schema.identifier_field}' is not a primary column of entity '${metadata.name}'.`,
+      );
+    }
+
+    for (const relation of schema.relations) {
+      this.validateRelation(metadata, relation, addMismatch);
+    }
+
+    return mismatches;
+  }
+
+  private validateRelation(
+    metadata: EntityMetadata,
+    relation: SchemaRelation,
+    addMismatch: AddMismatch,
+  ): void {
+    const path = `relations.${relation.relation_alias}`;
+    const relationMetadata = metadata.findRelationWithPropertyPath(
+      relation.relation_alias,
+    );
+    if (!relationMetadata) {
+      addMismatch(
+        'UNKNOWN_RELATION',
+        `${path}.relation_alias`,
+        `'${relation.relation_alias}' is not a relation of entity '${metadata.name}'.`,
+      );
+      return;
+    }
+
+    const actualType = relationMetadata.relationType.replace(/-/g, '_');
+    if (actualType !== relation.relation_type) {
+      addMismatch(
+        'RELATION_TYPE_MISMATCH',
+        `${path}.relation_type`,
+        `Relation '${relation.relation_alias}' is '${actualType}' in entity '${metadata.name}', not '${relation.relation_type}'.`,
+      );
+    }
+
+    const targetMetadata = relationMetadata.inverseEntityMetadata;
+    if (targetMetadata.tableName !== relation.target_source_name) {
+      addMismatch(
+        'RELATION_TARGET_MISMATCH',
+        `${path}.target_source_name`,
+        `Relation '${relation.relation_alias}' targets table '${targetMetadata.tableName}', not '${relation.target_source_name}'.`,
+      );
+    }
+
+    if (relation.relation_type !== 'many_to_many') {
+      if (!this.hasColumn(metadata, relation.local_field)) {
+        addMismatch(
+          'UNKNOWN_JOIN_FIELD',
+          `${path}.local_field`,
+          `'${relation.local_field}' is not a column of entity '${metadata.name}'.`,
+        );
+      }
+      if (!this.hasColumn(targetMetadata, relation.relation_field)) {
+        addMismatch(
+          'UNKNOWN_JOIN_FIELD',
+          `${path}.relation_field`,
+          `'${relation.relation_field}' is not a column of entity '${targetMetadata.name}'.`,
+        );
+      }
+      return;
+    }
+
+    const owningRelation = relationMetadata.isOwning
+      ? relationMetadata
+      : relationMetadata.inverseRelation;
+    const junctionMetadata = owningRelation?.junctionEntityMetadata;
+    if (
+      !junctionMetadata ||
+      junctionMetadata.tableName !== relation.pivot_source_name
+    ) {
+      addMismatch(
+        'PIVOT_SOURCE_MISMATCH',
+        `${path}.pivot_source_name`,
+        `Relation '${relation.relation_alias}' uses join table '${junctionMetadata?.tableName}', not '${relation.pivot_source_name}'.`,
+      );
+    }
+
+    if (!owningRelation || !junctionMetadata) {
+      return;
+    }
+    const sides = {
+      local_field: {
+        entityName: metadata.name,
+        columns: relationMetadata.isOwning
+          ? owningRelation.joinColumns
+          : owningRelation.inverseJoinColumns,
+      },
+      relation_field: {
+        entityName: targetMetadata.name,
+        columns: relationMetadata.isOwning
+          ? owningRelation.inverseJoinColumns
+          : owningRelation.joinColumns,
+      },
+    };
+    for (const side of ['local_field', 'relation_field'] as const) {
+      const { pivot_field: pivotField, reference } = relation[side];
+      const { entityName, columns } = sides[side];
+      const pivotColumn = columns.find(
+        (column) => column.databaseName === pivotField,
+      );
+      if (!pivotColumn) {
+        addMismatch(
+          'UNKNOWN_PIVOT_FIELD',
+          `${path}.${side}.pivot_field`,
+          `'${pivotField}' is not the column of join table '${junctionMetadata.tableName}' that references entity '${entityName}'.`,
+        );
+      }
+      const referencedFields = (pivotColumn ? [pivotColumn] : columns).map(
+        (column) => column.referencedColumn?.propertyPath,
+      );
+      if (!referencedFields.includes(reference)) {
+        addMismatch(
+          'PIVOT_REFERENCE_MISMATCH',
+          `${path}.${side}.reference`,
+          `'${reference}' is not the field of entity '${entityName}' referenced by join table '${junctionMetadata.tableName}'.`,
+        );
+      }
+    }
+  }
+
+  private findEntityMetadata(sourceName: string): EntityMetadata | undefined {
+    return this.dataSource.entityMetadatas.find(
+      (metadata) =>
+        metadata.tableName === sourceName && metadata.tableType !== 'junction',
+    );
+  }
+
+  private hasColumn(metadata: EntityMetadata, field: string): boolean {
+    return metadata.columns.some(
+      (column) => !column.isVirtual && column.propertyPath === field,
+    );
+  }
+}
+
+/**
+ * Validates CriteriaSchemas against the entity metadata of an initialized DataSource,
+ * with a one-off TypeOrmSchemaValidator.
+ * @param dataSource An initialized DataSource.
+ * @param schemas The schemas to validate.
+ * @returns The mismatches found, empty if every schema matches.
+ */
+export function validateSchemas(
+  dataSource: DataSource,
+  schemas: ReadonlyArray<CriteriaSchema>,
+): SchemaMismatch[] {
+  return new TypeOrmSchemaValidator(dataSource).validate(schemas);
+}
@@ -0,0 +1,168 @@
+import type {
+  ObjectLiteral,
+  SelectQueryBuilder,
+  WhereExpressionBuilder,
+} from 'typeorm';
+import { TypeOrmParameterManager } from './type-orm-parameter-manager.js';
+import { TypeOrmFilterFragmentBuilder } from './type-orm-filter-fragment-builder.js';
+import { TypeOrmConditionBuilder } from './type-orm-condition-builder.js';
+import { TypeOrmJoinApplier } from './type-orm-join-applier.js';
+import { QueryState } from './query-state.js';
+import { QueryApplier } from './query-applier.js';
+import { FilterOperatorHandlerRegistry } from './filter-operator-handler-registry.js';
+
+/**
+ * How a translation composes with the clauses already on the source query builder.
+ * - `replace`: the root WHERE, the SELECT list and the ORDER BY are replaced (default).
+ * - `append`: the root filters are AND-ed with existing conditions, and selects and orderings are added.
+ */
+export type TranslationMode = 'replace' | 'append';
+
+/**
+ * The state and helpers of a translation, shared by its context and the contexts derived from it.
+ */
+type TranslationScope<T extends ObjectLiteral> = {
+  readonly filterFragmentBuilder: TypeOrmFilterFragmentBuilder;
+  readonly conditionBuilder: TypeOrmConditionBuilder;
+  readonly queryState: QueryState;
+  readonly queryApplier: QueryApplier<T>;
+  readonly joinApplier: TypeOrmJoinApplier<T>;
+};
+
+/**
+ * Holds the mutable state of a single translation: the query builder being modified
+ * and the helpers bound to that translation's QueryState and parameter names.
+ * A new context is created per `translate` call and threaded through the visitor methods,
+ * so one translator instance can run several translations, including nested ones.
+ */
+export class TypeOrmTranslationContext<T extends ObjectLiteral> {
+  public readonly filterFragmentBuilder: TypeOrmFilterFragmentBuilder;
+  public readonly conditionBuilder: TypeOrmConditionBuilder;
+  public readonly queryState: QueryState;
+  public readonly queryApplier: QueryApplier<T>;
+  public readonly joinApplier: TypeOrmJoinApplier<T>;
+
+  /**
+   * @param queryBuilder The SelectQueryBuilder this translation modifies.
+   * @param whereBuilder The builder the filter groups add their conditions to:
+   * the query builder itself, or the one of a `Brackets` group.
+   * @param parameterManager The parameter manager for this translation.
+   * @param mode How the translation composes with existing clauses on the query builder.
+   * @param reuseExistingJoins Whether joins already on the query builder are reused for matching relations.
+   * @param handlerRegistry Resolves the handler of each filter operator.
+   * @param scope The state and helpers of the translation.
+   */
+  private constructor(
+    public readonly queryBuilder: SelectQueryBuilder<T>,
+    public readonly whereBuilder: WhereExpressionBuilder,
+    public readonly parameterManager: TypeOrmParameterManager,
+    public readonly mode: TranslationMode,
+    public readonly reuseExistingJoins: boolean,
+    public readonly handlerRegistry: FilterOperatorHandlerRegistry,
+    scope: TranslationScope<T>,
+  ) {
+    this.filterFragmentBuilder = scope.filterFragmentBuilder;
+    this.conditionBuilder = scope.conditionBuilder;
+    this.queryState = scope.queryState;
+    this.queryApplier = scope.queryApplier;
+    this.joinApplier = scope.joinApplier;
+  }
+
+  /**
+   * Creates the context of a new translation.
+   * @param queryBuilder The SelectQueryBuilder this translation modifies.
+   * @param parameterManager The parameter manager for this translation. Pass the manager of an
+   * enclosing translation to keep parameter names unique across both (e.g. for subqueries).
+   * By default, names already set on the query builder are skipped.
+   * @param mode How the translation composes with existing clauses on the query builder.
+   * @param reuseExistingJoins Whether joins already on the query builder are reused for matching relations.
+   * @param handlerRegistry Resolves the handler of each filter operator.
+   * @returns A context with a fresh QueryState and helpers.
+   */
+  public static forQueryBuilder<T extends ObjectLiteral>(
+    queryBuilder: SelectQueryBuilder<T>,
+    parameterManager: TypeOrmParameterManager = TypeOrmParameterManager.forQueryBuilder(
+      queryBuilder,
+    ),
+    mode: TranslationMode = 'replace',
+    reuseExistingJoins: boolean = false,
+    handlerRegistry: FilterOperatorHandlerRegistry = new FilterOperatorHandlerRegistry(),
+  ): TypeOrmTranslationContext<T> {
+    const queryState = new QueryState();
+    const filterFragmentBuilder = new TypeOrmFilterFragmentBuilder(
+      parameterManager,
+      undefined,
+      handlerRegistry,
+      (alias) => queryState.getAliasSourceName(alias),
+    );
+    const conditionBuilder = new TypeOrmConditionBuilder(
+      parameterManager,
+      filterFragmentBuilder,
+    );
+    const context = new TypeOrmTranslationContext<T>(
+      queryBuilder,
+      queryBuilder,
+      parameterManager,
+      mode,
+      reuseExistingJoins,
+      handlerRegistry,
+      {
+        filterFragmentBuilder,
+        conditionBuilder,
+        queryState,
+        queryApplier: new QueryApplier<T>(
+          conditionBuilder,
+          queryState,
+          mode === 'append',
+        ),
+        joinApplier: new TypeOrmJoinApplier<T>(
+          conditionBuilder,
+          queryState,
+          parameterManager,
+          handlerRegistry,
+          reuseExistingJoins,
+        ),
+      },
+    );
+    return context;
+  }
+
+  /**
+   * In append mode, seeds the QueryState with the WHERE clauses already on the query builder and groups them,
+   * so that conditions AND-ed by the translation cannot be bypassed through an existing OR.
+   * Called when the translation applies its root conditions, so creating a context leaves the query builder untouched.
+   */
+  public groupExistingWhereClauses(): void {
+    const existingWheres = this.queryBuilder.expressionMap.wheres;
+    if (this.mode !== 'append' || existingWheres.length === 0) {
+      return;
+    }
+
+    if (existingWheres.length > 1) {
+      this.queryBuilder.expressionMap.wheres = [
+        { type: 'simple', condition: existingWheres },
+      ];
+    }
+    this.queryState.setQueryHasWhereClauses(true);
+  }
+
+  /**
+   * Creates a context sharing this translation's query builder, state and helpers,
+   * but adding the conditions of filter groups to another builder (the one of a `Brackets` group).
+   * @param whereBuilder The builder of the group.
+   * @returns A context bound to the same translation.
+   */
+  public withWhereBuilder(
+    whereBuilder: WhereExpressionBuilder,
+  ): TypeOrmTranslationContext<T> {
+    return new TypeOrmTranslationContext<T>(
+      this.queryBuilder,
+      whereBuilder,
+      this.parameterManager,
+      this.mode,
+      this.reuseExistingJoins,
+      this.handlerRegistry,
+      this,
+    );
+  }
+}